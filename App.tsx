@@ -1,20 +1,112 @@
-import React, { useState, useEffect } from 'react';
-import { GameState, PinyinCategory } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Deck, GameState, PinyinCategory, PinyinChar, Profile, SessionConfig, SessionResult } from './types';
 import { INITIALS, FINALS, OVERALL } from './constants';
-import PinyinCard from './components/PinyinCard';
+import WordFlipCard from './components/WordFlipCard';
 import QuizGame from './components/QuizGame';
 import MemoryGame from './components/MemoryGame';
-import { unlockAudio } from './services/geminiService';
+import ToneQuizGame from './components/ToneQuizGame';
+import BlendingGame from './components/BlendingGame';
+import SpeakGame from './components/SpeakGame';
+import TraceGame from './components/TraceGame';
+import CandyRushGame from './components/CandyRushGame';
+import LessonMap from './components/LessonMap';
+import SessionSetup from './components/SessionSetup';
+import SessionSummary from './components/SessionSummary';
+import StickerAlbum from './components/StickerAlbum';
+import RewardToast from './components/RewardToast';
+import ParentGate from './components/ParentGate';
+import ParentDashboard from './components/ParentDashboard';
+import WorksheetGenerator from './components/WorksheetGenerator';
+import DeckEditor from './components/DeckEditor';
+import VoiceStudio from './components/VoiceStudio';
+import ProfilePicker from './components/ProfilePicker';
+import UpdatePrompt from './components/UpdatePrompt';
+import { preloadPinyin, unlockAudio } from './services/audioService';
+import { getActiveProfile, getProfileSetting, onProfileChange, setProfileSetting } from './services/profileService';
+import { MISTAKE_REPEATS, getMissedItems, resolveSessionItems } from './services/sessionService';
+import { getPracticeStreak, getRewards, onRewardsChange } from './services/rewardService';
+import { applyUpdate, registerServiceWorker } from './services/pwaService';
+import { getDecks, onDecksChange } from './services/deckService';
+import { deckItems } from './utils/decks';
+
+const LETTER_GRID_KEY = 'letter_grid';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [activeTab, setActiveTab] = useState<PinyinCategory>(PinyinCategory.INITIALS);
+  // Set when the learning grid shows a teacher's deck instead of a category
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
+  const [decks, setDecks] = useState<Deck[]>(getDecks);
+  const [showParentGate, setShowParentGate] = useState(false);
+  const [activeProfile, setActiveProfile] = useState<Profile>(getActiveProfile);
+  const [showProfilePicker, setShowProfilePicker] = useState(false);
+  // Quiz and memory open their setup screen until a session is started
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig | null>(null);
+  const [sessionResult, setSessionResult] = useState<SessionResult | null>(null);
+  // Set while practising the items missed in the last session
+  const [mistakeItems, setMistakeItems] = useState<PinyinChar[] | null>(null);
+
+  const [updateReady, setUpdateReady] = useState(false);
+  const [rewards, setRewards] = useState(getRewards);
+  // Learning cards written on the four-line grid instead of as plain text
+  const [letterGrid, setLetterGrid] = useState(() => getProfileSetting(LETTER_GRID_KEY, false));
+
+  // Keep the menu in sync when the active profile is switched or edited
+  useEffect(() => onProfileChange(profile => {
+    setActiveProfile(profile);
+    setRewards(getRewards());
+    setLetterGrid(getProfileSetting(LETTER_GRID_KEY, false));
+  }), []);
+
+  useEffect(() => onRewardsChange(setRewards), []);
+  useEffect(() => onDecksChange(setDecks), []);
+
+  // Offline support: precache the app and listen for new versions
+  useEffect(() => {
+    registerServiceWorker(() => setUpdateReady(true));
+  }, []);
 
   // Combine lists for quiz
   const allItems = [...INITIALS, ...FINALS, ...OVERALL];
 
+  // A session plays the built-in letters or one of the teacher's decks
+  const sessionDeck = decks.find(d => d.id === sessionConfig?.deckId);
+  const sessionPool = sessionDeck ? deckItems(sessionDeck) : allItems;
+
+  // Memoized so the games don't restart when App re-renders; an edit to the deck being played applies at once
+  const sessionItems = useMemo(
+    () => (sessionConfig ? resolveSessionItems(sessionConfig, sessionPool) : []),
+    [sessionConfig, sessionDeck]
+  );
+
+  const toggleLetterGrid = () => {
+    setProfileSetting(LETTER_GRID_KEY, !letterGrid);
+    setLetterGrid(!letterGrid);
+  };
+
+  const backToMenu = () => {
+    setSessionConfig(null);
+    setSessionResult(null);
+    setMistakeItems(null);
+    setGameState(GameState.MENU);
+  };
+
+  const playAgain = () => {
+    setSessionResult(null);
+    setMistakeItems(null);
+  };
+
+  const practiseMistakes = () => {
+    if (!sessionResult) return;
+    setMistakeItems(getMissedItems(sessionResult, sessionPool));
+    setSessionResult(null);
+  };
+
+  const activeDeck = decks.find(d => d.id === activeDeckId);
+
   // Helper to get items for current tab
   const getCurrentItems = () => {
+    if (activeDeck) return deckItems(activeDeck);
     switch (activeTab) {
       case PinyinCategory.INITIALS: return INITIALS;
       case PinyinCategory.FINALS: return FINALS;
@@ -23,6 +115,13 @@ const App: React.FC = () => {
     }
   };
 
+  // Warm the audio cache for the tab the child is looking at
+  useEffect(() => {
+    if (gameState === GameState.LEARNING) {
+      preloadPinyin(getCurrentItems().map(item => item.char));
+    }
+  }, [gameState, activeTab, activeDeck]);
+
   // Unlock audio on first interaction
   useEffect(() => {
     const handleInteraction = () => {
@@ -42,6 +141,23 @@ const App: React.FC = () => {
 
   const renderMenu = () => (
     <div className="flex flex-col items-center justify-center min-h-[80vh] w-full max-w-5xl mx-auto px-4 animate-fade-in">
+      {/* Parent Entry - kept small and out of the way of the kid buttons */}
+      <button
+        onClick={() => setShowParentGate(true)}
+        className="fixed top-4 right-4 z-20 bg-white/70 backdrop-blur px-4 py-2 rounded-full text-gray-400 font-bold text-sm shadow-sm hover:bg-white transition-colors"
+      >
+        👪 家长
+      </button>
+
+      {/* Active Profile - tap to switch child */}
+      <button
+        onClick={() => setShowProfilePicker(true)}
+        className="fixed top-4 left-4 z-20 flex items-center gap-2 bg-white/90 backdrop-blur pl-2 pr-5 py-1.5 rounded-full shadow-md border-b-4 border-pink-200 active:border-b-0 active:translate-y-1 hover:scale-105 transition-all"
+      >
+        <span className="text-3xl">{activeProfile.avatar}</span>
+        <span className="font-black text-pink-500 text-lg">{activeProfile.name}</span>
+      </button>
+
       {/* Title Section */}
       <div className="text-center mb-10 md:mb-16 relative">
         <h1 className="text-7xl md:text-9xl font-black text-transparent bg-clip-text bg-gradient-to-br from-pink-400 via-purple-400 to-teal-400 drop-shadow-2xl font-serif py-4">
@@ -54,8 +170,8 @@ const App: React.FC = () => {
         </p>
       </div>
 
-      {/* Menu Buttons - 3 Columns on desktop */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full px-4 md:px-0">
+      {/* Menu Buttons - 2 Columns on tablet, 4 on desktop */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 w-full px-4 md:px-0">
         
         {/* Mode 1: Learn */}
         <button
@@ -110,6 +226,132 @@ const App: React.FC = () => {
           <h2 className="text-2xl md:text-3xl font-black text-teal-500 mb-2">记忆配对</h2>
           <span className="text-gray-400 font-bold font-pinyin">Memory Match</span>
         </button>
+
+        {/* Mode 4: Tone Quiz */}
+        <button
+          onClick={() => setGameState(GameState.TONE_QUIZ)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-purple-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-purple-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-purple-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">🎶</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-purple-500 mb-2">听声调</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Tone Quiz</span>
+        </button>
+
+        {/* Mode 5: Blending */}
+        <button
+          onClick={() => setGameState(GameState.BLENDING)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-orange-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-orange-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-orange-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">🧩</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-orange-500 mb-2">拼读练习</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Blending</span>
+        </button>
+
+        {/* Mode 6: Read After Me */}
+        <button
+          onClick={() => setGameState(GameState.SPEAK)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-rose-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-rose-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-rose-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">🎤</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-rose-500 mb-2">跟我读</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Read After Me</span>
+        </button>
+
+        {/* Mode 7: Lesson Map */}
+        <button
+          onClick={() => setGameState(GameState.LESSONS)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-amber-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-amber-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-amber-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">🗺️</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-amber-500 mb-2">糖果地图</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Lesson Map</span>
+        </button>
+
+        {/* Mode 8: Sticker Album */}
+        <button
+          onClick={() => setGameState(GameState.REWARDS)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-fuchsia-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-fuchsia-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-fuchsia-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">📒</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-fuchsia-500 mb-2">贴纸册</h2>
+          <span className="text-gray-400 font-bold">🍬 {rewards.candies} · 🔥 {getPracticeStreak(rewards)} 天</span>
+        </button>
+
+        {/* Mode 9: Handwriting */}
+        <button
+          onClick={() => setGameState(GameState.TRACE)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-sky-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-sky-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-sky-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">✏️</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-sky-500 mb-2">描一描</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Handwriting</span>
+        </button>
+
+        {/* Mode 10: Candy Rush */}
+        <button
+          onClick={() => setGameState(GameState.RUSH)}
+          className="
+            group relative bg-white p-6 md:p-8 rounded-[2rem] 
+            border-b-[12px] border-red-200 active:border-b-0 active:translate-y-3
+            hover:-translate-y-1 hover:border-red-300
+            transition-all duration-200
+            flex flex-col items-center
+          "
+        >
+          <div className="bg-red-100 p-6 rounded-full mb-4 group-hover:scale-110 transition-transform shadow-inner">
+            <span className="text-6xl">🍬</span>
+          </div>
+          <h2 className="text-2xl md:text-3xl font-black text-red-400 mb-2">糖果快打</h2>
+          <span className="text-gray-400 font-bold font-pinyin">Candy Rush</span>
+        </button>
       </div>
     </div>
   );
@@ -141,10 +383,10 @@ const App: React.FC = () => {
           ].map((tab) => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id as PinyinCategory)}
+              onClick={() => { setActiveTab(tab.id as PinyinCategory); setActiveDeckId(null); }}
               className={`
                 px-5 py-2 md:px-8 md:py-3 rounded-2xl font-black transition-all border-b-4 
-                ${activeTab === tab.id 
+                ${!activeDeck && activeTab === tab.id 
                   ? `${tab.color} ${tab.border} text-white transform -translate-y-1 shadow-md` 
                   : `bg-transparent border-transparent ${tab.text} hover:bg-gray-50`
                 }
@@ -153,13 +395,40 @@ const App: React.FC = () => {
               {tab.label}
             </button>
           ))}
+          {/* Teacher-made Decks */}
+          {decks.map(deck => (
+            <button
+              key={deck.id}
+              onClick={() => setActiveDeckId(deck.id)}
+              className={`
+                px-5 py-2 md:px-8 md:py-3 rounded-2xl font-black transition-all border-b-4 
+                ${activeDeck?.id === deck.id 
+                  ? 'bg-orange-500 border-orange-700 text-white transform -translate-y-1 shadow-md' 
+                  : 'bg-transparent border-transparent text-orange-500 hover:bg-gray-50'
+                }
+              `}
+            >
+              📚 {deck.name}
+            </button>
+          ))}
         </div>
+
+        {/* Letter Style */}
+        <button
+          onClick={toggleLetterGrid}
+          className={`
+            flex items-center gap-2 px-5 py-3 rounded-full font-black border-b-4 transition-all shadow-sm
+            ${letterGrid ? 'bg-indigo-400 border-indigo-600 text-white' : 'bg-white border-indigo-100 text-indigo-400 hover:bg-indigo-50'}
+          `}
+        >
+          <span>📏</span> 四线三格
+        </button>
       </div>
 
       {/* Cards Grid */}
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 md:gap-8 justify-items-center">
         {getCurrentItems().map((item) => (
-          <PinyinCard key={item.char} item={item} />
+          <WordFlipCard key={item.char} item={item} grid={letterGrid} />
         ))}
       </div>
       
@@ -170,7 +439,7 @@ const App: React.FC = () => {
         text-pink-500 font-bold animate-bounce 
         whitespace-nowrap z-50 pointer-events-none text-lg flex items-center gap-2"
       >
-         👆 点击卡片听声音
+         👆 点击卡片听声音，🖼️ 翻开看图认词
       </div>
     </div>
   );
@@ -187,10 +456,78 @@ const App: React.FC = () => {
       <main className="relative z-10 py-6">
         {gameState === GameState.MENU && renderMenu()}
         {gameState === GameState.LEARNING && renderLearning()}
-        {gameState === GameState.QUIZ && <QuizGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
-        {gameState === GameState.MEMORY && <MemoryGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
+        {(gameState === GameState.QUIZ || gameState === GameState.MEMORY) && !sessionConfig && (
+          <SessionSetup key={gameState} game={gameState} allItems={allItems} decks={decks} onStart={setSessionConfig} onBack={backToMenu} />
+        )}
+        {sessionConfig && sessionResult && (
+          <SessionSummary
+            result={sessionResult}
+            allItems={sessionPool}
+            onPractiseMistakes={practiseMistakes}
+            onPlayAgain={playAgain}
+            onBack={backToMenu}
+          />
+        )}
+        {gameState === GameState.QUIZ && sessionConfig && !sessionResult && (
+          <QuizGame
+            allItems={sessionItems}
+            questionItems={mistakeItems ?? undefined}
+            onBack={backToMenu}
+            initialDifficulty={sessionConfig.difficulty}
+            questionLimit={mistakeItems ? mistakeItems.length * MISTAKE_REPEATS : sessionConfig.length}
+            optionCount={sessionConfig.optionCount}
+            timeLimit={sessionConfig.timeLimit}
+            advanceDelay={sessionConfig.advanceDelay}
+            onComplete={setSessionResult}
+          />
+        )}
+        {gameState === GameState.MEMORY && sessionConfig && !sessionResult && (
+          <MemoryGame
+            allItems={mistakeItems ?? sessionItems}
+            onBack={backToMenu}
+            pairCount={sessionConfig.length}
+            timeLimit={sessionConfig.timeLimit}
+            advanceDelay={sessionConfig.advanceDelay}
+            variant={sessionConfig.memoryVariant}
+            players={sessionConfig.players}
+            onComplete={setSessionResult}
+          />
+        )}
+        {gameState === GameState.TONE_QUIZ && <ToneQuizGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.BLENDING && <BlendingGame initials={INITIALS} finals={FINALS} onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.SPEAK && <SpeakGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.TRACE && <TraceGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.RUSH && <CandyRushGame allItems={allItems} onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.LESSONS && <LessonMap onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.REWARDS && <StickerAlbum onBack={() => setGameState(GameState.MENU)} />}
+        {gameState === GameState.DASHBOARD && (
+          <ParentDashboard
+            onBack={() => setGameState(GameState.MENU)}
+            onOpenWorksheets={() => setGameState(GameState.WORKSHEETS)}
+            onOpenDecks={() => setGameState(GameState.DECKS)}
+            onOpenVoiceStudio={() => setGameState(GameState.VOICE_STUDIO)}
+          />
+        )}
+        {gameState === GameState.WORKSHEETS && <WorksheetGenerator allItems={allItems} onBack={() => setGameState(GameState.DASHBOARD)} />}
+        {gameState === GameState.DECKS && <DeckEditor onBack={() => setGameState(GameState.DASHBOARD)} />}
+        {gameState === GameState.VOICE_STUDIO && (
+          <VoiceStudio allItems={allItems} decks={decks} onBack={() => setGameState(GameState.DASHBOARD)} />
+        )}
       </main>
 
+      <RewardToast />
+
+      {updateReady && <UpdatePrompt onUpdate={applyUpdate} onDismiss={() => setUpdateReady(false)} />}
+
+      {showProfilePicker && <ProfilePicker onClose={() => setShowProfilePicker(false)} />}
+
+      {showParentGate && (
+        <ParentGate
+          onUnlock={() => { setShowParentGate(false); setGameState(GameState.DASHBOARD); }}
+          onCancel={() => setShowParentGate(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="w-full text-center py-4 text-gray-400 text-sm font-bold opacity-50 relative z-10">
         Made with ❤️ for Kids
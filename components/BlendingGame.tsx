@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PinyinChar } from '../types';
+import { hasClearAudio, playSequence, preloadPinyin, stopAudio } from '../services/audioService';
+import { blendSyllable, BlendResult } from '../utils/pinyin';
+import PinyinCard from './PinyinCard';
+import confetti from 'canvas-confetti';
+
+interface BlendingGameProps {
+  initials: PinyinChar[];
+  finals: PinyinChar[];
+  onBack: () => void;
+}
+
+// Pause between the initial, the final and the blended syllable (b ... a ... ba)
+const SEQUENCE_GAP_MS = 400;
+
+const SEQUENCE_STEPS = ['initial', 'final', 'syllable'] as const;
+
+const BlendingGame: React.FC<BlendingGameProps> = ({ initials, finals, onBack }) => {
+  const [selectedInitial, setSelectedInitial] = useState<PinyinChar | null>(null);
+  const [selectedFinal, setSelectedFinal] = useState<PinyinChar | null>(null);
+  const [result, setResult] = useState<BlendResult | null>(null);
+  const [feedback, setFeedback] = useState<'idle' | 'invalid'>('idle');
+  // The blend has no recording and no character speech can read for it (dei), so it is not played
+  const [silentSyllable, setSilentSyllable] = useState(false);
+  // Which part of the sequence is currently sounding, for highlighting
+  const [playingStep, setPlayingStep] = useState<'initial' | 'final' | 'syllable' | null>(null);
+
+  // Guards against a second blend starting while one sequence is still playing
+  const isPlayingRef = useRef(false);
+  const mountedRef = useRef(true);
+  const invalidTimerRef = useRef<ReturnType<typeof setTimeout>>(); // Clears the "can't blend" message
+
+  useEffect(() => {
+    preloadPinyin([...initials, ...finals].map(i => i.char));
+  }, [initials, finals]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      clearTimeout(invalidTimerRef.current);
+      stopAudio();
+    };
+  }, []);
+
+  const selectInitial = (item: PinyinChar) => {
+    setSelectedInitial(item);
+    setResult(null);
+    setFeedback('idle');
+  };
+
+  const selectFinal = (item: PinyinChar) => {
+    setSelectedFinal(item);
+    setResult(null);
+    setFeedback('idle');
+  };
+
+  const handleBlend = async () => {
+    if (!selectedInitial || !selectedFinal || isPlayingRef.current) return;
+
+    const blended = blendSyllable(selectedInitial.char, selectedFinal.char);
+    clearTimeout(invalidTimerRef.current);
+    if (!blended) {
+      setResult(null);
+      setFeedback('invalid');
+      invalidTimerRef.current = setTimeout(() => setFeedback('idle'), 1500);
+      return;
+    }
+
+    // Speech would spell a bare "dei" out letter by letter; stop after the final instead
+    const speakable = hasClearAudio(blended.syllable);
+    setResult(blended);
+    setFeedback('idle');
+    setSilentSyllable(!speakable);
+    isPlayingRef.current = true;
+
+    const steps = speakable ? [blended.initial, blended.final, blended.syllable] : [blended.initial, blended.final];
+    const completed = await playSequence(steps, {
+      gapMs: SEQUENCE_GAP_MS,
+      onStep: (index) => {
+        if (mountedRef.current) setPlayingStep(SEQUENCE_STEPS[index]);
+      },
+    });
+
+    isPlayingRef.current = false;
+    if (!mountedRef.current) return;
+    setPlayingStep(null);
+    if (!completed) return;
+
+    confetti({
+      particleCount: 100,
+      spread: 80,
+      origin: { y: 0.6 },
+      colors: ['#a864fd', '#ff69b4', '#2dd4bf', '#ffd700'],
+      shapes: ['circle', 'square'],
+    });
+  };
+
+  const renderSlot = (label: string, value: string | undefined, step: 'initial' | 'final' | 'syllable', color: string) => (
+    <div className={`
+      flex items-center justify-center min-w-[5rem] h-24 px-4 rounded-2xl border-4 bg-white
+      font-black font-pinyin text-5xl transition-all duration-200
+      ${value ? color : 'border-dashed border-gray-200 text-gray-300'}
+      ${playingStep === step ? 'scale-110 -translate-y-1 shadow-lg' : ''}
+    `}>
+      {value ?? label}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-full w-full max-w-5xl mx-auto p-4 md:p-8">
+      {/* Header Bar */}
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+      </div>
+
+      {/* Blend Area */}
+      <div className="flex flex-col items-center w-full max-w-2xl bg-white/60 backdrop-blur-sm rounded-3xl p-6 md:p-8 border-4 border-white shadow-xl mb-8">
+        <h2 className="text-3xl md:text-4xl font-black text-orange-500 mb-6 drop-shadow-sm">
+          拼一拼 🧩
+        </h2>
+
+        <div className={`flex items-center gap-3 md:gap-4 ${feedback === 'invalid' ? 'animate-head-shake' : ''}`}>
+          {renderSlot('?', selectedInitial?.char, 'initial', 'border-purple-300 text-purple-600')}
+          <span className="text-4xl font-black text-gray-400">+</span>
+          {renderSlot('?', result?.final ?? selectedFinal?.char, 'final', 'border-pink-300 text-pink-600')}
+          <span className="text-4xl font-black text-gray-400">=</span>
+          {renderSlot('?', result?.syllable, 'syllable', 'border-orange-300 text-orange-500')}
+        </div>
+
+        <div className="h-12 mt-4 flex items-center justify-center text-center">
+          {feedback === 'invalid' && (
+            <span className="text-xl font-black text-pink-400 animate-pulse">🙅 这两个不能拼在一起哦，换一个试试!</span>
+          )}
+          {feedback === 'idle' && result?.rule && (
+            <span className="text-lg font-bold text-orange-500 bg-orange-50 px-4 py-1 rounded-full">💡 {result.rule}</span>
+          )}
+          {feedback === 'idle' && result && silentSyllable && (
+            <span className="text-base font-bold text-gray-400">🎙️ “{result.syllable}” 还没有录音，请老师在「老师录音」里录一下</span>
+          )}
+        </div>
+
+        <button
+          onClick={handleBlend}
+          disabled={!selectedInitial || !selectedFinal}
+          className="mt-2 bg-orange-400 hover:bg-orange-500 disabled:bg-gray-200 disabled:border-gray-300 text-white font-black text-2xl px-10 py-3 rounded-full shadow-lg border-b-4 border-orange-600 active:border-b-0 active:translate-y-1 transition-all"
+        >
+          🔊 拼读
+        </button>
+      </div>
+
+      {/* Initials Picker */}
+      <h3 className="text-xl font-black text-purple-500 mb-2 self-start">1. 选一个声母</h3>
+      <div className="flex flex-wrap justify-center gap-1 mb-6">
+        {initials.map((item) => (
+          <div
+            key={item.char}
+            className={`rounded-3xl transition-all ${selectedInitial?.char === item.char ? 'ring-4 ring-purple-400 scale-105' : ''}`}
+          >
+            <PinyinCard item={item} onClick={() => selectInitial(item)} />
+          </div>
+        ))}
+      </div>
+
+      {/* Finals Picker */}
+      <h3 className="text-xl font-black text-pink-500 mb-2 self-start">2. 选一个韵母</h3>
+      <div className="flex flex-wrap justify-center gap-1">
+        {finals.map((item) => (
+          <div
+            key={item.char}
+            className={`rounded-3xl transition-all ${selectedFinal?.char === item.char ? 'ring-4 ring-pink-400 scale-105' : ''}`}
+          >
+            <PinyinCard item={item} onClick={() => selectFinal(item)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BlendingGame;
@@ -0,0 +1,517 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GameState, HighScore, PinyinChar, SessionResult } from '../types';
+import { playPinyinAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { recordAttempt } from '../services/progressService';
+import { emitGameEvent } from '../services/gameEvents';
+import { getActiveProfile } from '../services/profileService';
+import { addHighScore, getHighScores } from '../services/highScoreService';
+import { pickDistractors } from '../utils/scheduler';
+import { popAt, runRandomCelebration, runStars } from '../utils/confetti';
+
+interface CandyRushGameProps {
+  allItems: PinyinChar[];
+  onBack: () => void;
+}
+
+type Phase = 'ready' | 'playing' | 'paused' | 'over';
+
+interface Candy {
+  id: number;
+  item: PinyinChar;
+  lane: number;
+  y: number; // Centre of the candy, as a share of the field height (0 = top)
+  status: 'falling' | 'caught' | 'wrong' | 'fading';
+  removeAt?: number; // When a caught, wrong or fading candy leaves the field
+}
+
+// Everything the game loop changes. It lives in a ref and is drawn by re-rendering every frame.
+interface RushState {
+  candies: Candy[];
+  target: PinyinChar | null;
+  waveStartedAt: number;
+  nextWaveAt: number | null; // Set between waves
+  wrongThisWave: boolean;
+  level: number;
+  lives: number;
+  score: number;
+  combo: number;
+  bestCombo: number;
+  caught: number;
+  waves: number;
+  missed: string[];
+  levelUpUntil: number;
+  startedAt: number;
+}
+
+const LIVES = 3;
+const LANES = 5;
+const CATCHES_PER_LEVEL = 5;
+const POINTS_PER_CATCH = 10;
+
+// Fall speed in field heights per second: a little faster every level
+const BASE_FALL_SPEED = 0.14;
+const FALL_SPEEDUP = 0.03;
+const MAX_FALL_SPEED = 0.45;
+const MAX_FRAME_S = 0.1; // A slow frame (or a hidden tab) doesn't teleport the candies
+
+const LAND_Y = 0.9;      // Where the ground is
+const SPAWN_Y = -0.1;    // The first candy of a wave starts just above the field...
+const SPAWN_STAGGER = 0.15; // ...and the others further up, one after the other
+const WAVE_PAUSE_MS = 700;
+const POP_MS = 450;
+const LEVEL_BANNER_MS = 1500;
+
+// Combo needed for each multiplier: 3 in a row doubles the points, 6 triples, 10 quadruples
+const COMBO_STEPS = [0, 3, 6, 10];
+
+const CANDY_COLORS = [
+  'from-pink-300 to-rose-400',
+  'from-violet-300 to-purple-400',
+  'from-sky-300 to-blue-400',
+  'from-amber-300 to-orange-400',
+  'from-emerald-300 to-teal-400',
+];
+
+const multiplierFor = (combo: number) => COMBO_STEPS.filter(step => combo >= step).length;
+const fallSpeedFor = (level: number) => Math.min(MAX_FALL_SPEED, BASE_FALL_SPEED + (level - 1) * FALL_SPEEDUP);
+// More candies and more look-alikes (b/d, an/ang) as the levels go up
+const candiesFor = (level: number) => Math.min(LANES, 3 + Math.floor((level - 1) / 2));
+const hardCandiesFor = (level: number) => Math.floor((level - 1) / 2);
+
+const newRushState = (): RushState => ({
+  candies: [],
+  target: null,
+  waveStartedAt: 0,
+  nextWaveAt: null,
+  wrongThisWave: false,
+  level: 1,
+  lives: LIVES,
+  score: 0,
+  combo: 0,
+  bestCombo: 0,
+  caught: 0,
+  waves: 0,
+  missed: [],
+  levelUpUntil: 0,
+  startedAt: Date.now(),
+});
+
+/**
+ * Arcade mode for quick listeners: a syllable is spoken and candies fall down the screen;
+ * tap the one it names before it lands. Catches in a row multiply the points, every few
+ * catches the candies fall faster, and three misses end the game.
+ */
+const CandyRushGame: React.FC<CandyRushGameProps> = ({ allItems, onBack }) => {
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [, setFrame] = useState(0);
+  const [highScores, setHighScores] = useState<HighScore[]>(() => getHighScores());
+  const [place, setPlace] = useState(-1); // Where the last game landed on the table
+
+  const gameRef = useRef<RushState>(newRushState());
+  const nextIdRef = useRef(0);
+
+  const game = gameRef.current;
+  const multiplier = multiplierFor(game.combo);
+
+  useEffect(() => () => stopAudio(), []);
+
+  // Leaving the tab pauses the game
+  useEffect(() => {
+    const onVisibility = () => {
+      if (document.hidden) setPhase(p => (p === 'playing' ? 'paused' : p));
+    };
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
+  }, []);
+
+  const sayTarget = () => {
+    const target = gameRef.current.target;
+    if (target) playPinyinAudio(target.char).catch(e => console.error("Audio error", e));
+  };
+
+  const startWave = (now: number) => {
+    const state = gameRef.current;
+    const target = allItems[Math.floor(Math.random() * allItems.length)];
+    const count = candiesFor(state.level);
+    const items = [target, ...pickDistractors(target, allItems, undefined, count - 1, hardCandiesFor(state.level))]
+      .sort(() => Math.random() - 0.5);
+    const lanes = Array.from({ length: LANES }, (_, i) => i).sort(() => Math.random() - 0.5);
+
+    state.candies = items.map((item, i) => ({
+      id: nextIdRef.current++,
+      item,
+      lane: lanes[i],
+      y: SPAWN_Y - i * SPAWN_STAGGER,
+      status: 'falling',
+    }));
+    state.target = target;
+    state.waveStartedAt = now;
+    state.nextWaveAt = null;
+    state.wrongThisWave = false;
+    state.waves++;
+    sayTarget();
+  };
+
+  // Ends the wave: whatever is still falling fades away
+  const endWave = (now: number) => {
+    const state = gameRef.current;
+    state.candies.forEach(c => {
+      if (c.status === 'falling') {
+        c.status = 'fading';
+        c.removeAt = now + POP_MS;
+      }
+    });
+    state.nextWaveAt = now + WAVE_PAUSE_MS;
+  };
+
+  const loseLife = (char: string) => {
+    const state = gameRef.current;
+    state.lives--;
+    state.combo = 0;
+    if (!state.missed.includes(char)) state.missed.push(char);
+    if (state.lives <= 0) finishGame();
+  };
+
+  const finishGame = () => {
+    const state = gameRef.current;
+    stopAudio();
+    setPhase('over');
+
+    const result: SessionResult = {
+      mode: GameState.RUSH,
+      total: state.waves,
+      correct: state.caught,
+      bestStreak: state.bestCombo,
+      missed: state.missed,
+      startedAt: state.startedAt,
+      endedAt: Date.now(),
+    };
+    emitGameEvent({ type: 'session_complete', result });
+
+    const profile = getActiveProfile();
+    const newPlace = addHighScore({
+      profileId: profile.id,
+      name: profile.name,
+      avatar: profile.avatar,
+      score: state.score,
+      level: state.level,
+      bestCombo: state.bestCombo,
+      date: Date.now(),
+    });
+    setPlace(newPlace);
+    setHighScores(getHighScores());
+    if (newPlace >= 0) runRandomCelebration();
+  };
+
+  // One frame of the game loop
+  const step = (dt: number, now: number) => {
+    const state = gameRef.current;
+    state.candies = state.candies.filter(c => c.removeAt === undefined || c.removeAt > now);
+
+    if (state.nextWaveAt !== null) {
+      if (now >= state.nextWaveAt) startWave(now);
+      return;
+    }
+
+    const fall = fallSpeedFor(state.level) * dt;
+    for (const candy of state.candies) {
+      if (candy.status !== 'falling') continue;
+      candy.y += fall;
+      if (candy.y < LAND_Y) continue;
+
+      if (candy.item.char === state.target?.char) {
+        // The one to catch hit the ground
+        candy.status = 'wrong';
+        candy.removeAt = now + POP_MS;
+        if (!state.wrongThisWave) {
+          recordAttempt({
+            item: candy.item.char,
+            mode: GameState.RUSH,
+            correct: false,
+            responseTimeMs: Math.round(now - state.waveStartedAt),
+          }).catch(console.error);
+        }
+        endWave(now);
+        loseLife(candy.item.char);
+        return;
+      }
+      candy.status = 'fading';
+      candy.removeAt = now + POP_MS;
+    }
+  };
+
+  const stepRef = useRef(step);
+  stepRef.current = step;
+
+  // The game loop: runs while playing, stops when paused, over or unmounted
+  useEffect(() => {
+    if (phase !== 'playing') return;
+    let frameId = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = Math.min(MAX_FRAME_S, (now - last) / 1000);
+      last = now;
+      stepRef.current(dt, now);
+      setFrame(f => f + 1);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [phase]);
+
+  const startGame = () => {
+    gameRef.current = newRushState();
+    preloadPinyin(allItems.map(i => i.char));
+    setPlace(-1);
+    setPhase('playing');
+    startWave(performance.now());
+  };
+
+  const handleCandyTap = (candy: Candy, e: React.PointerEvent) => {
+    const state = gameRef.current;
+    if (phase !== 'playing' || candy.status !== 'falling' || state.nextWaveAt !== null || !state.target) return;
+    const now = performance.now();
+    const isCorrect = candy.item.char === state.target.char;
+
+    // Only the first tap of a wave counts towards progress
+    if (!state.wrongThisWave) {
+      recordAttempt({
+        item: state.target.char,
+        mode: GameState.RUSH,
+        correct: isCorrect,
+        answer: isCorrect ? undefined : candy.item.char,
+        responseTimeMs: Math.round(now - state.waveStartedAt),
+      }).catch(console.error);
+    }
+
+    candy.removeAt = now + POP_MS;
+    if (isCorrect) {
+      candy.status = 'caught';
+      state.combo++;
+      state.bestCombo = Math.max(state.bestCombo, state.combo);
+      state.score += POINTS_PER_CATCH * multiplierFor(state.combo);
+      state.caught++;
+      popAt(e.clientX / window.innerWidth, e.clientY / window.innerHeight);
+
+      if (state.caught % CATCHES_PER_LEVEL === 0) {
+        state.level++;
+        state.levelUpUntil = now + LEVEL_BANNER_MS;
+        runStars();
+      }
+      endWave(now);
+    } else {
+      // A wrong candy costs a life; the wave goes on, so the syllable is said again
+      candy.status = 'wrong';
+      state.wrongThisWave = true;
+      loseLife(state.target.char);
+      if (state.lives > 0) sayTarget();
+    }
+    setFrame(f => f + 1);
+  };
+
+  const renderHighScores = () => (
+    <div className="w-full max-w-md bg-white/80 rounded-3xl p-5 border-b-8 border-pink-200 shadow-lg">
+      <h3 className="text-xl font-black text-pink-500 mb-3 text-center">🏆 排行榜</h3>
+      {highScores.length === 0 ? (
+        <div className="text-center text-gray-400 font-bold py-4">还没有人上榜，快来第一个!</div>
+      ) : (
+        <ol className="flex flex-col gap-1.5">
+          {highScores.map((entry, i) => (
+            <li
+              key={`${entry.date}-${i}`}
+              className={`flex items-center gap-3 px-3 py-1.5 rounded-xl font-bold ${
+                i === place ? 'bg-yellow-100 text-yellow-700 animate-pulse' : 'text-gray-600'
+              }`}
+            >
+              <span className="w-7 text-center font-black">{['🥇', '🥈', '🥉'][i] ?? i + 1}</span>
+              <span className="text-2xl">{entry.avatar}</span>
+              <span className="flex-1 truncate">{entry.name}</span>
+              <span className="text-xs text-gray-400">第 {entry.level} 关</span>
+              <span className="w-16 text-right font-black text-pink-500">{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+
+  const bigButton = 'text-white font-black text-2xl px-10 py-4 rounded-full shadow-lg border-b-4 active:border-b-0 active:translate-y-1 transition-all';
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
+      <style>{`
+        @keyframes candyCatch {
+          0% { transform: translate(-50%, -50%) scale(1); opacity: 1; }
+          50% { transform: translate(-50%, -50%) scale(1.4); opacity: 1; }
+          100% { transform: translate(-50%, -50%) scale(0); opacity: 0; }
+        }
+        @keyframes candyWrong {
+          0%, 100% { transform: translate(-50%, -50%) rotate(0); opacity: 1; }
+          20% { transform: translate(-60%, -50%) rotate(-12deg); }
+          40% { transform: translate(-40%, -50%) rotate(12deg); }
+          60% { transform: translate(-55%, -50%) rotate(-8deg); opacity: 0.6; }
+          80% { transform: translate(-45%, -50%) rotate(8deg); opacity: 0.3; }
+        }
+        @keyframes candyFade {
+          to { transform: translate(-50%, -50%) scale(0.6); opacity: 0; }
+        }
+        @keyframes levelBanner {
+          0% { transform: scale(0.3); opacity: 0; }
+          30% { transform: scale(1.2); opacity: 1; }
+          80% { transform: scale(1); opacity: 1; }
+          100% { transform: scale(1); opacity: 0; }
+        }
+        .animate-candy-catch { animation: candyCatch 0.45s ease-out forwards; }
+        .animate-candy-wrong { animation: candyWrong 0.45s ease-in-out forwards; }
+        .animate-candy-fade { animation: candyFade 0.45s ease-in forwards; }
+        .animate-level-banner { animation: levelBanner 1.5s ease-out forwards; }
+        .candy-wrapper { clip-path: polygon(0 0, 100% 30%, 100% 70%, 0 100%); }
+      `}</style>
+
+      {/* Header Bar */}
+      <div className="w-full flex justify-between items-center mb-4 gap-2">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        {phase !== 'ready' && (
+          <div className="flex items-center gap-2">
+            <div className="bg-white px-4 py-2 rounded-full border-b-4 border-red-200 shadow-sm text-xl md:text-2xl">
+              {Array.from({ length: LIVES }, (_, i) => (i < game.lives ? '❤️' : '🤍')).join('')}
+            </div>
+            <div className="bg-white px-4 py-2 rounded-full border-b-4 border-pink-200 shadow-sm flex items-center gap-2">
+              <span className="text-xl md:text-2xl font-black text-pink-500">{game.score}</span>
+              {multiplier > 1 && <span className="text-sm font-black text-orange-400 animate-pulse">×{multiplier}</span>}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <h2 className="text-3xl md:text-4xl font-black text-pink-500 mb-4 drop-shadow-sm">
+        糖果快打 🍬
+      </h2>
+
+      {phase === 'ready' ? (
+        <div className="flex flex-col items-center gap-6 w-full">
+          <p className="text-lg font-bold text-gray-500 text-center max-w-md">
+            听到拼音后，在糖果掉到地上之前点中它! 连续点对分数翻倍，每过 {CATCHES_PER_LEVEL} 颗糖果会掉得更快。有 {LIVES} 条命哦。
+          </p>
+          <button onClick={startGame} className={`${bigButton} bg-pink-400 hover:bg-pink-500 border-pink-600`}>
+            ▶ 开始
+          </button>
+          {renderHighScores()}
+        </div>
+      ) : (
+        <>
+          {/* Level, Combo and Replay */}
+          <div className="w-full flex justify-between items-center mb-3 px-1">
+            <span className="bg-white/80 px-4 py-1.5 rounded-full font-black text-purple-500 shadow-sm">第 {game.level} 关</span>
+            <button
+              onClick={sayTarget}
+              disabled={phase !== 'playing'}
+              className="bg-pink-400 hover:bg-pink-500 text-white font-black px-5 py-1.5 rounded-full shadow-md border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all disabled:opacity-50"
+            >
+              🔊 再听一遍
+            </button>
+            <span className={`bg-white/80 px-4 py-1.5 rounded-full font-black shadow-sm ${game.combo >= COMBO_STEPS[1] ? 'text-orange-500' : 'text-gray-400'}`}>
+              连击 {game.combo}
+            </span>
+          </div>
+
+          {/* Playing Field */}
+          <div
+            className="relative w-full h-[55vh] min-h-[360px] rounded-3xl overflow-hidden border-4 border-white shadow-xl bg-gradient-to-b from-sky-100 via-pink-50 to-pink-100 touch-none select-none"
+          >
+            {game.candies.map(candy => (
+              <button
+                key={candy.id}
+                onPointerDown={e => handleCandyTap(candy, e)}
+                className={`absolute w-24 h-16 md:w-28 md:h-20 flex items-center justify-center ${
+                  candy.status === 'caught' ? 'animate-candy-catch' : candy.status === 'wrong' ? 'animate-candy-wrong' : candy.status === 'fading' ? 'animate-candy-fade' : ''
+                }`}
+                style={{
+                  left: `${((candy.lane + 0.5) / LANES) * 100}%`,
+                  top: `${candy.y * 100}%`,
+                  transform: 'translate(-50%, -50%)',
+                }}
+              >
+                {/* Wrapper twists on both ends */}
+                <span className={`absolute left-0 w-5 h-10 bg-gradient-to-br ${CANDY_COLORS[candy.lane]} candy-wrapper rotate-180`} />
+                <span className={`absolute right-0 w-5 h-10 bg-gradient-to-br ${CANDY_COLORS[candy.lane]} candy-wrapper`} />
+                <span className={`relative z-10 w-16 h-16 md:w-20 md:h-20 rounded-full bg-gradient-to-br ${CANDY_COLORS[candy.lane]} border-4 border-white shadow-lg flex items-center justify-center`}>
+                  <span className={`font-black font-pinyin text-white drop-shadow ${candy.item.char.length > 2 ? 'text-lg md:text-xl' : 'text-2xl md:text-3xl'}`}>
+                    {candy.item.char}
+                  </span>
+                </span>
+              </button>
+            ))}
+
+            {/* Ground */}
+            <div className="absolute left-0 right-0 bottom-0 h-[10%] bg-gradient-to-b from-amber-200 to-amber-300 border-t-4 border-amber-400/50" />
+
+            {performance.now() < game.levelUpUntil && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
+                <span className="text-5xl md:text-6xl font-black text-purple-500 drop-shadow-lg animate-level-banner">
+                  第 {game.level} 关! 🚀
+                </span>
+              </div>
+            )}
+
+            {phase === 'paused' && (
+              <div className="absolute inset-0 z-30 flex items-center justify-center bg-white/60 backdrop-blur-sm">
+                <button onClick={() => setPhase('playing')} className={`${bigButton} bg-pink-400 hover:bg-pink-500 border-pink-600`}>
+                  ▶ 继续
+                </button>
+              </div>
+            )}
+          </div>
+
+          {phase === 'playing' && (
+            <button
+              onClick={() => setPhase('paused')}
+              className="mt-4 bg-white text-pink-400 font-black px-6 py-2 rounded-full shadow-sm border-b-4 border-pink-100 active:border-b-0 active:translate-y-1 transition-all"
+            >
+              ⏸ 暂停
+            </button>
+          )}
+        </>
+      )}
+
+      {/* Game Over */}
+      {phase === 'over' && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in overflow-y-auto">
+          <div className="flex flex-col items-center gap-4 max-w-md w-full my-auto">
+            <div className="bg-white rounded-3xl p-8 w-full text-center border-8 border-pink-200 shadow-2xl">
+              <div className="text-7xl mb-3">{place === 0 ? '👑' : place > 0 ? '🏆' : '🍬'}</div>
+              <h3 className="text-3xl font-black text-pink-500 mb-2">
+                {place === 0 ? '新纪录!' : place > 0 ? '上榜了!' : '游戏结束'}
+              </h3>
+              <p className="text-gray-500 font-bold mb-6">
+                {game.score} 分 · 第 {game.level} 关 · 最多连击 {game.bestCombo}
+              </p>
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={startGame}
+                  className="w-full bg-pink-400 hover:bg-pink-500 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all"
+                >
+                  再玩一次
+                </button>
+                <button
+                  onClick={onBack}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+                >
+                  返回主页
+                </button>
+              </div>
+            </div>
+            {renderHighScores()}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandyRushGame;
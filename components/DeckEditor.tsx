@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Deck, DeckEntry } from '../types';
+import {
+  DeckDraft,
+  createDeckDraft,
+  deleteDeck,
+  exportDeckJson,
+  getDecks,
+  importDeckJson,
+  loadDeckDraft,
+  onDecksChange,
+  saveDeck,
+} from '../services/deckService';
+import { playAudioUrl } from '../services/audioService';
+import { deckToCsv, normalizeDeckPinyin, parseDeckCsv, validateDeck } from '../utils/decks';
+import VoiceRecorder from './VoiceRecorder';
+
+interface DeckEditorProps {
+  onBack: () => void;
+}
+
+// Uploaded recordings above this size are refused; a single word should be well under it
+const MAX_RECORDING_BYTES = 2 * 1024 * 1024;
+
+/** Offers text as a file download. */
+const download = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Where a teacher builds named decks of syllables or words (pinyin, hanzi, picture, own recording),
+ * checked against the pinyin spelling rules. Decks can be shared as JSON (with recordings) or CSV.
+ * Saved decks appear in the learning grid and on the game setup screen.
+ */
+const DeckEditor: React.FC<DeckEditorProps> = ({ onBack }) => {
+  const [decks, setDecks] = useState<Deck[]>(() => getDecks());
+  const [draft, setDraft] = useState<DeckDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [recordingIndex, setRecordingIndex] = useState<number | null>(null); // Entry being recorded
+  const importInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => onDecksChange(setDecks), []);
+
+  const issues = draft ? validateDeck(draft.name, draft.entries) : [];
+  const deckIssues = issues.filter(i => i.index < 0);
+  const entryIssue = (index: number) => issues.find(i => i.index === index)?.message;
+
+  const edit = (next: DeckDraft) => {
+    setDraft(next);
+    setDirty(true);
+    setMessage(null);
+  };
+
+  const leaveDraft = () => !dirty || window.confirm('还没保存，确定不要这些修改吗？');
+
+  const open = async (deck: Deck) => {
+    if (!leaveDraft()) return;
+    try {
+      setDraft(await loadDeckDraft(deck));
+      setDirty(false);
+      setMessage(null);
+    } catch (e) {
+      console.error("Could not open deck", e);
+      setMessage({ text: '词卡本打不开，请再试一次', error: true });
+    }
+  };
+
+  const startNew = () => {
+    if (!leaveDraft()) return;
+    setDraft(createDeckDraft());
+    setDirty(false);
+    setMessage(null);
+  };
+
+  // --- Entries ---
+
+  const updateEntry = (index: number, change: Partial<DeckEntry>) => {
+    if (!draft) return;
+    const old = draft.entries[index];
+    const entries = draft.entries.map((e, i) => (i === index ? { ...e, ...change } : e));
+    // Recordings are keyed by pinyin, so they follow the entry when its pinyin is edited
+    let recordings = draft.recordings;
+    if (change.pinyin !== undefined && change.pinyin !== old.pinyin && recordings[old.pinyin]) {
+      const { [old.pinyin]: blob, ...rest } = recordings;
+      recordings = { ...rest, [change.pinyin]: blob };
+    }
+    edit({ ...draft, entries, recordings });
+  };
+
+  const addEntry = () => draft && edit({ ...draft, entries: [...draft.entries, { pinyin: '' }] });
+
+  const removeEntry = (index: number) => {
+    if (!draft) return;
+    const { [draft.entries[index].pinyin]: _removed, ...recordings } = draft.recordings;
+    edit({ ...draft, entries: draft.entries.filter((_, i) => i !== index), recordings });
+  };
+
+  const setRecording = (index: number, clip: Blob) => {
+    if (!draft) return;
+    edit({ ...draft, recordings: { ...draft.recordings, [draft.entries[index].pinyin]: clip } });
+  };
+
+  const uploadRecording = (index: number, file: File | undefined) => {
+    if (!draft || !file) return;
+    if (!file.type.startsWith('audio/')) {
+      setMessage({ text: '请选择录音文件 (mp3、m4a、wav 等)', error: true });
+      return;
+    }
+    if (file.size > MAX_RECORDING_BYTES) {
+      setMessage({ text: '录音文件太大了，请剪短一点 (2MB 以内)', error: true });
+      return;
+    }
+    setRecording(index, file);
+  };
+
+  const removeRecording = (pinyin: string) => {
+    if (!draft) return;
+    const { [pinyin]: _removed, ...recordings } = draft.recordings;
+    edit({ ...draft, recordings });
+  };
+
+  const playRecording = async (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    try {
+      const handle = await playAudioUrl(url, 1);
+      await handle.ended;
+    } catch (e) {
+      console.error("Audio error", e);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  // --- Save / Delete ---
+
+  const save = async () => {
+    if (!draft || issues.length > 0) return;
+    setSaving(true);
+    try {
+      const deck = await saveDeck(draft);
+      setDraft({ ...draft, id: deck.id, name: deck.name });
+      setDirty(false);
+      setMessage({ text: '保存好了 ✅', error: false });
+    } catch (e) {
+      console.error("Could not save deck", e);
+      setMessage({ text: '保存失败了，请再试一次', error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!draft) return;
+    if (draft.id && !window.confirm(`确定要删除“${draft.name}”吗？`)) return;
+    if (draft.id) await deleteDeck(draft.id).catch(e => console.error("Could not delete deck", e));
+    setDraft(null);
+    setDirty(false);
+  };
+
+  // --- Import / Export ---
+
+  const importFile = async (file: File | undefined) => {
+    if (!file || !leaveDraft()) return;
+    try {
+      const text = await file.text();
+      const imported = /\.csv$/i.test(file.name)
+        ? { name: file.name.replace(/\.csv$/i, ''), entries: parseDeckCsv(text), recordings: {} }
+        : await importDeckJson(text);
+      setDraft(imported);
+      setDirty(true);
+      setMessage({ text: `读入了 ${imported.entries.length} 张卡片，检查一下再保存`, error: false });
+    } catch (e) {
+      console.error("Could not import deck", e);
+      setMessage({ text: '这个文件读不出来，请用本页导出的 JSON 或 CSV 文件', error: true });
+    }
+  };
+
+  const exportJson = async () => {
+    if (!draft) return;
+    download(await exportDeckJson(draft), `${draft.name || '词卡本'}.json`, 'application/json');
+  };
+
+  // Byte-order mark, so spreadsheet apps open the CSV as UTF-8
+  const exportCsv = () => draft && download(`\uFEFF${deckToCsv(draft.entries)}`, `${draft.name || '词卡本'}.csv`, 'text/csv');
+
+  const toolButton = 'bg-white border-b-4 border-indigo-200 active:border-b-0 active:translate-y-1 text-indigo-500 font-black px-4 py-2 rounded-full shadow-sm hover:bg-indigo-50 transition-all disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-5xl mx-auto p-4 md:p-8 pb-24">
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={() => leaveDraft() && onBack()}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <h2 className="text-3xl md:text-4xl font-black text-indigo-500 drop-shadow-sm">词卡本 📚</h2>
+      </div>
+
+      <div className="w-full flex flex-col md:flex-row gap-6 items-start">
+        {/* Deck List */}
+        <div className="w-full md:w-64 shrink-0 bg-white/80 backdrop-blur-sm rounded-3xl p-4 border-b-8 border-indigo-200 shadow-xl">
+          <div className="flex flex-col gap-2 mb-4">
+            <button onClick={startNew} className={toolButton}>➕ 新建词卡本</button>
+            <button onClick={() => importInput.current?.click()} className={toolButton}>📥 导入 JSON / CSV</button>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={e => {
+                importFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {decks.length === 0 ? (
+            <div className="text-sm font-bold text-gray-400 text-center py-4">还没有词卡本</div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {decks.map(deck => (
+                <button
+                  key={deck.id}
+                  onClick={() => open(deck)}
+                  className={`text-left rounded-2xl px-4 py-2 font-black transition-all ${
+                    draft?.id === deck.id ? 'bg-indigo-400 text-white shadow-md' : 'bg-white text-gray-600 hover:bg-indigo-50'
+                  }`}
+                >
+                  <div className="truncate">{deck.name}</div>
+                  <div className="text-xs font-bold opacity-70">{deck.entries.length} 张卡片</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Editor */}
+        <div className="w-full flex-1 bg-white/80 backdrop-blur-sm rounded-3xl p-6 border-b-8 border-indigo-200 shadow-xl">
+          {!draft ? (
+            <div className="text-center text-gray-400 font-bold py-16">
+              <div className="text-6xl mb-4">📚</div>
+              新建一本词卡，或者从左边选一本来修改
+            </div>
+          ) : (
+            <>
+              <input
+                value={draft.name}
+                onChange={e => edit({ ...draft, name: e.target.value })}
+                placeholder="词卡本名字，比如：第三课 水果"
+                className="w-full text-2xl font-black text-gray-700 bg-white rounded-2xl px-4 py-2 border-2 border-indigo-100 focus:border-indigo-300 outline-none mb-4"
+              />
+
+              <div className="hidden md:grid grid-cols-[1fr_1fr_5rem_9rem_2.5rem] gap-2 text-sm font-bold text-gray-400 px-1 mb-1">
+                <span>拼音 (可以打 hua1)</span>
+                <span>汉字</span>
+                <span>图片</span>
+                <span>录音</span>
+                <span />
+              </div>
+
+              <div className="flex flex-col gap-3">
+                {draft.entries.map((entry, index) => {
+                  const problem = entryIssue(index);
+                  const recording = draft.recordings[entry.pinyin];
+                  return (
+                    <div key={index}>
+                      <div className="grid grid-cols-2 md:grid-cols-[1fr_1fr_5rem_9rem_2.5rem] gap-2 items-center">
+                        <input
+                          value={entry.pinyin}
+                          onChange={e => updateEntry(index, { pinyin: e.target.value })}
+                          onBlur={() => updateEntry(index, { pinyin: normalizeDeckPinyin(entry.pinyin) })}
+                          placeholder="huā"
+                          className={`font-pinyin font-bold text-lg rounded-xl px-3 py-1.5 border-2 outline-none ${
+                            problem ? 'border-red-300 bg-red-50' : 'border-gray-100 focus:border-indigo-300'
+                          }`}
+                        />
+                        <input
+                          value={entry.hanzi ?? ''}
+                          onChange={e => updateEntry(index, { hanzi: e.target.value })}
+                          placeholder="花"
+                          className="font-bold text-lg rounded-xl px-3 py-1.5 border-2 border-gray-100 focus:border-indigo-300 outline-none"
+                        />
+                        <input
+                          value={entry.emoji ?? ''}
+                          onChange={e => updateEntry(index, { emoji: e.target.value })}
+                          placeholder="🌸"
+                          className="text-lg text-center rounded-xl px-2 py-1.5 border-2 border-gray-100 focus:border-indigo-300 outline-none"
+                        />
+                        <div className="flex gap-1 items-center">
+                          {recording ? (
+                            <>
+                              <button onClick={() => playRecording(recording)} className="px-3 py-1.5 rounded-full bg-indigo-100 text-indigo-600 font-black text-sm" aria-label="听录音">🔊</button>
+                              <button onClick={() => removeRecording(entry.pinyin)} className="px-3 py-1.5 rounded-full bg-gray-100 text-gray-500 font-black text-sm" aria-label="删除录音">✕</button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => setRecordingIndex(index)}
+                                disabled={!!problem}
+                                className="px-3 py-1.5 rounded-full bg-gray-100 text-gray-500 font-black text-sm hover:bg-indigo-50 disabled:opacity-40"
+                                aria-label="录音"
+                              >
+                                🎙️
+                              </button>
+                              <label className={`px-3 py-1.5 rounded-full bg-gray-100 text-gray-500 font-black text-sm cursor-pointer hover:bg-indigo-50 ${problem ? 'opacity-40 pointer-events-none' : ''}`}>
+                                📎 上传
+                                <input
+                                  type="file"
+                                  accept="audio/*"
+                                  className="hidden"
+                                  onChange={e => {
+                                    uploadRecording(index, e.target.files?.[0]);
+                                    e.target.value = '';
+                                  }}
+                                />
+                              </label>
+                            </>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => removeEntry(index)}
+                          className="w-9 h-9 rounded-full bg-white text-gray-400 hover:text-red-400 hover:bg-red-50 font-black"
+                          aria-label="删除这张卡片"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                      {problem && <div className="text-sm font-bold text-red-400 mt-1 ml-1">{problem}</div>}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={addEntry}
+                className="w-full mt-4 py-2 rounded-2xl border-2 border-dashed border-indigo-200 text-indigo-400 font-black hover:bg-indigo-50 transition-all"
+              >
+                ➕ 加一张卡片
+              </button>
+
+              {deckIssues.length > 0 && (
+                <div className="mt-4 text-sm font-bold text-red-400">{deckIssues.map(i => i.message).join('；')}</div>
+              )}
+              {message && (
+                <div className={`mt-4 text-sm font-bold ${message.error ? 'text-red-400' : 'text-green-500'}`}>{message.text}</div>
+              )}
+
+              <div className="flex flex-wrap gap-2 mt-6">
+                <button
+                  onClick={save}
+                  disabled={issues.length > 0 || saving || !dirty}
+                  className="bg-indigo-400 border-b-4 border-indigo-600 active:border-b-0 active:translate-y-1 text-white font-black px-6 py-2 rounded-full shadow-md hover:bg-indigo-500 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  💾 保存
+                </button>
+                <button onClick={exportJson} disabled={draft.entries.length === 0} className={toolButton}>📤 导出 JSON (含录音)</button>
+                <button onClick={exportCsv} disabled={draft.entries.length === 0} className={toolButton}>📤 导出 CSV</button>
+                <button
+                  onClick={remove}
+                  className="ml-auto bg-white border-b-4 border-red-100 active:border-b-0 active:translate-y-1 text-red-400 font-black px-4 py-2 rounded-full shadow-sm hover:bg-red-50 transition-all"
+                >
+                  {draft.id ? '🗑️ 删除词卡本' : '✕ 放弃'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {draft && recordingIndex !== null && (
+        <VoiceRecorder
+          title={draft.entries[recordingIndex].hanzi ? `${draft.entries[recordingIndex].hanzi} ${draft.entries[recordingIndex].pinyin}` : draft.entries[recordingIndex].pinyin}
+          onSave={async clip => setRecording(recordingIndex, clip)}
+          onClose={() => setRecordingIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DeckEditor;
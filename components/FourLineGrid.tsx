@@ -0,0 +1,116 @@
+import React from 'react';
+import { Stroke } from '../types';
+
+interface FourLineGridProps {
+  width: number;        // Width of the writing, in line spacings
+  strokes?: Stroke[];
+  color?: string;       // Ink colour of the strokes
+  faint?: boolean;      // Draw the strokes as a light guide to trace over
+  animate?: boolean;    // Write the strokes one after another, numbered at their starting points
+  className?: string;
+  style?: React.CSSProperties;
+  label?: string;       // What is written, for screen readers
+  children?: React.ReactNode; // Extra SVG content in grid coordinates
+}
+
+// Blank space left and right of the writing, and above/below the outer lines
+const PAD_X = 0.35;
+const PAD_Y = 0.08;
+
+// Seconds to write one stroke in the stroke-order animation
+export const STROKE_SECONDS = 0.7;
+
+const INK_WIDTH = 0.13;
+
+/** The SVG viewBox for a grid holding writing `width` line spacings wide. */
+export const gridViewBox = (width: number) => ({
+  x: -PAD_X,
+  y: -PAD_Y,
+  width: width + PAD_X * 2,
+  height: 3 + PAD_Y * 2,
+});
+
+const toPath = (stroke: Stroke) =>
+  stroke.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(3)} ${p.y.toFixed(3)}`).join(' ');
+
+/**
+ * The four-line, three-space grid (四线三格) that pinyin is written on in Chinese schools,
+ * optionally with letters drawn on it. Lines are drawn in plain strokes so the grid prints cleanly.
+ */
+const FourLineGrid: React.FC<FourLineGridProps> = ({ width, strokes = [], color = '#ec4899', faint = false, animate = false, className = '', style, label, children }) => {
+  const box = gridViewBox(width);
+
+  return (
+    <svg
+      viewBox={`${box.x} ${box.y} ${box.width} ${box.height}`}
+      className={className}
+      style={style}
+      preserveAspectRatio="xMidYMid meet"
+      role="img"
+      aria-label={label}
+    >
+      {animate && (
+        <style>{`
+          @keyframes writeStroke { from { stroke-dashoffset: 1; } to { stroke-dashoffset: 0; } }
+          @keyframes showStart { to { opacity: 1; } }
+        `}</style>
+      )}
+
+      {/* Grid: the third line (baseline) is red like in exercise books */}
+      {[0, 1, 2, 3].map(y => (
+        <line
+          key={y}
+          x1={box.x}
+          x2={box.x + box.width}
+          y1={y}
+          y2={y}
+          stroke={y === 2 ? '#f9a8d4' : '#a5b4fc'}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+
+      {/* Letters */}
+      {strokes.map((stroke, i) => (
+        <path
+          key={i}
+          d={stroke.dot ? `M${stroke.points[0].x} ${(stroke.points[0].y + stroke.points[stroke.points.length - 1].y) / 2} h0.001` : toPath(stroke)}
+          fill="none"
+          stroke={color}
+          strokeOpacity={faint ? 0.2 : 1}
+          strokeWidth={stroke.dot ? INK_WIDTH * 1.4 : INK_WIDTH}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          pathLength={animate ? 1 : undefined}
+          style={animate ? {
+            strokeDasharray: 1,
+            strokeDashoffset: 1,
+            animation: `writeStroke ${STROKE_SECONDS}s ease-in-out ${i * STROKE_SECONDS}s forwards`,
+          } : undefined}
+        />
+      ))}
+
+      {/* Stroke numbers at each starting point */}
+      {animate && strokes.map((stroke, i) => (
+        <g key={`start-${i}`} style={{ opacity: 0, animation: `showStart 0.1s linear ${i * STROKE_SECONDS}s forwards` }}>
+          <circle cx={stroke.points[0].x} cy={stroke.points[0].y} r={0.13} fill="#facc15" />
+          <text
+            x={stroke.points[0].x}
+            y={stroke.points[0].y}
+            fontSize={0.18}
+            fontWeight={900}
+            fill="#fff"
+            textAnchor="middle"
+            dominantBaseline="central"
+          >
+            {i + 1}
+          </text>
+        </g>
+      ))}
+
+      {children}
+    </svg>
+  );
+};
+
+export default FourLineGrid;
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { LessonStep, LessonUnit, UnitProgress } from '../types';
+import { LESSON_UNITS } from '../curriculum';
+import {
+  UNIT_PASS_ACCURACY,
+  UNIT_QUIZ_LENGTH,
+  completeLessonStep,
+  getCurriculumProgress,
+  getUnitItems,
+  isStepUnlocked,
+  isUnitPassed,
+  isUnitUnlocked,
+} from '../services/curriculumService';
+import QuizGame from './QuizGame';
+import MemoryGame from './MemoryGame';
+import WordFlipCard from './WordFlipCard';
+import confetti from 'canvas-confetti';
+
+interface LessonMapProps {
+  onBack: () => void;
+}
+
+const STEPS = [
+  { id: LessonStep.LEARN, label: '学一学', icon: '📖', color: 'bg-pink-400 border-pink-600' },
+  { id: LessonStep.QUIZ, label: '考一考', icon: '🎮', color: 'bg-yellow-400 border-yellow-600' },
+  { id: LessonStep.MEMORY, label: '配一配', icon: '🧠', color: 'bg-teal-400 border-teal-600' },
+];
+
+// Nodes zig-zag down the map like a candy-land path
+const NODE_OFFSETS = ['translate-x-0', 'translate-x-16 md:translate-x-24', 'translate-x-0', '-translate-x-16 md:-translate-x-24'];
+const NODE_COLORS = ['bg-pink-300 border-pink-500', 'bg-purple-300 border-purple-500', 'bg-sky-300 border-sky-500', 'bg-amber-300 border-amber-500', 'bg-teal-300 border-teal-500'];
+
+const EMPTY_PROGRESS: UnitProgress = { learned: false, quizBest: 0, memoryDone: false };
+
+const celebrate = () => confetti({
+  particleCount: 160,
+  spread: 110,
+  origin: { y: 0.6 },
+  colors: ['#ff69b4', '#a864fd', '#ffd700', '#2dd4bf'],
+  shapes: ['circle', 'square'],
+});
+
+const LessonMap: React.FC<LessonMapProps> = ({ onBack }) => {
+  const [progress, setProgress] = useState<Record<string, UnitProgress>>(getCurriculumProgress);
+  const [selectedUnit, setSelectedUnit] = useState<LessonUnit | null>(null);
+  const [activeStep, setActiveStep] = useState<LessonStep | null>(null);
+  const [quizResult, setQuizResult] = useState<{ correct: number; total: number } | null>(null);
+
+  const unitProgress = (unit: LessonUnit) => ({ ...EMPTY_PROGRESS, ...progress[unit.id] });
+
+  const finishStep = (unit: LessonUnit, step: LessonStep, accuracy?: number) => {
+    const wasPassed = isUnitPassed(progress[unit.id]);
+    const updated = completeLessonStep(unit.id, step, accuracy);
+    setProgress(getCurriculumProgress());
+    if (!wasPassed && isUnitPassed(updated)) celebrate();
+  };
+
+  const backToUnit = () => setActiveStep(null);
+
+  // --- A step of the selected unit ---
+  if (selectedUnit && activeStep) {
+    const items = getUnitItems(selectedUnit);
+
+    if (activeStep === LessonStep.QUIZ) {
+      return (
+        <QuizGame
+          key={selectedUnit.id}
+          allItems={items}
+          questionLimit={UNIT_QUIZ_LENGTH}
+          onBack={backToUnit}
+          onComplete={(result) => {
+            finishStep(selectedUnit, LessonStep.QUIZ, result.correct / result.total);
+            setQuizResult(result);
+            setActiveStep(null);
+          }}
+        />
+      );
+    }
+
+    if (activeStep === LessonStep.MEMORY) {
+      return (
+        <MemoryGame
+          key={selectedUnit.id}
+          allItems={items}
+          onBack={backToUnit}
+          onComplete={() => {
+            finishStep(selectedUnit, LessonStep.MEMORY);
+            backToUnit();
+          }}
+        />
+      );
+    }
+
+    return (
+      <div className="w-full max-w-5xl mx-auto p-4 md:p-6 pb-24">
+        <div className="w-full flex justify-between items-center mb-6">
+          <button
+            onClick={backToUnit}
+            className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+          >
+            <span>🔙</span> 返回
+          </button>
+          <h2 className="text-3xl font-black text-pink-500 font-pinyin">{selectedUnit.icon} {selectedUnit.title}</h2>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-4 md:gap-8 mb-10">
+          {items.map(item => <WordFlipCard key={item.char} item={item} />)}
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            onClick={() => {
+              finishStep(selectedUnit, LessonStep.LEARN);
+              backToUnit();
+            }}
+            className="bg-pink-400 hover:bg-pink-500 text-white font-black text-2xl px-10 py-4 rounded-full shadow-lg border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all"
+          >
+            ✅ 我学会了
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- The map ---
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto p-4 md:p-8 pb-24">
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <div className="bg-white px-6 py-2 rounded-full border-b-4 border-amber-200 shadow-sm flex items-center gap-2">
+          <span className="text-2xl">⭐</span>
+          <span className="text-2xl font-black text-amber-500">
+            {LESSON_UNITS.filter(u => isUnitPassed(progress[u.id])).length} / {LESSON_UNITS.length}
+          </span>
+        </div>
+      </div>
+
+      <h2 className="text-4xl md:text-5xl font-black text-amber-500 mb-8 drop-shadow-sm">糖果地图 🗺️</h2>
+
+      {/* Candy Path */}
+      <div className="flex flex-col items-center">
+        {LESSON_UNITS.map((unit, index) => {
+          const unlocked = isUnitUnlocked(index, progress);
+          const passed = isUnitPassed(progress[unit.id]);
+          const isCurrent = unlocked && !passed;
+
+          return (
+            <div key={unit.id} className={`flex flex-col items-center ${NODE_OFFSETS[index % NODE_OFFSETS.length]}`}>
+              {index > 0 && (
+                <div className="flex flex-col gap-1.5 py-2">
+                  {[0, 1, 2].map(dot => (
+                    <span key={dot} className={`w-2.5 h-2.5 rounded-full ${unlocked ? 'bg-pink-300' : 'bg-gray-200'}`} />
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={() => unlocked && setSelectedUnit(unit)}
+                disabled={!unlocked}
+                className={`
+                  relative w-24 h-24 md:w-28 md:h-28 rounded-full border-b-8 flex flex-col items-center justify-center transition-all
+                  ${unlocked ? `${NODE_COLORS[index % NODE_COLORS.length]} hover:scale-105 active:border-b-0 active:translate-y-2 shadow-lg` : 'bg-gray-200 border-gray-300 cursor-not-allowed'}
+                  ${isCurrent ? 'animate-bounce' : ''}
+                `}
+              >
+                <span className={`text-4xl ${unlocked ? '' : 'grayscale opacity-50'}`}>{unlocked ? unit.icon : '🔒'}</span>
+                <span className={`text-sm font-black font-pinyin ${unlocked ? 'text-white drop-shadow' : 'text-gray-400'}`}>{unit.title}</span>
+                {passed && <span className="absolute -top-2 -right-2 text-3xl">⭐</span>}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Unit Steps */}
+      {selectedUnit && !quizResult && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => setSelectedUnit(null)}>
+          <div className="bg-white rounded-3xl p-8 max-w-sm w-full text-center border-8 border-amber-200 shadow-2xl" onClick={e => e.stopPropagation()}>
+            <div className="text-6xl mb-2">{selectedUnit.icon}</div>
+            <h3 className="text-3xl font-black text-amber-500 font-pinyin mb-6">{selectedUnit.title}</h3>
+
+            <div className="flex flex-col gap-3">
+              {STEPS.map(step => {
+                const p = unitProgress(selectedUnit);
+                const open = isStepUnlocked(step.id, p);
+                const done = step.id === LessonStep.LEARN ? p.learned
+                  : step.id === LessonStep.QUIZ ? p.quizBest >= UNIT_PASS_ACCURACY
+                  : p.memoryDone;
+
+                return (
+                  <button
+                    key={step.id}
+                    onClick={() => open && setActiveStep(step.id)}
+                    disabled={!open}
+                    className={`
+                      w-full flex items-center justify-between px-6 py-3 rounded-2xl font-black text-xl border-b-4 transition-all
+                      ${open ? `${step.color} text-white active:border-b-0 active:translate-y-1 shadow-md` : 'bg-gray-100 border-gray-200 text-gray-300'}
+                    `}
+                  >
+                    <span>{step.icon} {step.label}</span>
+                    <span>{done ? '✅' : open ? '👉' : '🔒'}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={() => setSelectedUnit(null)}
+              className="mt-6 text-gray-400 font-bold"
+            >
+              关闭
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Quiz Result */}
+      {selectedUnit && quizResult && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+          <div className="bg-white rounded-3xl p-8 max-w-sm w-full text-center border-8 border-yellow-200 shadow-2xl">
+            {quizResult.correct / quizResult.total >= UNIT_PASS_ACCURACY ? (
+              <>
+                <div className="text-7xl mb-4 animate-bounce">🏅</div>
+                <h3 className="text-3xl font-black text-yellow-500 mb-2">过关啦!</h3>
+              </>
+            ) : (
+              <>
+                <div className="text-7xl mb-4">💪</div>
+                <h3 className="text-3xl font-black text-pink-400 mb-2">差一点点!</h3>
+              </>
+            )}
+            <p className="text-gray-500 font-bold mb-8">
+              一次答对 {quizResult.correct} / {quizResult.total} 题
+            </p>
+            <div className="flex flex-col gap-3">
+              {quizResult.correct / quizResult.total < UNIT_PASS_ACCURACY && (
+                <button
+                  onClick={() => {
+                    setQuizResult(null);
+                    setActiveStep(LessonStep.QUIZ);
+                  }}
+                  className="w-full bg-yellow-400 hover:bg-yellow-500 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-yellow-600 active:border-b-0 active:translate-y-1 transition-all"
+                >
+                  再考一次
+                </button>
+              )}
+              <button
+                onClick={() => setQuizResult(null)}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+              >
+                好的
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LessonMap;
@@ -1,17 +1,32 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { PinyinChar } from '../types';
-import { playPinyinAudio } from '../services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, MemoryVariant, PinyinChar, SessionResult, VocabWord } from '../types';
+import { PreloadTarget, enqueueAudio, playPinyinAudio, playWordAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { CATEGORY_LABELS } from '../constants';
+import { recordAttempt } from '../services/progressService';
+import { getMemoryItems } from '../services/sessionService';
+import { emitGameEvent } from '../services/gameEvents';
 import PinyinCard from './PinyinCard';
-import confetti from 'canvas-confetti';
+import { runRandomCelebration } from '../utils/confetti';
 
 interface MemoryGameProps {
   allItems: PinyinChar[];
   onBack: () => void;
+  onComplete?: (result: SessionResult) => void; // Called when every pair is found or time runs out
+  pairCount?: number;
+  timeLimit?: number; // Seconds for the whole board; 0 = no limit
+  advanceDelay?: number; // ms a wrong pair stays face up
+  variant?: MemoryVariant;
+  players?: number; // 2 = hot seat: take turns, a match earns another go
 }
 
+// What a card shows once turned over
+type CardFace = 'text' | 'sound' | 'picture';
+
 interface CardState {
   id: number;
-  item: PinyinChar;
+  item: PinyinChar; // Cards of a pair share the item
+  face: CardFace;
+  word?: VocabWord; // For picture cards
   isFlipped: boolean;
   isMatched: boolean;
   justMatched?: boolean; // Temporary state for match animation
@@ -25,31 +40,109 @@ const MATCH_ANIMS = ['animate-pop-success', 'animate-spin-success', 'animate-jum
 const WIN_ICONS = ['🏆', '👑', '🌟', '🍭', '🎁', '💖', '🦄', '🌈'];
 const WIN_ANIMS = ['animate-bounce', 'animate-tada', 'animate-jelly', 'animate-heart-beat', 'animate-wobble'];
 
-const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
+const DEFAULT_PAIR_COUNT = 6;
+const DEFAULT_FLIP_BACK_DELAY = 1200;
+
+// How long the finished board and its confetti stay up before onComplete
+const WIN_HOLD_MS = 1500;
+// Longer with two players, so both can see who won
+const TWO_PLAYER_WIN_HOLD_MS = 3500;
+
+const PLAYERS = [
+  { name: '玩家 1', emoji: '🍓', active: 'bg-pink-400 border-pink-600 text-white', idle: 'bg-white border-pink-200 text-pink-400' },
+  { name: '玩家 2', emoji: '🫐', active: 'bg-indigo-400 border-indigo-600 text-white', idle: 'bg-white border-indigo-200 text-indigo-400' },
+];
+
+// The two faces of a pair: the written pinyin, and its twin, sound or picture.
+// `usedWords` keeps a picture from showing up twice on one board.
+const pairFaces = (item: PinyinChar, variant: MemoryVariant, usedWords: Set<string>): Pick<CardState, 'item' | 'face' | 'word'>[] => {
+  if (variant === MemoryVariant.SOUND) return [{ item, face: 'text' }, { item, face: 'sound' }];
+  const words = (item.words ?? []).filter(w => !usedWords.has(w.hanzi));
+  if (variant === MemoryVariant.PICTURE && words.length > 0) {
+    const word = words[Math.floor(Math.random() * words.length)];
+    usedWords.add(word.hanzi);
+    return [{ item, face: 'text' }, { item, face: 'picture', word }];
+  }
+  return [{ item, face: 'text' }, { item, face: 'text' }];
+};
+
+interface SessionStats {
+  moves: number;
+  matches: number;
+  streak: number;
+  bestStreak: number;
+  missed: string[]; // Items of pairs that didn't match
+  startedAt: number;
+}
+
+const newStats = (): SessionStats => ({ moves: 0, matches: 0, streak: 0, bestStreak: 0, missed: [], startedAt: Date.now() });
+
+const MemoryGame: React.FC<MemoryGameProps> = ({
+  allItems,
+  onBack,
+  onComplete,
+  pairCount = DEFAULT_PAIR_COUNT,
+  timeLimit = 0,
+  advanceDelay = DEFAULT_FLIP_BACK_DELAY,
+  variant = MemoryVariant.CLASSIC,
+  players = 1,
+}) => {
   const [cards, setCards] = useState<CardState[]>([]);
   const [flippedIds, setFlippedIds] = useState<number[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [moves, setMoves] = useState(0);
   const [gameWon, setGameWon] = useState(false);
+  const [timeLeft, setTimeLeft] = useState(timeLimit);
+  const [currentPlayer, setCurrentPlayer] = useState(0);
+  const [scores, setScores] = useState<number[]>(() => Array(players).fill(0));
+  const timeUp = timeLimit > 0 && timeLeft === 0 && !gameWon;
   
   // New state for random win display
   const [winDisplay, setWinDisplay] = useState({ icon: '🏆', anim: 'animate-bounce' });
 
+  // When the first card of the current pair was flipped (for response time tracking)
+  const firstFlipRef = useRef<number>(Date.now());
+  // One per player, kept in a ref so the delayed match check sees the current counts
+  const statsRef = useRef<SessionStats[]>([newStats()]);
+  // Pending match, flip-back and hand-over timers, cleared on restart and unmount
+  const timersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+  // The session ends once, by the last match or the clock, whichever comes first
+  const finishedRef = useRef(false);
+
+  const later = (run: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timersRef.current.delete(timer);
+      run();
+    }, ms);
+    timersRef.current.add(timer);
+  };
+
+  const clearTimers = () => {
+    timersRef.current.forEach(clearTimeout);
+    timersRef.current.clear();
+  };
+
   // Initialize Game
   const startNewGame = useCallback(() => {
-    // 1. Pick 6 random unique items
-    const shuffledItems = [...allItems].sort(() => Math.random() - 0.5);
-    const selectedItems = shuffledItems.slice(0, 6);
+    clearTimers();
+    finishedRef.current = false;
 
-    // 2. Duplicate to make pairs
-    const deck = [...selectedItems, ...selectedItems];
+    // 1. Pick random unique items (a picture board without picture words falls back to letters)
+    const playable = getMemoryItems(allItems, variant);
+    const shuffledItems = [...(playable.length > 0 ? playable : allItems)].sort(() => Math.random() - 0.5);
+    const selectedItems = shuffledItems.slice(0, pairCount);
+
+    // 2. Make the two cards of each pair
+    const usedWords = new Set<string>();
+    const deck = selectedItems.flatMap(item => pairFaces(item, variant, usedWords));
+    preloadPinyin(deck.map(cardSound).filter((t): t is PreloadTarget => t !== null));
 
     // 3. Shuffle deck and map to CardState
     const newCards = deck
       .sort(() => Math.random() - 0.5)
-      .map((item, index) => ({
+      .map((card, index) => ({
+        ...card,
         id: index,
-        item,
         isFlipped: false,
         isMatched: false,
         justMatched: false,
@@ -60,16 +153,78 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
     setIsProcessing(false);
     setMoves(0);
     setGameWon(false);
-  }, [allItems]);
+    setTimeLeft(timeLimit);
+    setCurrentPlayer(0);
+    setScores(Array(players).fill(0));
+    statsRef.current = Array.from({ length: players }, newStats);
+  }, [allItems, pairCount, timeLimit, variant, players]);
 
   // Initial load
   useEffect(() => {
     startNewGame();
+    return () => {
+      stopAudio();
+      clearTimers();
+    };
   }, [startNewGame]);
 
+  // The result belongs to the active profile, so only the first player's turns count.
+  // Items never matched count as missed too when the time runs out (alone, they were all theirs).
+  const buildResult = (unmatched: string[] = []): SessionResult => {
+    const stats = statsRef.current[0];
+    if (players > 1) unmatched = [];
+    return {
+      mode: GameState.MEMORY,
+      total: stats.moves,
+      correct: stats.matches,
+      bestStreak: stats.bestStreak,
+      missed: [...stats.missed, ...unmatched.filter(char => !stats.missed.includes(char))],
+      startedAt: stats.startedAt,
+      endedAt: Date.now(),
+    };
+  };
+
+  useEffect(() => {
+    if (!timeUp || finishedRef.current) return;
+    finishedRef.current = true;
+    const unmatched = [...new Set(cards.filter(c => !c.isMatched).map(c => c.item.char))];
+    const result = buildResult(unmatched);
+    emitGameEvent({ type: 'session_complete', result });
+    onComplete?.(result);
+  }, [timeUp]);
+
+  // Board countdown, paused once the game is won
+  useEffect(() => {
+    if (!timeLimit || gameWon || timeLeft === 0) return;
+    const timer = setTimeout(() => setTimeLeft(t => t - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [timeLimit, gameWon, timeLeft]);
+
+  // What a card says when turned over. In the sound and picture variants the written pinyin
+  // stays silent: reading it is the child's job.
+  function cardSound(card: Pick<CardState, 'item' | 'face' | 'word'>): PreloadTarget | null {
+    if (card.face === 'picture') return card.word ? { word: card.word } : null;
+    if (card.face === 'sound' || variant === MemoryVariant.CLASSIC) return card.item.char;
+    return null;
+  }
+
+  // The second card of a pair waits for the first to finish, so both are heard
+  const playCard = (card: CardState, queued: boolean) => {
+    const sound = cardSound(card);
+    if (sound === null) return;
+    if (queued) enqueueAudio(sound).catch(console.error);
+    else if (typeof sound === 'string') playPinyinAudio(sound).catch(console.error);
+    else if ('word' in sound) playWordAudio(sound.word).catch(console.error);
+  };
+
   const handleCardClick = (id: number) => {
-    // Ignore if processing, already flipped, or matched
-    if (isProcessing || flippedIds.includes(id) || cards[id].isMatched) return;
+    // A face-up sound card can be heard again
+    if (flippedIds.includes(id) && cards[id].face === 'sound') {
+      playCard(cards[id], false);
+      return;
+    }
+    // Ignore if processing, already flipped, matched, or out of time
+    if (isProcessing || timeUp || flippedIds.includes(id) || cards[id].isMatched) return;
 
     // 1. Flip the card visually
     const newCards = [...cards];
@@ -77,11 +232,12 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
     setCards(newCards);
 
     // 2. Play Audio
-    playPinyinAudio(newCards[id].item.char).catch(console.error);
+    const newFlippedIds = [...flippedIds, id];
+    playCard(newCards[id], newFlippedIds.length === 2);
 
     // 3. Game Logic
-    const newFlippedIds = [...flippedIds, id];
     setFlippedIds(newFlippedIds);
+    if (newFlippedIds.length === 1) firstFlipRef.current = Date.now();
 
     if (newFlippedIds.length === 2) {
       setMoves((m) => m + 1);
@@ -94,12 +250,40 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
     const [id1, id2] = currentFlippedIds;
     const card1 = currentCards[id1];
     const card2 = currentCards[id2];
+    const isMatch = card1.item.char === card2.item.char;
+
+    const stats = statsRef.current[currentPlayer];
+    stats.moves++;
+    if (isMatch) {
+      stats.matches++;
+      stats.streak++;
+      stats.bestStreak = Math.max(stats.bestStreak, stats.streak);
+    } else {
+      stats.streak = 0;
+      if (!stats.missed.includes(card1.item.char)) stats.missed.push(card1.item.char);
+    }
+
+    // The first card is the one the child was looking for a partner for. With two players
+    // only the first one's turns count, as progress belongs to the active profile.
+    if (currentPlayer === 0) {
+      recordAttempt({
+        item: card1.item.char,
+        mode: GameState.MEMORY,
+        correct: isMatch,
+        answer: isMatch ? undefined : card2.item.char,
+        responseTimeMs: Date.now() - firstFlipRef.current,
+      }).catch(console.error);
+    }
 
-    if (card1.item.char === card2.item.char) {
+    // A match earns another go; a miss passes the turn
+    const player = currentPlayer;
+    if (isMatch) setScores(s => s.map((score, i) => (i === player ? score + 1 : score)));
+
+    if (isMatch) {
       // MATCH!
       const randomAnim = MATCH_ANIMS[Math.floor(Math.random() * MATCH_ANIMS.length)];
 
-      setTimeout(() => {
+      later(() => {
         const matchedCards = [...currentCards];
         // Trigger "Just Matched" animation first
         matchedCards[id1].justMatched = true;
@@ -116,78 +300,45 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
         setIsProcessing(false);
 
         // Remove "justMatched" flag after animation
-        setTimeout(() => {
+        later(() => {
              setCards(prev => prev.map(c => 
                  (c.id === id1 || c.id === id2) ? { ...c, justMatched: false } : c
              ));
         }, 1000);
 
         // Check Win Condition
-        if (matchedCards.every((c) => c.isMatched)) {
+        if (matchedCards.every((c) => c.isMatched) && !finishedRef.current) {
+          finishedRef.current = true;
           handleWin();
+          const result = buildResult();
+          emitGameEvent({ type: 'session_complete', result });
+          if (onComplete) {
+            later(() => onComplete(result), players > 1 ? TWO_PLAYER_WIN_HOLD_MS : WIN_HOLD_MS);
+          }
         }
       }, 500);
     } else {
       // NO MATCH
-      setTimeout(() => {
+      later(() => {
         const resetCards = [...currentCards];
         resetCards[id1].isFlipped = false;
         resetCards[id2].isFlipped = false;
         setCards(resetCards);
         setFlippedIds([]);
         setIsProcessing(false);
-      }, 1200);
+        setCurrentPlayer(p => (p + 1) % players);
+      }, advanceDelay);
     }
   };
 
-  // --- Confetti Strategies ---
-  const runFireworks = (duration: number) => {
-    const end = Date.now() + duration;
-    const interval: any = setInterval(function() {
-      if (Date.now() > end) return clearInterval(interval);
-      confetti({
-        startVelocity: 30,
-        spread: 360,
-        ticks: 60,
-        zIndex: 100,
-        particleCount: 50,
-        origin: { x: Math.random(), y: Math.random() - 0.2 }
-      });
-    }, 250);
-  };
-
-  const runSideCannons = (duration: number) => {
-    const end = Date.now() + duration;
-    const frame = () => {
-      confetti({
-        particleCount: 5,
-        angle: 60,
-        spread: 55,
-        origin: { x: 0 },
-        colors: ['#a864fd', '#29cdff', '#78ff44', '#ff718d', '#fdff6a']
-      });
-      confetti({
-        particleCount: 5,
-        angle: 120,
-        spread: 55,
-        origin: { x: 1 },
-        colors: ['#a864fd', '#29cdff', '#78ff44', '#ff718d', '#fdff6a']
-      });
-      if (Date.now() < end) requestAnimationFrame(frame);
-    };
-    frame();
+  // Who won a two-player game, for the banner and the end screens
+  const winnerText = () => {
+    if (scores[0] === scores[1]) return '平局! 两个人一样棒 🤝';
+    const winner = PLAYERS[scores[0] > scores[1] ? 0 : 1];
+    return `${winner.emoji} ${winner.name} 赢了!`;
   };
 
-  const runStars = () => {
-    const defaults = { spread: 360, ticks: 50, gravity: 0, decay: 0.94, startVelocity: 30, shapes: ['star'], colors: ['#FFE400', '#FFBD00', '#E89400', '#FFCA6C', '#FDFFB8'] };
-    const shoot = () => {
-      confetti({ ...defaults, particleCount: 40, scalar: 1.2, shapes: ['star'] });
-      confetti({ ...defaults, particleCount: 10, scalar: 0.75, shapes: ['circle'] });
-    };
-    setTimeout(shoot, 0);
-    setTimeout(shoot, 100);
-    setTimeout(shoot, 200);
-  };
+  const scoreLine = scores.map((score, i) => `${PLAYERS[i].emoji} ${score} 对`).join('  ·  ');
 
   const handleWin = () => {
     setGameWon(true);
@@ -199,23 +350,12 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
     });
 
     // 2. Randomize Confetti Effect
-    const effects = [
-        () => runSideCannons(3000), 
-        () => runFireworks(3000), 
-        runStars
-    ];
-    const selectedEffect = effects[Math.floor(Math.random() * effects.length)];
-    selectedEffect();
+    runRandomCelebration();
   };
 
   return (
     <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
       <style>{`
-        .perspective-1000 { perspective: 1000px; }
-        .transform-style-3d { transform-style: preserve-3d; }
-        .backface-hidden { backface-visibility: hidden; }
-        .rotate-y-180 { transform: rotateY(180deg); }
-        
         /* Match Animations */
         @keyframes popSuccess {
             0% { transform: scale(1); }
@@ -290,6 +430,12 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
         >
           <span>🔙</span> 返回
         </button>
+        {timeLimit > 0 && (
+          <div className={`bg-white px-5 py-2 rounded-full border-b-4 shadow-sm flex items-center gap-2 ${timeLeft <= 10 ? 'border-red-200 animate-pulse' : 'border-sky-200'}`}>
+            <span className="text-2xl">⏰</span>
+            <span className={`text-xl md:text-2xl font-black ${timeLeft <= 10 ? 'text-red-400' : 'text-sky-500'}`}>{timeLeft}</span>
+          </div>
+        )}
         <div className="bg-white px-6 py-2 rounded-full border-b-4 border-teal-200 shadow-sm flex items-center gap-2">
           <span className="text-xl md:text-2xl font-black text-teal-500">
              步数: {moves}
@@ -302,8 +448,27 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
           记忆配对 🧠
         </h2>
 
+        {/* Players: whose turn it is and their pairs */}
+        {players > 1 && (
+          <div className="flex items-center gap-3 mb-5">
+            {scores.map((score, i) => (
+              <div
+                key={i}
+                className={`px-5 py-2 rounded-full border-b-4 shadow-sm font-black text-lg md:text-xl transition-all ${
+                  currentPlayer === i && !gameWon ? `${PLAYERS[i].active} scale-110` : PLAYERS[i].idle
+                }`}
+              >
+                {PLAYERS[i].emoji} {PLAYERS[i].name}: {score}
+              </div>
+            ))}
+          </div>
+        )}
+        {players > 1 && gameWon && (
+          <div className="mb-5 text-2xl md:text-3xl font-black text-teal-600 animate-bounce">{winnerText()}</div>
+        )}
+
         {/* Game Grid */}
-        <div className="grid grid-cols-4 grid-rows-3 gap-2.5 md:gap-4 w-full px-1">
+        <div className={`grid grid-cols-4 ${cards.length > 16 ? 'md:grid-cols-5' : ''} gap-2.5 md:gap-4 w-full px-1`}>
           {cards.map((card) => {
             const CARD_BACKS = ['from-pink-300 to-rose-400', 'from-violet-300 to-purple-400', 'from-sky-300 to-blue-400', 'from-amber-300 to-orange-400', 'from-emerald-300 to-teal-400', 'from-fuchsia-300 to-pink-400'];
             const CARD_EMOJIS = ['🍬', '🍭', '🧁', '🍩', '🍪', '🎀', '🌸', '🦋', '🌈', '🎈', '🎵', '💎'];
@@ -331,20 +496,38 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
                     </div>
                   </div>
 
-                  {/* Back (Pinyin Content) */}
+                  {/* Back (Pinyin, Sound or Picture) */}
                   <div className="absolute inset-0 backface-hidden rotate-y-180">
                     <div className={`w-full h-full rounded-2xl border-4 shadow-md flex flex-col items-center justify-center
-                      ${card.isMatched ? 'bg-green-50 border-green-300' : 'bg-white border-indigo-200'}
+                      ${card.isMatched ? 'bg-green-50 border-green-300' : card.face === 'text' ? 'bg-white border-indigo-200' : 'bg-amber-50 border-amber-200'}
                     `}>
-                      <span className={`font-black font-pinyin drop-shadow-sm
-                        ${card.isMatched ? 'text-green-500' : 'text-indigo-600'}
-                        ${card.item.char.length > 2 ? 'text-2xl md:text-3xl' : 'text-3xl md:text-5xl'}
-                      `}>
-                        {card.item.char}
-                      </span>
-                      <span className="text-[10px] md:text-xs font-bold mt-1 opacity-50">
-                        {card.item.category === 'initials' ? '声母' : card.item.category === 'finals' ? '韵母' : '整体'}
-                      </span>
+                      {card.face === 'sound' && (
+                        <>
+                          <span className={`text-4xl md:text-6xl drop-shadow-sm ${card.isMatched ? '' : 'animate-pulse'}`}>🔊</span>
+                          <span className="text-[10px] md:text-xs font-bold mt-1 opacity-50">
+                            {card.isMatched ? card.item.char : '再点一下听'}
+                          </span>
+                        </>
+                      )}
+                      {card.face === 'picture' && card.word && (
+                        <>
+                          <span className="text-4xl md:text-6xl drop-shadow-sm">{card.word.emoji}</span>
+                          <span className="text-sm md:text-lg font-bold mt-1 text-gray-500">{card.word.hanzi}</span>
+                        </>
+                      )}
+                      {card.face === 'text' && (
+                        <>
+                          <span className={`font-black font-pinyin drop-shadow-sm
+                            ${card.isMatched ? 'text-green-500' : 'text-indigo-600'}
+                            ${card.item.char.length > 2 ? 'text-2xl md:text-3xl' : 'text-3xl md:text-5xl'}
+                          `}>
+                            {card.item.char}
+                          </span>
+                          <span className="text-[10px] md:text-xs font-bold mt-1 opacity-50">
+                            {CATEGORY_LABELS[card.item.category]}
+                          </span>
+                        </>
+                      )}
                     </div>
 
                     {/* Match Effect */}
@@ -365,16 +548,46 @@ const MemoryGame: React.FC<MemoryGameProps> = ({ allItems, onBack }) => {
           })}
         </div>
 
+        {/* Time Up Overlay */}
+        {timeUp && !onComplete && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+            <div className="bg-white rounded-3xl p-8 max-w-sm w-full text-center border-8 border-sky-200 shadow-2xl">
+              <div className="text-7xl mb-4">⏰</div>
+              <h3 className="text-3xl font-black text-sky-500 mb-2">时间到!</h3>
+              <p className="text-gray-500 font-bold mb-8">
+                找到了 {cards.filter(c => c.isMatched).length / 2} / {cards.length / 2} 对
+                {players > 1 && <><br />{scoreLine}</>}
+              </p>
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={startNewGame}
+                  className="w-full bg-sky-400 hover:bg-sky-500 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-sky-600 active:border-b-0 active:translate-y-1 transition-all"
+                >
+                  再玩一次
+                </button>
+                <button
+                  onClick={onBack}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+                >
+                  返回主页
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Win Overlay / Modal */}
-        {gameWon && (
+        {gameWon && !onComplete && (
           <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
             <div className="relative bg-white rounded-3xl p-8 max-w-sm w-full text-center border-8 border-teal-200 shadow-2xl animate-bounce-in overflow-hidden">
               {/* Background Glow */}
               <div className="absolute inset-0 bg-teal-50 animate-pulse-glow -z-10 opacity-50"></div>
               
               <div className={`text-7xl mb-4 ${winDisplay.anim}`}>{winDisplay.icon}</div>
-              <h3 className="text-3xl font-black text-teal-600 mb-2">挑战成功!</h3>
-              <p className="text-gray-500 font-bold mb-8">你用了 {moves} 步完成了配对</p>
+              <h3 className="text-3xl font-black text-teal-600 mb-2">{players > 1 ? winnerText() : '挑战成功!'}</h3>
+              <p className="text-gray-500 font-bold mb-8">
+                {players > 1 ? scoreLine : `你用了 ${moves} 步完成了配对`}
+              </p>
               
               <div className="flex flex-col gap-3">
                 <button 
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AttemptRecord, PinyinChar } from '../types';
+import { INITIALS, FINALS, OVERALL } from '../constants';
+import { getAttempts, onProgressChange } from '../services/progressService';
+import { dailyTrend, summarizeByItem, topConfusions, ItemStats } from '../utils/stats';
+
+interface ParentDashboardProps {
+  onBack: () => void;
+  onOpenWorksheets: () => void;
+  onOpenDecks: () => void;
+  onOpenVoiceStudio: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const RANGES = [
+  { id: 7, label: '本周' },
+  { id: 30, label: '30天' },
+  { id: 0, label: '全部' },
+];
+
+const SECTIONS: { title: string; items: PinyinChar[] }[] = [
+  { title: '声母 (Initials)', items: INITIALS },
+  { title: '韵母 (Finals)', items: FINALS },
+  { title: '整体认读', items: OVERALL },
+];
+
+// Heatmap colour by accuracy: red (struggling) -> yellow -> green (solid)
+const heatClass = (stats: ItemStats | undefined) => {
+  if (!stats) return 'bg-gray-100 text-gray-300 border-gray-200';
+  if (stats.accuracy >= 0.9) return 'bg-green-200 text-green-700 border-green-300';
+  if (stats.accuracy >= 0.75) return 'bg-lime-200 text-lime-700 border-lime-300';
+  if (stats.accuracy >= 0.5) return 'bg-yellow-200 text-yellow-700 border-yellow-300';
+  if (stats.accuracy >= 0.25) return 'bg-orange-200 text-orange-700 border-orange-300';
+  return 'bg-red-200 text-red-700 border-red-300';
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ onBack, onOpenWorksheets, onOpenDecks, onOpenVoiceStudio }) => {
+  const [range, setRange] = useState(7);
+  const [attempts, setAttempts] = useState<AttemptRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    const since = range > 0 ? Date.now() - range * DAY : undefined;
+    getAttempts({ since })
+      .then(setAttempts)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [range]);
+
+  useEffect(() => {
+    load();
+    return onProgressChange(load);
+  }, [load]);
+
+  const byItem = summarizeByItem(attempts);
+  const trend = dailyTrend(attempts, range > 0 ? range : 30);
+  const confusions = topConfusions(attempts, 8);
+  const selectedStats = selected ? byItem.get(selected) : undefined;
+
+  const totalCorrect = attempts.filter(a => a.correct).length;
+  const overallAccuracy = attempts.length > 0 ? totalCorrect / attempts.length : null;
+
+  // --- Trend Chart (inline SVG) ---
+  const CHART_W = 600;
+  const CHART_H = 160;
+  const maxAttempts = Math.max(1, ...trend.map(d => d.attempts));
+  const barW = CHART_W / trend.length;
+  const accuracyPoints = trend
+    .map((d, i) => d.accuracy === null ? null : `${i * barW + barW / 2},${CHART_H - d.accuracy * CHART_H}`)
+    .filter((p): p is string => p !== null)
+    .join(' ');
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-4 md:p-6 pb-12">
+      {/* Header Bar */}
+      <div className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <h2 className="text-3xl md:text-4xl font-black text-gray-600 drop-shadow-sm">家长中心 📊</h2>
+        {/* Teacher Tools */}
+        <div className="flex flex-wrap justify-center gap-2">
+          <button
+            onClick={onOpenWorksheets}
+            className="bg-white border-b-4 border-indigo-200 active:border-b-0 active:translate-y-1 text-indigo-500 font-black px-5 py-2 rounded-full shadow-sm hover:bg-indigo-50 transition-all"
+          >
+            🖨️ 打印练习纸
+          </button>
+          <button
+            onClick={onOpenDecks}
+            className="bg-white border-b-4 border-orange-200 active:border-b-0 active:translate-y-1 text-orange-500 font-black px-5 py-2 rounded-full shadow-sm hover:bg-orange-50 transition-all"
+          >
+            📚 词卡本
+          </button>
+          <button
+            onClick={onOpenVoiceStudio}
+            className="bg-white border-b-4 border-rose-200 active:border-b-0 active:translate-y-1 text-rose-500 font-black px-5 py-2 rounded-full shadow-sm hover:bg-rose-50 transition-all"
+          >
+            🎙️ 老师录音
+          </button>
+        </div>
+        <div className="flex gap-2 bg-white/80 p-1.5 rounded-full shadow-sm">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-4 py-1 rounded-full font-black transition-all ${range === r.id ? 'bg-purple-400 text-white shadow-md' : 'text-purple-500 hover:bg-purple-50'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-2xl font-bold text-gray-400 py-20 animate-pulse">🍭 加载中...</div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-3 gap-4 mb-8">
+            {[
+              { label: '答题次数', value: `${attempts.length}` },
+              { label: '正确率', value: overallAccuracy === null ? '-' : `${Math.round(overallAccuracy * 100)}%` },
+              { label: '练过的拼音', value: `${byItem.size}` },
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-3xl p-4 text-center shadow-sm border-b-4 border-purple-100">
+                <div className="text-3xl md:text-4xl font-black text-purple-500 font-pinyin">{card.value}</div>
+                <div className="text-sm font-bold text-gray-400">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Heatmap */}
+          <div className="bg-white/80 rounded-3xl p-4 md:p-6 shadow-sm mb-8">
+            <h3 className="text-xl font-black text-gray-600 mb-4">每个拼音的掌握情况</h3>
+            {SECTIONS.map(section => (
+              <div key={section.title} className="mb-4">
+                <div className="text-sm font-bold text-gray-400 mb-2">{section.title}</div>
+                <div className="grid grid-cols-6 sm:grid-cols-8 md:grid-cols-12 gap-2">
+                  {section.items.map(item => {
+                    const stats = byItem.get(item.char);
+                    return (
+                      <button
+                        key={item.char}
+                        onClick={() => setSelected(item.char)}
+                        title={stats ? `${Math.round(stats.accuracy * 100)}% · ${stats.attempts}次 · ${formatSeconds(stats.avgResponseMs)}` : '还没练过'}
+                        className={`flex flex-col items-center justify-center rounded-xl border-2 py-1 transition-transform hover:scale-105 ${heatClass(stats)} ${selected === item.char ? 'ring-4 ring-purple-300' : ''}`}
+                      >
+                        <span className="font-black font-pinyin text-lg">{item.char}</span>
+                        <span className="text-[10px] font-bold">{stats ? `${Math.round(stats.accuracy * 100)}%` : '-'}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            {/* Selected Item Detail */}
+            {selected && (
+              <div className="mt-4 bg-purple-50 rounded-2xl p-4 flex flex-wrap gap-6 items-center font-bold text-gray-600">
+                <span className="text-3xl font-black font-pinyin text-purple-600">{selected}</span>
+                {selectedStats ? (
+                  <>
+                    <span>正确率 {Math.round(selectedStats.accuracy * 100)}%</span>
+                    <span>答题 {selectedStats.attempts} 次</span>
+                    <span>平均用时 {formatSeconds(selectedStats.avgResponseMs)}</span>
+                  </>
+                ) : (
+                  <span className="text-gray-400">这段时间还没有练过</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Trend */}
+            <div className="lg:col-span-2 bg-white/80 rounded-3xl p-4 md:p-6 shadow-sm">
+              <h3 className="text-xl font-black text-gray-600 mb-4">每日练习趋势</h3>
+              <svg viewBox={`0 0 ${CHART_W} ${CHART_H + 20}`} className="w-full h-auto">
+                {/* Attempts bars */}
+                {trend.map((d, i) => (
+                  <rect
+                    key={d.day}
+                    x={i * barW + barW * 0.15}
+                    y={CHART_H - (d.attempts / maxAttempts) * CHART_H}
+                    width={barW * 0.7}
+                    height={(d.attempts / maxAttempts) * CHART_H}
+                    rx={3}
+                    className="fill-purple-100"
+                  />
+                ))}
+                {/* Accuracy line */}
+                <polyline points={accuracyPoints} fill="none" strokeWidth={3} className="stroke-pink-400" />
+                {trend.map((d, i) => d.accuracy !== null && (
+                  <circle key={d.day} cx={i * barW + barW / 2} cy={CHART_H - d.accuracy * CHART_H} r={4} className="fill-pink-500" />
+                ))}
+                {/* Day labels (first, middle, last) */}
+                {[0, Math.floor(trend.length / 2), trend.length - 1].map(i => (
+                  <text key={i} x={i * barW + barW / 2} y={CHART_H + 16} textAnchor="middle" className="fill-gray-400 text-[11px] font-bold">
+                    {new Date(trend[i].day).getMonth() + 1}/{new Date(trend[i].day).getDate()}
+                  </text>
+                ))}
+              </svg>
+              <div className="flex gap-4 text-sm font-bold text-gray-400 mt-2">
+                <span><span className="inline-block w-3 h-3 bg-purple-100 rounded-sm mr-1" />答题次数</span>
+                <span><span className="inline-block w-3 h-3 bg-pink-400 rounded-full mr-1" />正确率</span>
+              </div>
+            </div>
+
+            {/* Most Confused */}
+            <div className="bg-white/80 rounded-3xl p-4 md:p-6 shadow-sm">
+              <h3 className="text-xl font-black text-gray-600 mb-4">最容易混淆</h3>
+              {confusions.length === 0 ? (
+                <p className="text-gray-400 font-bold">暂时没有混淆记录 🎉</p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {confusions.map(c => (
+                    <li key={`${c.target}-${c.answer}`} className="flex items-center justify-between bg-pink-50 rounded-xl px-4 py-2">
+                      <span className="font-black font-pinyin text-xl text-pink-600">
+                        {c.target} <span className="text-gray-300">→</span> {c.answer}
+                      </span>
+                      <span className="font-bold text-gray-400">{c.count} 次</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ParentDashboard;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+
+interface ParentGateProps {
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+// A grown-up check: a times-table question first-graders haven't learned yet
+const makeChallenge = () => {
+  const a = 3 + Math.floor(Math.random() * 7);
+  const b = 3 + Math.floor(Math.random() * 7);
+  return { a, b, answer: a * b };
+};
+
+const ParentGate: React.FC<ParentGateProps> = ({ onUnlock, onCancel }) => {
+  const [challenge, setChallenge] = useState(makeChallenge);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Number(input) === challenge.answer) {
+      onUnlock();
+    } else {
+      setError(true);
+      setInput('');
+      setChallenge(makeChallenge());
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-3xl p-8 max-w-sm w-full text-center border-8 border-gray-100 shadow-2xl"
+      >
+        <div className="text-5xl mb-4">🔒</div>
+        <h3 className="text-2xl font-black text-gray-600 mb-2">家长验证</h3>
+        <p className="text-gray-400 font-bold mb-6">请回答: {challenge.a} × {challenge.b} = ?</p>
+
+        <input
+          type="number"
+          inputMode="numeric"
+          autoFocus
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setError(false); }}
+          className={`w-full text-center text-3xl font-black font-pinyin rounded-xl border-4 py-2 mb-2 outline-none ${error ? 'border-red-300 bg-red-50' : 'border-gray-200 focus:border-purple-300'}`}
+        />
+        <div className="h-6 mb-4 text-red-400 font-bold text-sm">{error && '答案不对，再试一次'}</div>
+
+        <div className="flex flex-col gap-3">
+          <button
+            type="submit"
+            className="w-full bg-purple-400 hover:bg-purple-500 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-purple-600 active:border-b-0 active:translate-y-1 transition-all"
+          >
+            进入
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+          >
+            取消
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ParentGate;
@@ -1,51 +1,58 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { PinyinChar } from '../types';
-import { playPinyinAudio } from '../services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { PinyinChar, Tone } from '../types';
+import { ALL_TONES, CATEGORY_LABELS } from '../constants';
+import { playPinyinAudio } from '../services/audioService';
+import { applyToneMark } from '../utils/pinyin';
+import { canTrace, layoutMarkedSyllable, layoutSyllable } from '../utils/handwriting';
+import FourLineGrid from './FourLineGrid';
 
 interface PinyinCardProps {
   item: PinyinChar;
   size?: 'normal' | 'large';
   onClick?: () => void;
   disabled?: boolean;
+  tone?: Tone; // Show and play the syllable in this tone (e.g. mǎ)
+  showTones?: boolean; // Show a strip of tone-marked variants under the card
+  grid?: boolean; // Write the syllable on the four-line grid (四线三格), like textbooks do
 }
 
-const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick, disabled = false }) => {
+const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick, disabled = false, tone, showTones = false, grid = false }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState(false);
-  const timerRef = useRef<number | null>(null);
+  // Each tap gets a number, so only the latest tap's clip ending clears the animation
+  const playIdRef = useRef(0);
+  const mountedRef = useRef(true);
 
-  // Cleanup timer on unmount
   useEffect(() => {
+    mountedRef.current = true;
     return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
+      mountedRef.current = false;
     };
   }, []);
 
-  const handleClick = async () => {
+  const handleClick = async (playTone: Tone | undefined = tone) => {
     if (disabled || isLoading) return; // Allow clicking again even if playing to replay
     
     if (onClick) onClick();
 
+    const playId = ++playIdRef.current;
     setIsLoading(true);
     setError(false);
     
     try {
-      const duration = await playPinyinAudio(item.char);
+      const playback = await playPinyinAudio(item.char, playTone);
+      if (!mountedRef.current || playId !== playIdRef.current) return;
       
       setIsLoading(false);
       setIsPlaying(true);
 
-      if (timerRef.current) clearTimeout(timerRef.current);
-      // Ensure animation plays for at least 500ms or duration
-      const animDuration = Math.max(duration * 1000, 500);
-      
-      timerRef.current = window.setTimeout(() => {
-        setIsPlaying(false);
-      }, animDuration);
+      await playback.ended;
+      if (mountedRef.current && playId === playIdRef.current) setIsPlaying(false);
 
     } catch (e) {
       console.error("Failed to play audio:", e);
+      if (!mountedRef.current) return;
       setError(true);
       setIsLoading(false);
       setIsPlaying(false);
@@ -88,6 +95,15 @@ const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick,
         shadow: 'shadow-pink-200',
         activeBg: 'active:bg-pink-200'
       };
+    } else if (item.category === 'custom') {
+      // Orange / Tangerine theme for a teacher's deck
+      theme = {
+        bg: 'bg-orange-100',
+        text: 'text-orange-600',
+        border: 'border-orange-300',
+        shadow: 'shadow-orange-200',
+        activeBg: 'active:bg-orange-200'
+      };
     } else {
       // Teal / Mint theme
       theme = {
@@ -122,15 +138,25 @@ const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick,
     ? 'border-b-0 translate-y-2 brightness-95' // Physically pressed down
     : disabled ? '' : 'hover:-translate-y-1 hover:brightness-105 active:border-b-0 active:translate-y-2';
 
-  return (
+  const displayText = tone !== undefined ? applyToneMark(item.char, tone) : item.char;
+
+  // Letters without stroke data fall back to plain text
+  const gridLayout = useMemo(() => {
+    if (!grid || !canTrace(item.char)) return null;
+    return tone !== undefined ? layoutMarkedSyllable(item.char, tone) : layoutSyllable(item.char);
+  }, [grid, item.char, tone]);
+
+  const gridSizeClasses = size === 'large' ? 'w-[85%] h-[62%]' : 'w-[88%] h-[58%]';
+
+  const card = (
     <div 
       className={`
         ${baseClasses} ${sizeClasses} 
         ${theme.bg} ${theme.text} ${theme.border} 
         ${depthClass} ${pressedClass}
-        shadow-sm
+        shadow-sm ${gridLayout ? 'print:shadow-none print:break-inside-avoid' : ''}
       `}
-      onClick={handleClick}
+      onClick={() => handleClick()}
     >
       {/* Sparkles (Decorative) */}
       {isPlaying && (
@@ -140,12 +166,24 @@ const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick,
         </>
       )}
 
-      {/* Main Character - Using font-pinyin for correct glyph shapes */}
-      <span className="z-10 font-black drop-shadow-sm font-pinyin">{item.char}</span>
+      {/* Main Character - Using font-pinyin for correct glyph shapes, or drawn on the grid */}
+      {gridLayout ? (
+        <FourLineGrid
+          width={gridLayout.width}
+          strokes={gridLayout.strokes}
+          color="currentColor"
+          label={displayText}
+          className={`z-10 -mt-3 ${gridSizeClasses}`}
+        />
+      ) : (
+        <span className={`z-10 font-black drop-shadow-sm font-pinyin text-center leading-tight ${displayText.length > 4 ? (size === 'large' ? 'text-4xl md:text-5xl' : 'text-xl md:text-2xl') : ''}`}>
+          {displayText}
+        </span>
+      )}
       
       {/* Category Label */}
       <span className="absolute bottom-2 text-xs font-bold opacity-60">
-        {item.category === 'initials' ? '声母' : item.category === 'finals' ? '韵母' : '整体'}
+        {CATEGORY_LABELS[item.category]}
       </span>
 
       {/* Status Icon */}
@@ -155,6 +193,29 @@ const PinyinCard: React.FC<PinyinCardProps> = ({ item, size = 'normal', onClick,
       </div>
     </div>
   );
+
+  if (!showTones || !item.tones?.length) return card;
+
+  // Tone Strip: mā má mǎ mà ma. The neutral tone plays the plain clip; toned syllables
+  // nobody has recorded yet fall back to speech synthesis (see README, 音频处理机制).
+  const stripTones = ALL_TONES.filter(t => t === Tone.NEUTRAL || item.tones!.includes(t));
+  return (
+    <div className="flex flex-col items-center">
+      {card}
+      <div className="flex gap-1 -mt-1">
+        {stripTones.map((t) => (
+          <button
+            key={t}
+            onClick={() => handleClick(t)}
+            disabled={disabled}
+            className={`px-2 py-0.5 rounded-full bg-white border-b-2 ${theme.border} ${theme.text} font-black font-pinyin text-base md:text-lg active:border-b-0 active:translate-y-0.5 transition-all`}
+          >
+            {applyToneMark(item.char, t)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
 };
 
 export default PinyinCard;
\ No newline at end of file
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { PROFILE_AVATARS } from '../constants';
+import { createProfile, deleteProfile, getActiveProfile, getProfiles, switchProfile, updateProfile } from '../services/profileService';
+import ParentGate from './ParentGate';
+
+interface ProfilePickerProps {
+  onClose: () => void;
+}
+
+// The form is shared by "new profile" and "edit profile"
+type EditorState = { mode: 'create' } | { mode: 'edit'; profile: Profile } | null;
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ onClose }) => {
+  const [profiles, setProfiles] = useState<Profile[]>(getProfiles);
+  const [activeId, setActiveId] = useState(() => getActiveProfile().id);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  // Adding, renaming and deleting are for grown-ups: the parent check comes first, once per opening
+  const [unlocked, setUnlocked] = useState(false);
+  const [pendingEditor, setPendingEditor] = useState<EditorState>(null);
+
+  const refresh = () => {
+    setProfiles(getProfiles());
+    setActiveId(getActiveProfile().id);
+  };
+
+  const requestEditor = (state: EditorState) => {
+    if (unlocked) openEditor(state);
+    else setPendingEditor(state);
+  };
+
+  const openEditor = (state: EditorState) => {
+    setEditor(state);
+    setConfirmDelete(false);
+    if (state?.mode === 'edit') {
+      setName(state.profile.name);
+      setAvatar(state.profile.avatar);
+    } else {
+      setName('');
+      setAvatar(PROFILE_AVATARS[Math.floor(Math.random() * PROFILE_AVATARS.length)]);
+    }
+  };
+
+  const handleSelect = (profile: Profile) => {
+    switchProfile(profile.id);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!editor || !name.trim()) return;
+    if (editor.mode === 'create') {
+      const profile = createProfile(name, avatar);
+      switchProfile(profile.id);
+    } else {
+      updateProfile(editor.profile.id, { name, avatar });
+    }
+    setEditor(null);
+    refresh();
+  };
+
+  const handleDelete = async () => {
+    if (editor?.mode !== 'edit') return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    try {
+      await deleteProfile(editor.profile.id);
+    } catch (e) {
+      console.error("Failed to delete profile:", e);
+    }
+    setEditor(null);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="relative bg-white rounded-3xl p-6 md:p-8 max-w-lg w-full text-center border-8 border-pink-100 shadow-2xl">
+        <button onClick={onClose} className="absolute top-3 right-4 text-2xl text-gray-300 hover:text-gray-500">✖</button>
+
+        {editor === null ? (
+          <>
+            <h3 className="text-3xl font-black text-pink-500 mb-6">你是谁呀? 👋</h3>
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              {profiles.map(profile => (
+                <div key={profile.id} className="relative">
+                  <button
+                    onClick={() => handleSelect(profile)}
+                    className={`
+                      w-full flex flex-col items-center p-3 rounded-2xl border-b-4 transition-all
+                      hover:-translate-y-1 active:border-b-0 active:translate-y-1
+                      ${profile.id === activeId ? 'bg-pink-100 border-pink-300' : 'bg-gray-50 border-gray-200'}
+                    `}
+                  >
+                    <span className="text-5xl mb-1">{profile.avatar}</span>
+                    <span className="font-black text-gray-600 truncate max-w-full">{profile.name}</span>
+                  </button>
+                  <button
+                    onClick={() => requestEditor({ mode: 'edit', profile })}
+                    className="absolute -top-2 -right-2 w-8 h-8 rounded-full bg-white shadow text-sm"
+                    aria-label="编辑"
+                  >
+                    ✏️
+                  </button>
+                </div>
+              ))}
+
+              {/* Add Profile */}
+              <button
+                onClick={() => requestEditor({ mode: 'create' })}
+                className="flex flex-col items-center justify-center p-3 rounded-2xl border-4 border-dashed border-pink-200 text-pink-300 hover:bg-pink-50 transition-colors"
+              >
+                <span className="text-5xl mb-1">＋</span>
+                <span className="font-black">添加</span>
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <h3 className="text-3xl font-black text-pink-500 mb-4">
+              {editor.mode === 'create' ? '新朋友' : '修改资料'}
+            </h3>
+            <div className="text-7xl mb-4">{avatar}</div>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="名字"
+              maxLength={10}
+              autoFocus
+              className="w-full text-center text-2xl font-black rounded-xl border-4 border-pink-100 focus:border-pink-300 py-2 mb-4 outline-none"
+            />
+            <div className="grid grid-cols-8 gap-2 mb-6">
+              {PROFILE_AVATARS.map(a => (
+                <button
+                  key={a}
+                  onClick={() => setAvatar(a)}
+                  className={`text-3xl rounded-xl p-1 transition-transform ${avatar === a ? 'bg-pink-100 scale-110 ring-2 ring-pink-300' : 'hover:scale-110'}`}
+                >
+                  {a}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="w-full bg-pink-400 hover:bg-pink-500 disabled:bg-gray-200 disabled:border-gray-300 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all"
+              >
+                保存
+              </button>
+              {editor.mode === 'edit' && profiles.length > 1 && (
+                <button
+                  onClick={handleDelete}
+                  className={`w-full font-bold py-3 rounded-xl transition-colors ${confirmDelete ? 'bg-red-400 text-white' : 'bg-red-50 text-red-400 hover:bg-red-100'}`}
+                >
+                  {confirmDelete ? '确定删除? 学习记录也会一起删除' : '删除'}
+                </button>
+              )}
+              <button
+                onClick={() => setEditor(null)}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+              >
+                取消
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {pendingEditor && (
+        <ParentGate
+          onUnlock={() => {
+            setUnlocked(true);
+            openEditor(pendingEditor);
+            setPendingEditor(null);
+          }}
+          onCancel={() => setPendingEditor(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
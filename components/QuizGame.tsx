@@ -1,24 +1,70 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { PinyinChar } from '../types';
-import { playPinyinAudio } from '../services/geminiService';
+import { Difficulty, GameState, PinyinChar, ReviewRecord, SessionResult } from '../types';
+import { playPinyinAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { getAllReviews, recordAttempt } from '../services/progressService';
+import { emitGameEvent } from '../services/gameEvents';
+import { getProfileSetting, setProfileSetting } from '../services/profileService';
+import { nextReview, pickDistractors, pickNextItem } from '../utils/scheduler';
+import { hardDistractorCount } from '../utils/confusables';
 import PinyinCard from './PinyinCard';
 import confetti from 'canvas-confetti';
 
 interface QuizGameProps {
   allItems: PinyinChar[];
+  questionItems?: PinyinChar[]; // Only ask about these (e.g. earlier mistakes); options still come from allItems
   onBack: () => void;
+  initialDifficulty?: Difficulty;
+  questionLimit?: number; // End after this many questions instead of playing forever
+  onComplete?: (result: SessionResult) => void;
+  optionCount?: number; // Answer cards per question
+  timeLimit?: number; // Seconds per question; when it runs out the answer is shown and counted as wrong
+  advanceDelay?: number; // ms between answering and the next question
 }
 
+// Answer cards per question unless the session says otherwise
+const DEFAULT_OPTION_COUNT = 3;
+const DEFAULT_ADVANCE_DELAY = 2000;
+
+// Option grid columns, so 4 options make a 2x2 square instead of a 3+1 row
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-2',
+  5: 'grid-cols-3',
+  6: 'grid-cols-3',
+};
+
+const DIFFICULTY_OPTIONS = [
+  { id: Difficulty.EASY, label: '简单', icon: '🍬' },
+  { id: Difficulty.MEDIUM, label: '普通', icon: '🍭' },
+  { id: Difficulty.HARD, label: '困难', icon: '🌶️' },
+];
+
 // Animation constants
 const CORRECT_ANIMS = ['animate-jelly', 'animate-tada', 'animate-rubber-band', 'animate-heart-beat'];
 const WRONG_ANIMS = ['animate-head-shake', 'animate-wobble'];
 
-const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
+const QuizGame: React.FC<QuizGameProps> = ({
+  allItems,
+  questionItems = allItems,
+  onBack,
+  initialDifficulty,
+  questionLimit,
+  onComplete,
+  optionCount = DEFAULT_OPTION_COUNT,
+  timeLimit = 0,
+  advanceDelay = DEFAULT_ADVANCE_DELAY,
+}) => {
   const [score, setScore] = useState(0);
+  // Remembered per profile unless the caller forces one
+  const [difficulty, setDifficulty] = useState<Difficulty>(
+    () => initialDifficulty ?? getProfileSetting('quiz_difficulty', Difficulty.MEDIUM)
+  );
   const [questionCount, setQuestionCount] = useState(0);
   const [currentQuestion, setCurrentQuestion] = useState<PinyinChar | null>(null);
   const [options, setOptions] = useState<PinyinChar[]>([]);
-  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'wrong'>('idle');
+  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'wrong' | 'timeout'>('idle');
+  const [timeLeft, setTimeLeft] = useState(timeLimit);
   
   const [audioState, setAudioState] = useState<'idle' | 'loading' | 'playing'>('idle');
   const [hasPlayed, setHasPlayed] = useState(false); 
@@ -29,7 +75,32 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
   const [activeAnim, setActiveAnim] = useState<string>(''); // Stores the current random animation class
   const [scorePopup, setScorePopup] = useState<{show: boolean, x: number, y: number}>({show: false, x: 0, y: 0});
 
-  const timerRef = useRef<number | null>(null);
+  const playIdRef = useRef(0); // Only the latest play of the question clip updates the button
+  const questionStartRef = useRef<number>(Date.now()); // For response time tracking
+  const answeredRef = useRef(false); // Only the first answer to a question is recorded
+  const resolvedRef = useRef(false); // Answered correctly or timed out; stops the countdown
+  const firstTryCorrectRef = useRef(0); // Questions answered right on the first try
+  const streakRef = useRef({ current: 0, best: 0 }); // First-try correct answers in a row
+  const missedRef = useRef<string[]>([]); // Items answered wrong or timed out, for the summary
+  const sessionStartRef = useRef(Date.now());
+  const advanceTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const wrongTimerRef = useRef<ReturnType<typeof setTimeout>>(); // Clears the wrong-answer shake
+  const lastItemRef = useRef<string | undefined>(undefined); // Avoid asking the same item twice in a row
+
+  // Leitner review state, loaded once and then kept in sync locally as the child answers
+  const reviewsRef = useRef<Map<string, ReviewRecord>>(new Map());
+  const [reviewsLoaded, setReviewsLoaded] = useState(false);
+
+  // Read at question time so switching difficulty applies from the next question on
+  const difficultyRef = useRef(difficulty);
+  difficultyRef.current = difficulty;
+
+  useEffect(() => {
+    getAllReviews()
+      .then(reviews => { reviewsRef.current = reviews; })
+      .catch(console.error)
+      .finally(() => setReviewsLoaded(true));
+  }, []);
 
   const generateQuestion = useCallback(() => {
     setFeedback('idle');
@@ -39,29 +110,41 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
     setActiveAnim('');
     setScorePopup({show: false, x: 0, y: 0});
 
-    const randomIndex = Math.floor(Math.random() * allItems.length);
-    const correctItem = allItems[randomIndex];
-
-    const wrongOptions: PinyinChar[] = [];
-    while (wrongOptions.length < 2) {
-      const rand = Math.floor(Math.random() * allItems.length);
-      const item = allItems[rand];
-      if (item.char !== correctItem.char && !wrongOptions.find(o => o.char === item.char)) {
-        wrongOptions.push(item);
-      }
-    }
+    // Spaced repetition: items the child keeps missing come back first, mastered ones rest
+    const correctItem = pickNextItem(questionItems, reviewsRef.current, Date.now(), lastItemRef.current);
+    const wrongOptions = pickDistractors(
+      correctItem,
+      allItems,
+      reviewsRef.current.get(correctItem.char),
+      optionCount - 1,
+      hardDistractorCount(difficultyRef.current, optionCount - 1)
+    );
 
     const newOptions = [correctItem, ...wrongOptions].sort(() => Math.random() - 0.5);
     setCurrentQuestion(correctItem);
     setOptions(newOptions);
-  }, [allItems]);
+    preloadPinyin(newOptions.map(o => o.char)); // Option cards play their sound on tap
+    lastItemRef.current = correctItem.char;
+    answeredRef.current = false;
+    resolvedRef.current = false;
+    questionStartRef.current = Date.now();
+    setTimeLeft(timeLimit);
+  }, [allItems, questionItems, optionCount, timeLimit]);
 
   useEffect(() => {
+    if (!reviewsLoaded) return;
     generateQuestion();
     return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
+      stopAudio();
+      clearTimeout(advanceTimerRef.current);
     };
-  }, [generateQuestion]);
+  }, [generateQuestion, reviewsLoaded]);
+
+  // Leaving mid-session must not fire onComplete or touch state later
+  useEffect(() => () => {
+    clearTimeout(advanceTimerRef.current);
+    clearTimeout(wrongTimerRef.current);
+  }, []);
 
   // Auto-play audio when a new question is generated
   useEffect(() => {
@@ -70,17 +153,88 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
     }
   }, [currentQuestion]);
 
+  // Per-question countdown
+  useEffect(() => {
+    if (!timeLimit || !currentQuestion) return;
+    const timer = setInterval(() => {
+      if (!resolvedRef.current) setTimeLeft(t => Math.max(0, t - 1));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [currentQuestion, timeLimit]);
+
+  useEffect(() => {
+    if (timeLimit && timeLeft === 0 && currentQuestion && !resolvedRef.current) handleTimeout();
+  }, [timeLeft]);
+
+  // Next question, or the end of a limited session
+  const advance = (answered: number) => {
+    advanceTimerRef.current = setTimeout(() => {
+      if (questionLimit && answered >= questionLimit) {
+        const result: SessionResult = {
+          mode: GameState.QUIZ,
+          total: answered,
+          correct: firstTryCorrectRef.current,
+          bestStreak: streakRef.current.best,
+          missed: missedRef.current,
+          startedAt: sessionStartRef.current,
+          endedAt: Date.now(),
+        };
+        emitGameEvent({ type: 'session_complete', result });
+        onComplete?.(result);
+      } else {
+        generateQuestion();
+      }
+    }, advanceDelay);
+  };
+
+  const recordAnswer = (question: PinyinChar, isCorrect: boolean, answer?: string) => {
+    if (answeredRef.current) return;
+    answeredRef.current = true;
+    const attempt = {
+      item: question.char,
+      mode: GameState.QUIZ,
+      correct: isCorrect,
+      answer,
+      responseTimeMs: Date.now() - questionStartRef.current,
+      timestamp: Date.now(),
+    };
+    reviewsRef.current.set(attempt.item, nextReview(reviewsRef.current.get(attempt.item), attempt));
+    recordAttempt(attempt).catch(console.error);
+
+    const streak = streakRef.current;
+    if (isCorrect) {
+      firstTryCorrectRef.current++;
+      streak.current++;
+      streak.best = Math.max(streak.best, streak.current);
+    } else {
+      streak.current = 0;
+      if (!missedRef.current.includes(question.char)) missedRef.current.push(question.char);
+    }
+  };
+
+  // Out of time: show the answer, count it as missed and move on
+  const handleTimeout = () => {
+    if (!currentQuestion) return;
+    resolvedRef.current = true;
+    recordAnswer(currentQuestion, false);
+    setFeedback('timeout');
+    setWrongChar(null);
+    setActiveAnim('');
+    setQuestionCount(c => c + 1);
+    advance(questionCount + 1);
+  };
+
   const playCurrentSound = async () => {
     if (!currentQuestion) return; 
     setHasPlayed(true);
     setAudioState('loading');
     try {
-      const duration = await playPinyinAudio(currentQuestion.char);
+      const playId = ++playIdRef.current;
+      const playback = await playPinyinAudio(currentQuestion.char);
+      if (playId !== playIdRef.current) return;
       setAudioState('playing');
-      if (timerRef.current) clearTimeout(timerRef.current);
-      timerRef.current = window.setTimeout(() => {
-        setAudioState('idle');
-      }, duration * 1000);
+      await playback.ended;
+      if (playId === playIdRef.current) setAudioState('idle');
     } catch (e) {
       console.error("Audio error", e);
       setAudioState('idle');
@@ -96,8 +250,12 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
 
     if (feedback !== 'idle' || !currentQuestion) return;
 
-    if (selected.char === currentQuestion.char) {
+    const isCorrect = selected.char === currentQuestion.char;
+    recordAnswer(currentQuestion, isCorrect, isCorrect ? undefined : selected.char);
+
+    if (isCorrect) {
       // Correct!
+      resolvedRef.current = true;
       setFeedback('correct');
       // Pick random correct animation
       const randomAnim = CORRECT_ANIMS[Math.floor(Math.random() * CORRECT_ANIMS.length)];
@@ -125,9 +283,7 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
         scalar: 1.2
       });
 
-      setTimeout(() => {
-        generateQuestion();
-      }, 2000); 
+      advance(questionCount + 1);
     } else {
       // Wrong!
       setFeedback('wrong');
@@ -136,7 +292,9 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
       const randomAnim = WRONG_ANIMS[Math.floor(Math.random() * WRONG_ANIMS.length)];
       setActiveAnim(randomAnim);
       
-      setTimeout(() => {
+      clearTimeout(wrongTimerRef.current);
+      wrongTimerRef.current = setTimeout(() => {
+        if (resolvedRef.current) return; // Timed out meanwhile
         setFeedback('idle');
         setWrongChar(null);
         setActiveAnim('');
@@ -146,79 +304,6 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
 
   return (
     <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
-      <style>{`
-        /* Jelly */
-        @keyframes jelly {
-          0% { transform: scale(1, 1); }
-          30% { transform: scale(1.25, 0.75); }
-          40% { transform: scale(0.75, 1.25); }
-          50% { transform: scale(1.15, 0.85); }
-          65% { transform: scale(0.95, 1.05); }
-          75% { transform: scale(1.05, 0.95); }
-          100% { transform: scale(1, 1); }
-        }
-        /* Tada */
-        @keyframes tada {
-          0% { transform: scale(1); }
-          10%, 20% { transform: scale(0.9) rotate(-3deg); }
-          30%, 50%, 70%, 90% { transform: scale(1.1) rotate(3deg); }
-          40%, 60%, 80% { transform: scale(1.1) rotate(-3deg); }
-          100% { transform: scale(1) rotate(0); }
-        }
-        /* Rubber Band */
-        @keyframes rubberBand {
-          0% { transform: scale3d(1, 1, 1); }
-          30% { transform: scale3d(1.25, 0.75, 1); }
-          40% { transform: scale3d(0.75, 1.25, 1); }
-          50% { transform: scale3d(1.15, 0.85, 1); }
-          65% { transform: scale3d(0.95, 1.05, 1); }
-          75% { transform: scale3d(1.05, 0.95, 1); }
-          100% { transform: scale3d(1, 1, 1); }
-        }
-        /* Heart Beat */
-        @keyframes heartBeat {
-          0% { transform: scale(1); }
-          14% { transform: scale(1.3); }
-          28% { transform: scale(1); }
-          42% { transform: scale(1.3); }
-          70% { transform: scale(1); }
-        }
-        /* Head Shake */
-        @keyframes headShake {
-          0% { transform: translateX(0); }
-          6.5% { transform: translateX(-6px) rotateY(-9deg); }
-          18.5% { transform: translateX(5px) rotateY(7deg); }
-          31.5% { transform: translateX(-3px) rotateY(-5deg); }
-          43.5% { transform: translateX(2px) rotateY(3deg); }
-          50% { transform: translateX(0); }
-        }
-        /* Wobble */
-        @keyframes wobble {
-          0% { transform: translateX(0%); }
-          15% { transform: translateX(-25%) rotate(-5deg); }
-          30% { transform: translateX(20%) rotate(3deg); }
-          45% { transform: translateX(-15%) rotate(-3deg); }
-          60% { transform: translateX(10%) rotate(2deg); }
-          75% { transform: translateX(-5%) rotate(-1deg); }
-          100% { transform: translateX(0%); }
-        }
-        /* Float Up Score */
-        @keyframes floatUp {
-          0% { opacity: 1; transform: translateY(0) scale(1); }
-          100% { opacity: 0; transform: translateY(-50px) scale(1.5); }
-        }
-
-        .animate-jelly { animation: jelly 0.8s both; }
-        .animate-tada { animation: tada 1s both; }
-        .animate-rubber-band { animation: rubberBand 1s both; }
-        .animate-heart-beat { animation: heartBeat 1.3s ease-in-out both; }
-        
-        .animate-head-shake { animation: headShake 0.5s both; }
-        .animate-wobble { animation: wobble 0.8s both; }
-        
-        .animate-float-up { animation: floatUp 1s forwards ease-out; }
-      `}</style>
-
       {/* Header Bar */}
       <div className="w-full flex justify-between items-center mb-6">
         <button 
@@ -227,11 +312,20 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
         >
           <span>🔙</span> 返回
         </button>
+        {timeLimit > 0 && (
+          <div className={`bg-white px-5 py-2 rounded-full border-b-4 shadow-sm flex items-center gap-2 ${timeLeft <= 3 ? 'border-red-200 animate-pulse' : 'border-sky-200'}`}>
+            <span className="text-2xl">⏰</span>
+            <span className={`text-2xl font-black ${timeLeft <= 3 ? 'text-red-400' : 'text-sky-500'}`}>{timeLeft}</span>
+          </div>
+        )}
         <div className="bg-white px-6 py-2 rounded-full border-b-4 border-yellow-200 shadow-sm flex items-center gap-2 transition-transform duration-200"
              key={score} // Trigger re-render anim
              style={{ animation: score > 0 ? 'rubberBand 0.8s' : 'none' }}>
           <span className="text-2xl">⭐</span>
           <span className="text-2xl font-black text-yellow-500">{score}</span>
+          {questionLimit && (
+            <span className="text-lg font-bold text-gray-400">/ {questionLimit}</span>
+          )}
         </div>
       </div>
 
@@ -241,6 +335,26 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
           听音辨字 🎵
         </h2>
 
+        {/* Difficulty Picker */}
+        <div className="flex gap-2 mb-6 bg-white/80 p-1.5 rounded-full shadow-sm">
+          {DIFFICULTY_OPTIONS.map((opt) => (
+            <button
+              key={opt.id}
+              onClick={() => {
+                setDifficulty(opt.id);
+                setProfileSetting('quiz_difficulty', opt.id);
+              }}
+              className={`px-4 py-1 rounded-full font-black transition-all ${
+                difficulty === opt.id
+                  ? 'bg-yellow-400 text-white shadow-md'
+                  : 'text-yellow-500 hover:bg-yellow-50'
+              }`}
+            >
+              {opt.icon} {opt.label}
+            </button>
+          ))}
+        </div>
+
         {/* Big Play Button */}
         <div className={`mb-10 relative transition-transform duration-200 ${hintShake ? 'scale-110 rotate-3' : ''}`}>
           <button
@@ -269,16 +383,18 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
         </div>
         
         {/* Options Grid */}
-        <div className={`grid grid-cols-3 gap-4 md:gap-8 justify-items-center w-full transition-opacity duration-300 ${!hasPlayed ? 'opacity-70' : 'opacity-100'}`}>
+        <div className={`grid ${GRID_COLUMNS[options.length] ?? 'grid-cols-3'} gap-4 md:gap-8 justify-items-center w-full transition-opacity duration-300 ${!hasPlayed ? 'opacity-70' : 'opacity-100'}`}>
           {options.map((item, idx) => {
             const isCorrect = feedback === 'correct' && item.char === currentQuestion?.char;
             const isWrong = feedback === 'wrong' && item.char === wrongChar;
+            const isMissed = feedback === 'timeout' && item.char === currentQuestion?.char;
             
             return (
               <div key={`${item.char}-${idx}`} 
                    className={`relative w-full flex justify-center transition-all duration-300 
                      ${isCorrect ? `z-10 ${activeAnim}` : ''} 
                      ${isWrong ? activeAnim : ''}
+                     ${isMissed ? 'z-10 animate-heart-beat' : ''}
                    `}>
                  <PinyinCard 
                     item={item} 
@@ -310,6 +426,11 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
                       <span className="text-6xl">😣</span>
                     </div>
                   )}
+                  {isMissed && (
+                    <div className="absolute -top-4 -right-4 z-30 pointer-events-none">
+                      <span className="text-5xl filter drop-shadow-lg">👉</span>
+                    </div>
+                  )}
               </div>
             );
           })}
@@ -326,6 +447,11 @@ const QuizGame: React.FC<QuizGameProps> = ({ allItems, onBack }) => {
                 💪 再试一次哦!
             </div>
             )}
+            {feedback === 'timeout' && (
+            <div className="text-2xl font-black text-sky-500 flex items-center gap-2">
+                ⏰ 时间到! 是这个哦
+            </div>
+            )}
         </div>
       </div>
     </div>
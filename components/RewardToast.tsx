@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BADGES, onRewardsChange } from '../services/rewardService';
+import confetti from 'canvas-confetti';
+
+// How long a new badge stays on screen
+const BADGE_TOAST_MS = 3500;
+
+/** App-wide pop-ups for candies earned and badges unlocked in any game. */
+const RewardToast: React.FC = () => {
+  const [candyGain, setCandyGain] = useState<{ amount: number; key: number } | null>(null);
+  const [badgeQueue, setBadgeQueue] = useState<string[]>([]);
+  const candyTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => onRewardsChange((_, gain) => {
+    if (gain.candies > 0) {
+      setCandyGain({ amount: gain.candies, key: Date.now() });
+      clearTimeout(candyTimerRef.current);
+      candyTimerRef.current = setTimeout(() => setCandyGain(null), 1200);
+    }
+    if (gain.badges.length > 0) setBadgeQueue(q => [...q, ...gain.badges]);
+  }), []);
+
+  useEffect(() => () => clearTimeout(candyTimerRef.current), []);
+
+  // Show queued badges one at a time
+  const badge = BADGES.find(b => b.id === badgeQueue[0]);
+  useEffect(() => {
+    if (!badge) return;
+    confetti({ particleCount: 120, spread: 90, origin: { y: 0.3 }, colors: ['#ffd700', '#ffa500', '#ff69b4'], zIndex: 100 });
+    const timer = setTimeout(() => setBadgeQueue(q => q.slice(1)), BADGE_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [badge?.id]);
+
+  return (
+    <>
+      <style>{`
+        @keyframes candyFloat {
+          0% { opacity: 0; transform: translateY(10px) scale(0.8); }
+          20% { opacity: 1; transform: translateY(0) scale(1.1); }
+          100% { opacity: 0; transform: translateY(-30px) scale(1); }
+        }
+        .animate-candy-float { animation: candyFloat 1.2s ease-out forwards; }
+        @keyframes badgeDrop {
+          0% { opacity: 0; transform: translate(-50%, -40px) scale(0.8); }
+          100% { opacity: 1; transform: translate(-50%, 0) scale(1); }
+        }
+        .animate-badge-drop { animation: badgeDrop 0.5s cubic-bezier(0.175, 0.885, 0.32, 1.275) both; }
+      `}</style>
+
+      {candyGain && (
+        <div key={candyGain.key} className="fixed top-16 right-4 z-[60] pointer-events-none animate-candy-float">
+          <span className="bg-white/95 px-4 py-2 rounded-full shadow-lg border-2 border-pink-200 text-xl font-black text-pink-500">
+            +{candyGain.amount} 🍬
+          </span>
+        </div>
+      )}
+
+      {badge && (
+        <div
+          key={badge.id}
+          className="fixed top-6 left-1/2 z-[60] pointer-events-none animate-badge-drop bg-white rounded-3xl px-8 py-4 shadow-2xl border-4 border-amber-200 flex items-center gap-4"
+        >
+          <span className="text-5xl">{badge.icon}</span>
+          <div>
+            <div className="text-sm font-bold text-amber-400">获得新徽章!</div>
+            <div className="text-2xl font-black text-amber-500">{badge.name}</div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RewardToast;
@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { Deck, Difficulty, GameState, MemoryVariant, PinyinCategory, PinyinChar, SessionConfig, SessionPreset } from '../types';
+import {
+  MAX_OPTIONS,
+  MEMORY_ADVANCE_DELAYS,
+  MEMORY_PAIRS,
+  MEMORY_PLAYERS,
+  MEMORY_TIME_LIMITS,
+  MIN_OPTIONS,
+  QUIZ_ADVANCE_DELAYS,
+  QUIZ_LENGTHS,
+  QUIZ_TIME_LIMITS,
+  SessionGame,
+  deleteSessionPreset,
+  getLastSessionConfig,
+  getMemoryItems,
+  getSessionPresets,
+  normalizeSessionConfig,
+  resolveSessionItems,
+  saveLastSessionConfig,
+  saveSessionPreset,
+} from '../services/sessionService';
+import { deckItems } from '../utils/decks';
+
+interface SessionSetupProps {
+  game: SessionGame;
+  allItems: PinyinChar[];
+  decks: Deck[]; // Teacher-made decks that can be played instead of the built-in letters
+  onStart: (config: SessionConfig) => void;
+  onBack: () => void;
+}
+
+const CATEGORY_OPTIONS = [
+  { id: PinyinCategory.INITIALS, label: '声母' },
+  { id: PinyinCategory.FINALS, label: '韵母' },
+  { id: PinyinCategory.OVERALL, label: '整体认读' },
+];
+
+const DIFFICULTY_OPTIONS = [
+  { id: Difficulty.EASY, label: '🍬 简单' },
+  { id: Difficulty.MEDIUM, label: '🍭 普通' },
+  { id: Difficulty.HARD, label: '🌶️ 困难' },
+];
+
+const VARIANT_OPTIONS = [
+  { id: MemoryVariant.CLASSIC, label: '🔤 字母配字母' },
+  { id: MemoryVariant.SOUND, label: '🔊 听音配字母' },
+  { id: MemoryVariant.PICTURE, label: '🖼️ 看图配字母' },
+];
+
+const THEMES = {
+  [GameState.QUIZ]: { title: '听音辨字', accent: 'text-yellow-500', chip: 'bg-yellow-400 text-white shadow-md', border: 'border-yellow-200', start: 'bg-yellow-400 hover:bg-yellow-500 border-yellow-600' },
+  [GameState.MEMORY]: { title: '记忆配对', accent: 'text-teal-500', chip: 'bg-teal-400 text-white shadow-md', border: 'border-teal-200', start: 'bg-teal-400 hover:bg-teal-500 border-teal-600' },
+};
+
+// Fewest items that still make a game: two answers to choose from, two pairs to match
+const MIN_ITEMS = 2;
+
+const formatSeconds = (s: number) => (s === 0 ? '不限' : s >= 60 ? `${s / 60} 分钟` : `${s} 秒`);
+const formatDelay = (ms: number) => `${ms / 1000} 秒`;
+
+/**
+ * Setup screen shown before a quiz or memory game: which letters, how many, how fast.
+ * Teachers can save a setup as a preset to drill the same letters again after each lesson.
+ */
+const SessionSetup: React.FC<SessionSetupProps> = ({ game, allItems, decks, onStart, onBack }) => {
+  // A deck saved in the last config or a preset may have been deleted since
+  const withKnownDeck = (c: SessionConfig): SessionConfig =>
+    c.deckId && !decks.some(d => d.id === c.deckId) ? { ...c, deckId: undefined, items: [] } : c;
+
+  const [config, setConfig] = useState<SessionConfig>(() => withKnownDeck(getLastSessionConfig(game)));
+  const [presets, setPresets] = useState<SessionPreset[]>(getSessionPresets);
+  const [presetName, setPresetName] = useState('');
+  const theme = THEMES[game];
+  const isQuiz = game === GameState.QUIZ;
+
+  const update = (changes: Partial<SessionConfig>) => setConfig(c => ({ ...c, ...changes }));
+
+  const deck = decks.find(d => d.id === config.deckId);
+  const pool = deck ? deckItems(deck) : allItems;
+  const selectableItems = deck ? pool : allItems.filter(item => config.categories.includes(item.category));
+  const sessionItems = resolveSessionItems(config, pool);
+  // Picture pairs can only be made from items that have a picture word
+  const playableItems = isQuiz ? sessionItems : getMemoryItems(sessionItems, config.memoryVariant);
+  const canStart = playableItems.length >= MIN_ITEMS;
+
+  const toggleCategory = (category: PinyinCategory) => {
+    const categories = config.categories.includes(category)
+      ? config.categories.filter(c => c !== category)
+      : [...config.categories, category];
+    // Hand-picked items of a removed category no longer apply
+    const inCategories = new Set(allItems.filter(i => categories.includes(i.category)).map(i => i.char));
+    update({ categories, items: config.items.filter(char => inCategories.has(char)) });
+  };
+
+  // Hand-picked items belong to the deck (or letters) they were picked from
+  const selectDeck = (deckId: string | undefined) => update({ deckId, items: [] });
+
+  const toggleItem = (char: string) => {
+    update({
+      items: config.items.includes(char) ? config.items.filter(c => c !== char) : [...config.items, char],
+    });
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    saveSessionPreset(presetName, config);
+    setPresets(getSessionPresets());
+    setPresetName('');
+  };
+
+  const removePreset = (id: string) => {
+    deleteSessionPreset(id);
+    setPresets(getSessionPresets());
+  };
+
+  const start = () => {
+    saveLastSessionConfig(game, config);
+    onStart(config);
+  };
+
+  const renderChoices = <T,>(values: T[], selected: T, label: (value: T) => string, onSelect: (value: T) => void) => (
+    <div className="flex flex-wrap gap-2">
+      {values.map(value => (
+        <button
+          key={String(value)}
+          onClick={() => onSelect(value)}
+          className={`px-4 py-1.5 rounded-full font-black transition-all ${
+            selected === value ? theme.chip : `bg-white ${theme.accent} hover:bg-gray-50`
+          }`}
+        >
+          {label(value)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const section = (title: string, content: React.ReactNode) => (
+    <div className="mb-6">
+      <div className="text-sm font-bold text-gray-400 mb-2">{title}</div>
+      {content}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto p-4 md:p-8 pb-24">
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <h2 className={`text-3xl md:text-4xl font-black ${theme.accent} drop-shadow-sm`}>{theme.title} ⚙️</h2>
+      </div>
+
+      <div className={`w-full bg-white/80 backdrop-blur-sm rounded-3xl p-6 border-b-8 ${theme.border} shadow-xl`}>
+        {/* Presets */}
+        {section('我的预设', (
+          <div className="flex flex-wrap items-center gap-2">
+            {presets.map(preset => (
+              <span key={preset.id} className="flex items-center bg-purple-50 rounded-full pl-4 pr-1 py-1">
+                <button
+                  onClick={() => setConfig(withKnownDeck(normalizeSessionConfig(game, preset.config)))}
+                  className="font-black text-purple-500"
+                >
+                  {preset.name}
+                </button>
+                <button
+                  onClick={() => removePreset(preset.id)}
+                  className="ml-1 w-6 h-6 rounded-full text-gray-300 hover:text-red-400 hover:bg-white font-black"
+                  aria-label={`删除 ${preset.name}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+              placeholder="给这组设置起个名字"
+              maxLength={12}
+              className="flex-1 min-w-[10rem] font-bold rounded-full border-2 border-purple-100 focus:border-purple-300 px-4 py-1 outline-none"
+            />
+            <button
+              onClick={savePreset}
+              disabled={!presetName.trim()}
+              className="px-4 py-1 rounded-full font-black bg-purple-400 text-white disabled:opacity-40"
+            >
+              💾 保存
+            </button>
+          </div>
+        ))}
+
+        {/* Deck */}
+        {decks.length > 0 && section('用哪套卡片', (
+          <div className="flex flex-wrap gap-2">
+            {[{ id: undefined, name: '拼音表' }, ...decks].map(d => (
+              <button
+                key={d.id ?? 'letters'}
+                onClick={() => selectDeck(d.id)}
+                className={`px-4 py-1.5 rounded-full font-black transition-all ${
+                  config.deckId === d.id ? theme.chip : `bg-white ${theme.accent} hover:bg-gray-50`
+                }`}
+              >
+                {d.id ? `📚 ${d.name}` : d.name}
+              </button>
+            ))}
+          </div>
+        ))}
+
+        {/* Categories */}
+        {!deck && section('练习哪些', (
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_OPTIONS.map(opt => (
+              <button
+                key={opt.id}
+                onClick={() => toggleCategory(opt.id)}
+                className={`px-4 py-1.5 rounded-full font-black transition-all ${
+                  config.categories.includes(opt.id) ? theme.chip : `bg-white ${theme.accent} hover:bg-gray-50`
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        ))}
+
+        {/* Hand-picked Items */}
+        {section(
+          config.items.length === 0 ? `全部 ${selectableItems.length} 个 (点选只练其中几个)` : `只练选中的 ${sessionItems.length} 个`,
+          <>
+            <div className="grid grid-cols-6 sm:grid-cols-8 md:grid-cols-10 gap-2">
+              {selectableItems.map(item => {
+                const picked = config.items.includes(item.char);
+                return (
+                  <button
+                    key={item.char}
+                    onClick={() => toggleItem(item.char)}
+                    className={`rounded-xl py-1.5 font-black font-pinyin transition-all ${item.char.length > 4 ? 'col-span-2' : ''} ${
+                      picked ? `${theme.chip} scale-105` : 'bg-white text-gray-500 hover:bg-gray-50'
+                    }`}
+                  >
+                    {item.char}
+                  </button>
+                );
+              })}
+            </div>
+            {config.items.length > 0 && (
+              <button onClick={() => update({ items: [] })} className="mt-2 text-sm font-bold text-gray-400">
+                清除选择
+              </button>
+            )}
+          </>
+        )}
+
+        {/* Memory Variant */}
+        {!isQuiz && section(
+          config.memoryVariant === MemoryVariant.PICTURE && playableItems.length < sessionItems.length
+            ? `玩法 (有图画词语的 ${playableItems.length} 个声母可以玩)`
+            : '玩法',
+          renderChoices(
+            VARIANT_OPTIONS.map(v => v.id),
+            config.memoryVariant,
+            id => VARIANT_OPTIONS.find(v => v.id === id)!.label,
+            memoryVariant => update({ memoryVariant })
+          )
+        )}
+
+        {!isQuiz && section('几个人玩', renderChoices(
+          MEMORY_PLAYERS,
+          config.players,
+          n => (n === 1 ? '🙋 一个人' : '👫 两人轮流'),
+          players => update({ players })
+        ))}
+
+        {/* Length */}
+        {isQuiz
+          ? section('题目数量', renderChoices(QUIZ_LENGTHS, config.length, n => `${n} 题`, length => update({ length })))
+          : section('配对数量', renderChoices(MEMORY_PAIRS, config.length, n => `${n} 对`, length => update({ length })))}
+
+        {isQuiz && section('选项个数', renderChoices(
+          Array.from({ length: MAX_OPTIONS - MIN_OPTIONS + 1 }, (_, i) => MIN_OPTIONS + i),
+          config.optionCount,
+          n => `${n} 个`,
+          optionCount => update({ optionCount })
+        ))}
+
+        {isQuiz && section('难度', renderChoices(
+          DIFFICULTY_OPTIONS.map(d => d.id),
+          config.difficulty,
+          id => DIFFICULTY_OPTIONS.find(d => d.id === id)!.label,
+          difficulty => update({ difficulty })
+        ))}
+
+        {section(isQuiz ? '每题限时' : '整局限时', renderChoices(
+          isQuiz ? QUIZ_TIME_LIMITS : MEMORY_TIME_LIMITS,
+          config.timeLimit,
+          formatSeconds,
+          timeLimit => update({ timeLimit })
+        ))}
+
+        {section(isQuiz ? '答对后停留' : '翻错后停留', renderChoices(
+          isQuiz ? QUIZ_ADVANCE_DELAYS : MEMORY_ADVANCE_DELAYS,
+          config.advanceDelay,
+          formatDelay,
+          advanceDelay => update({ advanceDelay })
+        ))}
+      </div>
+
+      <button
+        onClick={start}
+        disabled={!canStart}
+        className={`mt-8 text-white font-black text-2xl px-12 py-4 rounded-full shadow-lg border-b-4 active:border-b-0 active:translate-y-1 transition-all disabled:opacity-40 ${theme.start}`}
+      >
+        开始游戏 ▶
+      </button>
+      {!canStart && <p className="mt-3 text-pink-400 font-bold">至少要选 {MIN_ITEMS} 个拼音哦</p>}
+    </div>
+  );
+};
+
+export default SessionSetup;
@@ -0,0 +1,109 @@
+import React, { useEffect } from 'react';
+import { GameState, PinyinChar, SessionResult } from '../types';
+import { playPinyinAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { canPractiseMistakes, getMissedItems } from '../services/sessionService';
+
+interface SessionSummaryProps {
+  result: SessionResult;
+  allItems: PinyinChar[];
+  onPractiseMistakes: () => void;
+  onPlayAgain: () => void;
+  onBack: () => void;
+}
+
+// Headline by first-try accuracy, best first
+const VERDICTS = [
+  { min: 0.9, icon: '🏆', title: '太厉害了!', color: 'text-yellow-500' },
+  { min: 0.6, icon: '🌟', title: '做得真棒!', color: 'text-pink-500' },
+  { min: 0, icon: '💪', title: '继续加油!', color: 'text-purple-500' },
+];
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/** End-of-session report: how it went, and every missed item to listen to again. */
+const SessionSummary: React.FC<SessionSummaryProps> = ({ result, allItems, onPractiseMistakes, onPlayAgain, onBack }) => {
+  const accuracy = result.total > 0 ? result.correct / result.total : 0;
+  const verdict = VERDICTS.find(v => accuracy >= v.min) ?? VERDICTS[VERDICTS.length - 1];
+  const missedItems = getMissedItems(result, allItems);
+  const isMemory = result.mode === GameState.MEMORY;
+
+  useEffect(() => {
+    preloadPinyin(missedItems.map(item => item.char));
+    return () => stopAudio();
+  }, [result]);
+
+  const stats = [
+    { label: '正确率', value: `${Math.round(accuracy * 100)}%`, color: 'text-green-500' },
+    { label: '用时', value: formatDuration(result.endedAt - result.startedAt), color: 'text-sky-500' },
+    { label: '最多连对', value: result.bestStreak, color: 'text-pink-500' },
+    { label: isMemory ? '翻牌次数' : '题数', value: result.total, color: 'text-purple-500' },
+  ];
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto p-4 md:p-8 pb-24 animate-fade-in">
+      <div className="text-8xl mb-2 animate-bounce">{verdict.icon}</div>
+      <h2 className={`text-4xl md:text-5xl font-black ${verdict.color} mb-8 drop-shadow-sm`}>{verdict.title}</h2>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full mb-8">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-3xl p-4 text-center shadow-sm border-b-4 border-gray-100">
+            <div className={`text-3xl md:text-4xl font-black font-pinyin ${stat.color}`}>{stat.value}</div>
+            <div className="text-sm font-bold text-gray-400">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Missed Items */}
+      <div className="w-full bg-white/80 rounded-3xl p-6 shadow-sm mb-8">
+        {missedItems.length === 0 ? (
+          <p className="text-center text-xl font-black text-green-500">一个都没错，全对! 🎉</p>
+        ) : (
+          <>
+            <h3 className="text-xl font-black text-gray-600 mb-4">这些还要多练练 (点一下再听听)</h3>
+            <div className="flex flex-wrap gap-3">
+              {missedItems.map(item => (
+                <button
+                  key={item.char}
+                  onClick={() => playPinyinAudio(item.char).catch(console.error)}
+                  className="flex items-center gap-2 bg-pink-50 hover:bg-pink-100 border-b-4 border-pink-200 active:border-b-0 active:translate-y-1 rounded-2xl px-4 py-2 transition-all"
+                >
+                  <span className="text-3xl font-black font-pinyin text-pink-500">{item.char}</span>
+                  <span className="text-xl">🔊</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3 w-full max-w-sm">
+        {canPractiseMistakes(result) && (
+          <button
+            onClick={onPractiseMistakes}
+            className="w-full bg-pink-400 hover:bg-pink-500 text-white font-black text-xl py-3 rounded-xl shadow-lg border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all"
+          >
+            🎯 练习我的错题
+          </button>
+        )}
+        <button
+          onClick={onPlayAgain}
+          className="w-full bg-yellow-400 hover:bg-yellow-500 text-white font-black py-3 rounded-xl shadow-lg border-b-4 border-yellow-600 active:border-b-0 active:translate-y-1 transition-all"
+        >
+          再玩一次
+        </button>
+        <button
+          onClick={onBack}
+          className="w-full bg-gray-100 hover:bg-gray-200 text-gray-500 font-bold py-3 rounded-xl transition-colors"
+        >
+          返回主页
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSummary;
@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, PinyinChar, Tone } from '../types';
+import { FOUR_TONES } from '../constants';
+import { getClipSamples, playPinyinAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { isMicrophoneSupported, RecordingSession, startRecording } from '../services/micService';
+import { recordAttempt } from '../services/progressService';
+import { applyToneMark } from '../utils/pinyin';
+import { compareContours, extractPitchContour, normalizeContour, similarityToStars, toneTemplate } from '../utils/pitch';
+import confetti from 'canvas-confetti';
+
+interface SpeakGameProps {
+  allItems: PinyinChar[];
+  onBack: () => void;
+}
+
+// Slow-motion model playback, so the child can hear the tone's shape
+const SLOW_RATE = 0.6;
+
+// Long enough for one slow syllable, short enough that forgetting to stop doesn't hurt
+const MAX_RECORDING_MS = 3000;
+
+const FEEDBACK: Record<number, string> = {
+  0: '🙉 没听到声音，大声一点再试试!',
+  1: '💪 声调再像一点点就好啦!',
+  2: '👍 很接近了，再读一次吧!',
+  3: '🎉 读得真棒!',
+};
+
+type Phase = 'idle' | 'recording' | 'analyzing' | 'result';
+
+// The model's contour: from the recorded clip if there is one, otherwise the textbook tone shape
+async function loadReferenceContour(item: PinyinChar, tone?: Tone): Promise<number[] | null> {
+  try {
+    const { samples, sampleRate } = await getClipSamples(item.char, tone);
+    const contour = normalizeContour(extractPitchContour(samples, sampleRate));
+    if (contour) return contour;
+  } catch {
+    // Not recorded yet (e.g. tone clips); fall through to the template
+  }
+  return tone !== undefined ? toneTemplate(tone) : null;
+}
+
+// Semitone contours drawn as lines: the model dashed, the child solid
+const ContourChart: React.FC<{ reference: number[] | null; attempt: number[] | null }> = ({ reference, attempt }) => {
+  const toPoints = (contour: number[]) => contour
+    .map((v, i) => {
+      const x = 10 + (i / (contour.length - 1)) * 220;
+      const y = 60 - Math.max(-8, Math.min(8, v)) * 6;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox="0 0 240 120" className="w-full max-w-xs h-32 bg-white rounded-2xl border-2 border-pink-100">
+      {reference && (
+        <polyline points={toPoints(reference)} fill="none" stroke="#c084fc" strokeWidth="4" strokeDasharray="8 6" strokeLinecap="round" />
+      )}
+      {attempt && (
+        <polyline points={toPoints(attempt)} fill="none" stroke="#f472b6" strokeWidth="5" strokeLinecap="round" strokeLinejoin="round" />
+      )}
+    </svg>
+  );
+};
+
+const SpeakGame: React.FC<SpeakGameProps> = ({ allItems, onBack }) => {
+  const [currentItem, setCurrentItem] = useState<PinyinChar | null>(null);
+  const [currentTone, setCurrentTone] = useState<Tone | undefined>(undefined);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [isModelPlaying, setIsModelPlaying] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [stars, setStars] = useState(0);
+  const [contours, setContours] = useState<{ reference: number[] | null; attempt: number[] | null }>({ reference: null, attempt: null });
+  const [micError, setMicError] = useState<'unsupported' | 'denied' | null>(
+    isMicrophoneSupported() ? null : 'unsupported'
+  );
+  const [totalStars, setTotalStars] = useState(0);
+
+  const sessionRef = useRef<RecordingSession | null>(null);
+  const playIdRef = useRef(0); // Only the latest model playback updates the button
+  const questionStartRef = useRef<number>(Date.now());
+  const answeredRef = useRef(false); // Only the first reading of each syllable is recorded
+  const questionIdRef = useRef(0); // Bumped on a new syllable or unmount; a recording for an older one is dropped
+
+  const generateQuestion = useCallback(() => {
+    if (allItems.length === 0) return;
+    const item = allItems[Math.floor(Math.random() * allItems.length)];
+    const tones = (item.tones ?? []).filter(t => FOUR_TONES.includes(t));
+    const tone = tones.length > 0 ? tones[Math.floor(Math.random() * tones.length)] : undefined;
+
+    preloadPinyin([{ pinyin: item.char, tone }]);
+    setCurrentItem(item);
+    setCurrentTone(tone);
+    setPhase('idle');
+    setStars(0);
+    setContours({ reference: null, attempt: null });
+    answeredRef.current = false;
+    questionStartRef.current = Date.now();
+  }, [allItems]);
+
+  useEffect(() => {
+    generateQuestion();
+    return () => {
+      questionIdRef.current++;
+      stopAudio();
+      sessionRef.current?.stop();
+    };
+  }, [generateQuestion]);
+
+  const playModel = async (rate?: number) => {
+    if (!currentItem || phase === 'recording') return;
+    const playId = ++playIdRef.current;
+    try {
+      const playback = await playPinyinAudio(currentItem.char, currentTone, { rate });
+      if (playId !== playIdRef.current) return;
+      setIsModelPlaying(true);
+      await playback.ended;
+      if (playId === playIdRef.current) setIsModelPlaying(false);
+    } catch (e) {
+      console.error("Audio error", e);
+    }
+  };
+
+  // Listen first: play the model whenever a new syllable comes up
+  useEffect(() => {
+    if (currentItem) playModel();
+  }, [currentItem, currentTone]);
+
+  const analyze = async (samples: Float32Array, sampleRate: number, questionId: number) => {
+    if (!currentItem) return;
+    setPhase('analyzing');
+
+    const attempt = normalizeContour(extractPitchContour(samples, sampleRate));
+    const reference = await loadReferenceContour(currentItem, currentTone);
+    if (questionId !== questionIdRef.current) return;
+
+    // Without a reference (an unrecorded, toneless sound) we can only check that something was said
+    const similarity = attempt === null ? null : reference === null ? 1 : compareContours(reference, attempt);
+    const earned = similarityToStars(similarity);
+
+    setContours({ reference, attempt });
+    setStars(earned);
+    setPhase('result');
+    setTotalStars(s => s + earned);
+
+    if (attempt !== null && !answeredRef.current) {
+      answeredRef.current = true;
+      recordAttempt({
+        item: currentItem.char,
+        tone: currentTone,
+        mode: GameState.SPEAK,
+        correct: earned === 3,
+        responseTimeMs: Date.now() - questionStartRef.current,
+      }).catch(console.error);
+    }
+
+    if (earned === 3) {
+      confetti({
+        particleCount: 120,
+        spread: 90,
+        origin: { y: 0.6 },
+        colors: ['#ff69b4', '#c084fc', '#ffd700', '#2dd4bf'],
+        shapes: ['circle', 'square'],
+      });
+    }
+  };
+
+  const startSpeaking = async () => {
+    if (phase === 'recording' || phase === 'analyzing') return;
+    stopAudio(); // Don't record the model clip
+    const questionId = questionIdRef.current;
+    try {
+      const session = await startRecording({ maxMs: MAX_RECORDING_MS, onLevel: setLevel });
+      if (questionId !== questionIdRef.current) {
+        session.stop(); // Left while the microphone was starting
+        return;
+      }
+      sessionRef.current = session;
+      setMicError(null);
+      setPhase('recording');
+
+      const { samples, sampleRate } = await session.finished;
+      if (questionId !== questionIdRef.current) return; // Stopped by the cleanup, not by the child
+      sessionRef.current = null;
+      setLevel(0);
+      await analyze(samples, sampleRate, questionId);
+    } catch (e) {
+      if (questionId !== questionIdRef.current) return;
+      console.warn("Microphone unavailable:", e);
+      setMicError('denied');
+      setPhase('idle');
+    }
+  };
+
+  const stopSpeaking = () => {
+    sessionRef.current?.stop();
+  };
+
+  const displayText = currentItem
+    ? (currentTone !== undefined ? applyToneMark(currentItem.char, currentTone) : currentItem.char)
+    : '';
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
+      {/* Header Bar */}
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <div className="bg-white px-6 py-2 rounded-full border-b-4 border-rose-200 shadow-sm flex items-center gap-2">
+          <span className="text-2xl">⭐</span>
+          <span className="text-2xl font-black text-rose-500">{totalStars}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center w-full max-w-2xl bg-white/60 backdrop-blur-sm rounded-3xl p-8 border-4 border-white shadow-xl">
+        <h2 className="text-3xl md:text-4xl font-black text-rose-500 mb-6 drop-shadow-sm">
+          跟我读 🎤
+        </h2>
+
+        {/* Model Syllable */}
+        <button
+          onClick={() => playModel()}
+          disabled={phase === 'recording'}
+          className={`
+            w-40 h-40 rounded-full flex flex-col items-center justify-center transition-all duration-200 border-8 mb-3
+            ${isModelPlaying
+              ? 'bg-rose-300 border-rose-400 scale-95'
+              : 'bg-rose-400 border-rose-200 hover:scale-105 hover:-translate-y-1 shadow-lg active:scale-95 active:shadow-inner'
+            }
+          `}
+        >
+          <span className={`text-6xl font-black font-pinyin text-white drop-shadow-md ${isModelPlaying ? 'animate-bounce' : ''}`}>
+            {displayText}
+          </span>
+          <span className="text-2xl">🔊</span>
+        </button>
+        <button
+          onClick={() => playModel(SLOW_RATE)}
+          disabled={phase === 'recording'}
+          className="mb-8 bg-white text-rose-400 font-black px-5 py-1.5 rounded-full shadow-sm border-b-4 border-rose-100 active:border-b-0 active:translate-y-1 transition-all"
+        >
+          🐢 慢慢听
+        </button>
+
+        {micError === 'unsupported' ? (
+          <p className="text-xl font-bold text-gray-400 text-center">这台设备不能录音，换一台试试吧</p>
+        ) : phase === 'recording' ? (
+          <>
+            {/* Mic Level Meter */}
+            <div className="w-full max-w-xs h-4 bg-gray-100 rounded-full overflow-hidden mb-4">
+              <div className="h-full bg-rose-400 rounded-full transition-all duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+            </div>
+            <button
+              onClick={stopSpeaking}
+              className="bg-red-400 hover:bg-red-500 text-white font-black text-2xl px-10 py-4 rounded-full shadow-lg border-b-4 border-red-600 active:border-b-0 active:translate-y-1 transition-all animate-pulse"
+            >
+              ⏹ 读完了
+            </button>
+          </>
+        ) : phase === 'analyzing' ? (
+          <div className="text-2xl font-black text-rose-400 animate-pulse">👂 听一听...</div>
+        ) : phase === 'result' ? (
+          <>
+            <div className="flex gap-2 mb-3">
+              {[1, 2, 3].map(n => (
+                <span
+                  key={n}
+                  className={`text-5xl ${n <= stars ? 'animate-star-pop' : 'opacity-20 grayscale'}`}
+                  style={{ animationDelay: `${n * 0.15}s` }}
+                >
+                  ⭐
+                </span>
+              ))}
+            </div>
+            <p className="text-2xl font-black text-rose-500 mb-4 text-center">{FEEDBACK[stars]}</p>
+            <ContourChart reference={contours.reference} attempt={contours.attempt} />
+            <p className="text-sm font-bold text-gray-400 mt-1 mb-6">
+              <span className="text-purple-400">- - 老师</span>　<span className="text-pink-400">━ 我</span>
+            </p>
+            <div className="flex gap-4">
+              <button
+                onClick={startSpeaking}
+                className="bg-white text-rose-500 font-black text-xl px-8 py-3 rounded-full shadow-sm border-b-4 border-rose-200 active:border-b-0 active:translate-y-1 transition-all"
+              >
+                🔁 再读一次
+              </button>
+              <button
+                onClick={generateQuestion}
+                className="bg-rose-400 hover:bg-rose-500 text-white font-black text-xl px-8 py-3 rounded-full shadow-lg border-b-4 border-rose-600 active:border-b-0 active:translate-y-1 transition-all"
+              >
+                下一个 👉
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={startSpeaking}
+              className="bg-rose-400 hover:bg-rose-500 text-white font-black text-2xl px-10 py-4 rounded-full shadow-lg border-b-4 border-rose-600 active:border-b-0 active:translate-y-1 transition-all"
+            >
+              🎤 我来读
+            </button>
+            {micError === 'denied' && (
+              <p className="text-lg font-bold text-pink-400 mt-4 text-center">请让爸爸妈妈允许使用麦克风哦</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakGame;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { RewardState } from '../types';
+import { STICKERS, STICKER_PAGES } from '../stickers';
+import { BADGES, buySticker, getPracticeStreak, getRewards, onRewardsChange } from '../services/rewardService';
+import { startOfDay } from '../utils/stats';
+import confetti from 'canvas-confetti';
+
+interface StickerAlbumProps {
+  onBack: () => void;
+}
+
+type AlbumTab = 'stickers' | 'calendar' | 'badges';
+
+const TABS: { id: AlbumTab; label: string }[] = [
+  { id: 'stickers', label: '🌈 贴纸' },
+  { id: 'calendar', label: '📅 打卡' },
+  { id: 'badges', label: '🏅 徽章' },
+];
+
+// Calendar weeks start on Monday, like Chinese school calendars
+const WEEKDAYS = ['一', '二', '三', '四', '五', '六', '日'];
+
+/** Day cells of a month: leading nulls pad the first week, then one local midnight per day. */
+const monthDays = (year: number, month: number): (number | null)[] => {
+  const first = new Date(year, month, 1);
+  const padding = (first.getDay() + 6) % 7;
+  const count = new Date(year, month + 1, 0).getDate();
+  return [
+    ...Array<null>(padding).fill(null),
+    ...Array.from({ length: count }, (_, i) => new Date(year, month, i + 1).getTime()),
+  ];
+};
+
+/** The sticker album: spend candies on stickers, see the practice calendar and earned badges. */
+const StickerAlbum: React.FC<StickerAlbumProps> = ({ onBack }) => {
+  const [rewards, setRewards] = useState<RewardState>(getRewards);
+  const [tab, setTab] = useState<AlbumTab>('stickers');
+  const [pageId, setPageId] = useState(STICKER_PAGES[0].id);
+  const [justBought, setJustBought] = useState<string | null>(null);
+  const [monthOffset, setMonthOffset] = useState(0); // 0 = this month, -1 = last month ...
+
+  useEffect(() => onRewardsChange(setRewards), []);
+
+  const streak = getPracticeStreak(rewards);
+
+  const buy = (id: string) => {
+    try {
+      buySticker(id);
+      setJustBought(id);
+      confetti({ particleCount: 80, spread: 70, origin: { y: 0.6 }, colors: ['#ff69b4', '#ffd700', '#a864fd'] });
+    } catch (e) {
+      console.warn('Could not buy sticker:', e);
+    }
+  };
+
+  const renderStickers = () => (
+    <>
+      <div className="flex flex-wrap justify-center gap-2 mb-6">
+        {STICKER_PAGES.map(page => {
+          const owned = STICKERS.filter(s => s.page === page.id && rewards.stickers.includes(s.id)).length;
+          const total = STICKERS.filter(s => s.page === page.id).length;
+          return (
+            <button
+              key={page.id}
+              onClick={() => setPageId(page.id)}
+              className={`px-4 py-1.5 rounded-full font-black transition-all ${
+                pageId === page.id ? 'bg-fuchsia-400 text-white shadow-md' : 'bg-white text-fuchsia-500 hover:bg-fuchsia-50'
+              }`}
+            >
+              {page.icon} {page.title} <span className="text-xs opacity-70">{owned}/{total}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {STICKERS.filter(s => s.page === pageId).map(sticker => {
+          const owned = rewards.stickers.includes(sticker.id);
+          const affordable = rewards.candies >= sticker.price;
+          return (
+            <div
+              key={sticker.id}
+              className={`flex flex-col items-center justify-center rounded-3xl p-4 aspect-square border-4 ${
+                owned ? 'bg-white border-fuchsia-200 shadow-md' : 'bg-white/50 border-dashed border-gray-200'
+              }`}
+            >
+              <span className={`text-6xl mb-2 ${owned ? '' : 'grayscale opacity-25'} ${justBought === sticker.id ? 'animate-sticker-pop' : ''}`}>
+                {sticker.emoji}
+              </span>
+              {owned ? (
+                <span className="font-black text-fuchsia-500">{sticker.name}</span>
+              ) : (
+                <button
+                  onClick={() => buy(sticker.id)}
+                  disabled={!affordable}
+                  className="px-4 py-1 rounded-full font-black bg-pink-400 text-white border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 disabled:bg-gray-200 disabled:border-gray-300 disabled:text-gray-400 transition-all"
+                >
+                  🍬 {sticker.price}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  const renderCalendar = () => {
+    const now = new Date();
+    const shown = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+    const practiced = new Set(rewards.practiceDays);
+    const today = startOfDay(now.getTime());
+
+    return (
+      <>
+        <div className="flex justify-center gap-4 mb-6">
+          <div className="bg-white rounded-3xl px-6 py-3 text-center shadow-sm">
+            <div className="text-3xl font-black text-orange-500">🔥 {streak}</div>
+            <div className="text-sm font-bold text-gray-400">连续天数</div>
+          </div>
+          <div className="bg-white rounded-3xl px-6 py-3 text-center shadow-sm">
+            <div className="text-3xl font-black text-pink-500">📅 {rewards.practiceDays.length}</div>
+            <div className="text-sm font-bold text-gray-400">练习天数</div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-3xl p-4 md:p-6 shadow-sm">
+          <div className="flex justify-between items-center mb-4">
+            <button onClick={() => setMonthOffset(m => m - 1)} className="w-10 h-10 rounded-full bg-pink-50 text-pink-500 font-black">‹</button>
+            <span className="text-xl font-black text-gray-600">{shown.getFullYear()} 年 {shown.getMonth() + 1} 月</span>
+            <button
+              onClick={() => setMonthOffset(m => m + 1)}
+              disabled={monthOffset >= 0}
+              className="w-10 h-10 rounded-full bg-pink-50 text-pink-500 font-black disabled:opacity-30"
+            >
+              ›
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 md:gap-2 text-center">
+            {WEEKDAYS.map(d => <div key={d} className="text-sm font-bold text-gray-400">{d}</div>)}
+            {monthDays(shown.getFullYear(), shown.getMonth()).map((day, i) => (
+              <div
+                key={i}
+                className={`aspect-square rounded-xl flex flex-col items-center justify-center text-sm font-bold ${
+                  day === null ? '' : practiced.has(day) ? 'bg-pink-100 text-pink-500' : 'bg-gray-50 text-gray-300'
+                } ${day === today ? 'ring-2 ring-pink-400' : ''}`}
+              >
+                {day !== null && (
+                  <>
+                    <span>{new Date(day).getDate()}</span>
+                    {practiced.has(day) && <span className="text-lg leading-none">🍬</span>}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  const renderBadges = () => (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+      {BADGES.map(badge => {
+        const earned = rewards.badges.includes(badge.id);
+        return (
+          <div
+            key={badge.id}
+            className={`flex flex-col items-center text-center rounded-3xl p-4 border-b-4 ${
+              earned ? 'bg-white border-amber-200 shadow-md' : 'bg-white/50 border-gray-100'
+            }`}
+          >
+            <span className={`text-5xl mb-2 ${earned ? '' : 'grayscale opacity-30'}`}>{earned ? badge.icon : '🔒'}</span>
+            <span className={`font-black ${earned ? 'text-amber-500' : 'text-gray-400'}`}>{badge.name}</span>
+            <span className="text-xs font-bold text-gray-400 mt-1">{badge.description}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-4xl mx-auto p-4 md:p-8 pb-24">
+      <style>{`
+        @keyframes stickerPop {
+          0% { transform: scale(0) rotate(-30deg); }
+          60% { transform: scale(1.3) rotate(10deg); }
+          100% { transform: scale(1) rotate(0); }
+        }
+        .animate-sticker-pop { animation: stickerPop 0.6s cubic-bezier(0.175, 0.885, 0.32, 1.275) both; }
+      `}</style>
+
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <div className="bg-white px-6 py-2 rounded-full border-b-4 border-pink-200 shadow-sm flex items-center gap-2">
+          <span className="text-2xl">🍬</span>
+          <span className="text-2xl font-black text-pink-500">{rewards.candies}</span>
+        </div>
+      </div>
+
+      <h2 className="text-4xl md:text-5xl font-black text-fuchsia-500 mb-6 drop-shadow-sm">我的贴纸册 📒</h2>
+
+      <div className="flex gap-2 mb-6 bg-white/80 p-1.5 rounded-full shadow-sm">
+        {TABS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-5 py-1.5 rounded-full font-black transition-all ${
+              tab === t.id ? 'bg-fuchsia-400 text-white shadow-md' : 'text-fuchsia-500 hover:bg-fuchsia-50'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full">
+        {tab === 'stickers' && renderStickers()}
+        {tab === 'calendar' && renderCalendar()}
+        {tab === 'badges' && renderBadges()}
+      </div>
+    </div>
+  );
+};
+
+export default StickerAlbum;
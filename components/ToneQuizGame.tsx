@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, PinyinChar, Tone } from '../types';
+import { FOUR_TONES, TONE_SYMBOLS } from '../constants';
+import { hasClearAudio, playPinyinAudio, preloadPinyin, stopAudio } from '../services/audioService';
+import { getAttempts, recordAttempt } from '../services/progressService';
+import { applyToneMark, parseToneMark } from '../utils/pinyin';
+import confetti from 'canvas-confetti';
+
+interface ToneQuizGameProps {
+  allItems: PinyinChar[];
+  onBack: () => void;
+}
+
+// Animation constants
+const CORRECT_ANIMS = ['animate-jelly', 'animate-tada', 'animate-rubber-band', 'animate-heart-beat'];
+const WRONG_ANIMS = ['animate-head-shake', 'animate-wobble'];
+
+// Button theme + label for each tone
+const TONE_BUTTONS: Record<Tone, { label: string; bg: string; border: string; text: string }> = {
+  [Tone.NEUTRAL]: { label: '轻声', bg: 'bg-gray-100', border: 'border-gray-300', text: 'text-gray-500' },
+  [Tone.FIRST]: { label: '一声', bg: 'bg-pink-100', border: 'border-pink-300', text: 'text-pink-500' },
+  [Tone.SECOND]: { label: '二声', bg: 'bg-purple-100', border: 'border-purple-300', text: 'text-purple-500' },
+  [Tone.THIRD]: { label: '三声', bg: 'bg-sky-100', border: 'border-sky-300', text: 'text-sky-500' },
+  [Tone.FOURTH]: { label: '四声', bg: 'bg-amber-100', border: 'border-amber-300', text: 'text-amber-500' },
+};
+
+// Adaptive weighting: every tone starts at 1, mistakes raise it, correct answers lower it again
+const BASE_WEIGHT = 1;
+const MISS_WEIGHT = 1;     // Added to the tone that was asked when the child gets it wrong
+const CONFUSED_WEIGHT = 0.5; // Added to the tone the child wrongly picked
+const HIT_WEIGHT = 0.5;    // Removed from the tone on a correct answer
+
+type ToneWeights = Record<Tone, number>;
+
+const initialWeights = (): ToneWeights => ({
+  [Tone.NEUTRAL]: BASE_WEIGHT,
+  [Tone.FIRST]: BASE_WEIGHT,
+  [Tone.SECOND]: BASE_WEIGHT,
+  [Tone.THIRD]: BASE_WEIGHT,
+  [Tone.FOURTH]: BASE_WEIGHT,
+});
+
+// Moves the weights after one answer: `picked` is the tone the child chose
+function applyAnswer(weights: ToneWeights, asked: Tone, picked: Tone) {
+  if (picked === asked) {
+    weights[asked] = Math.max(BASE_WEIGHT, weights[asked] - HIT_WEIGHT);
+  } else {
+    weights[asked] += MISS_WEIGHT;
+    weights[picked] += CONFUSED_WEIGHT;
+  }
+}
+
+// Replays earlier tone quiz answers, so a child who keeps missing the third tone hears it more from the start
+async function loadWeights(): Promise<ToneWeights> {
+  const weights = initialWeights();
+  const attempts = await getAttempts({ mode: GameState.TONE_QUIZ });
+  attempts.forEach(attempt => {
+    if (attempt.tone === undefined) return;
+    const picked = attempt.correct || !attempt.answer ? attempt.tone : parseToneMark(attempt.answer).tone;
+    applyAnswer(weights, attempt.tone, picked);
+  });
+  return weights;
+}
+
+// Weighted random pick: tones the child keeps missing come up more often
+function pickWeightedTone(tones: Tone[], weights: ToneWeights): Tone {
+  const total = tones.reduce((sum, t) => sum + weights[t], 0);
+  let roll = Math.random() * total;
+  for (const t of tones) {
+    roll -= weights[t];
+    if (roll <= 0) return t;
+  }
+  return tones[tones.length - 1];
+}
+
+// Tones of a syllable the child can really hear: a recording, or a character read in that tone.
+// Speech synthesis reads a lone toned syllable ("ǎ") with whatever contour it likes.
+const audibleTones = (item: PinyinChar): Tone[] =>
+  (item.tones ?? []).filter(t => FOUR_TONES.includes(t) && hasClearAudio(item.char, t));
+
+const ToneQuizGame: React.FC<ToneQuizGameProps> = ({ allItems, onBack }) => {
+  const [score, setScore] = useState(0);
+  const [currentItem, setCurrentItem] = useState<PinyinChar | null>(null);
+  const [currentTone, setCurrentTone] = useState<Tone>(Tone.FIRST);
+  const [feedback, setFeedback] = useState<'idle' | 'correct' | 'wrong'>('idle');
+  const [audioState, setAudioState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const [wrongTone, setWrongTone] = useState<Tone | null>(null);
+  const [activeAnim, setActiveAnim] = useState<string>('');
+
+  // Weights live in a ref: they steer question generation but never need a re-render.
+  // Seeded from the stored answers, then kept in sync locally as the child answers.
+  const weightsRef = useRef<ToneWeights>(initialWeights());
+  const [weightsLoaded, setWeightsLoaded] = useState(false);
+  const playIdRef = useRef(0); // Only the latest play of the question clip updates the button
+  const questionStartRef = useRef<number>(Date.now()); // For response time tracking
+  const answeredRef = useRef(false); // Only the first answer to a question is recorded
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null); // Feedback / next question
+
+  // Only syllables with an audible tone are asked
+  const toneItems = allItems.filter(item => audibleTones(item).length > 0);
+
+  const generateQuestion = useCallback(() => {
+    setFeedback('idle');
+    setAudioState('idle');
+    setWrongTone(null);
+    setActiveAnim('');
+
+    const pool = allItems.filter(item => audibleTones(item).length > 0);
+    if (pool.length === 0) return;
+
+    const item = pool[Math.floor(Math.random() * pool.length)];
+    const tones = audibleTones(item);
+    preloadPinyin(tones.map(tone => ({ pinyin: item.char, tone })));
+    setCurrentItem(item);
+    setCurrentTone(pickWeightedTone(tones, weightsRef.current));
+    answeredRef.current = false;
+    questionStartRef.current = Date.now();
+  }, [allItems]);
+
+  useEffect(() => {
+    loadWeights()
+      .then(weights => { weightsRef.current = weights; })
+      .catch(console.error)
+      .finally(() => setWeightsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!weightsLoaded) return;
+    generateQuestion();
+    return () => stopAudio();
+  }, [generateQuestion, weightsLoaded]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  const later = (run: () => void, ms: number) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(run, ms);
+  };
+
+  // Auto-play audio when a new question is generated
+  useEffect(() => {
+    if (currentItem) {
+      playCurrentSound();
+    }
+  }, [currentItem, currentTone]);
+
+  const playCurrentSound = async () => {
+    if (!currentItem) return;
+    setAudioState('loading');
+    try {
+      const playId = ++playIdRef.current;
+      const playback = await playPinyinAudio(currentItem.char, currentTone);
+      if (playId !== playIdRef.current) return;
+      setAudioState('playing');
+      await playback.ended;
+      if (playId === playIdRef.current) setAudioState('idle');
+    } catch (e) {
+      console.error("Audio error", e);
+      setAudioState('idle');
+    }
+  };
+
+  const handleToneClick = (selected: Tone) => {
+    if (feedback !== 'idle' || !currentItem) return;
+
+    const isCorrect = selected === currentTone;
+    applyAnswer(weightsRef.current, currentTone, selected);
+
+    if (!answeredRef.current) {
+      answeredRef.current = true;
+      recordAttempt({
+        item: currentItem.char,
+        tone: currentTone,
+        mode: GameState.TONE_QUIZ,
+        correct: isCorrect,
+        answer: isCorrect ? undefined : applyToneMark(currentItem.char, selected),
+        responseTimeMs: Date.now() - questionStartRef.current,
+      }).catch(console.error);
+    }
+
+    if (isCorrect) {
+      // Correct!
+      setFeedback('correct');
+      setActiveAnim(CORRECT_ANIMS[Math.floor(Math.random() * CORRECT_ANIMS.length)]);
+      setScore(s => s + 1);
+
+      confetti({
+        particleCount: 150,
+        spread: 100,
+        origin: { y: 0.6 },
+        colors: ['#ff69b4', '#87ceeb', '#ffd700', '#ffa500'],
+        shapes: ['circle', 'square'],
+        scalar: 1.2
+      });
+
+      later(generateQuestion, 2000);
+    } else {
+      // Wrong!
+      setFeedback('wrong');
+      setWrongTone(selected);
+      setActiveAnim(WRONG_ANIMS[Math.floor(Math.random() * WRONG_ANIMS.length)]);
+
+      later(() => {
+        setFeedback('idle');
+        setWrongTone(null);
+        setActiveAnim('');
+      }, 800);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
+      {/* Header Bar */}
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <div className="bg-white px-6 py-2 rounded-full border-b-4 border-purple-200 shadow-sm flex items-center gap-2"
+             key={score}
+             style={{ animation: score > 0 ? 'rubberBand 0.8s' : 'none' }}>
+          <span className="text-2xl">⭐</span>
+          <span className="text-2xl font-black text-purple-500">{score}</span>
+        </div>
+      </div>
+
+      {/* Question Area */}
+      <div className="flex flex-col items-center w-full max-w-2xl bg-white/60 backdrop-blur-sm rounded-3xl p-8 border-4 border-white shadow-xl">
+        <h2 className="text-3xl md:text-4xl font-black text-purple-600 mb-6 drop-shadow-sm">
+          听声调 🎶
+        </h2>
+
+        {toneItems.length === 0 ? (
+          <p className="text-xl font-bold text-gray-400 text-center leading-relaxed">
+            还没有声调录音哦<br />
+            <span className="text-base">请老师在家长中心的「🎙️ 老师录音」里录好 mā má mǎ mà 这样的声调，就可以玩啦</span>
+          </p>
+        ) : (
+          <>
+            {/* Play Button + Syllable */}
+            <button
+              onClick={playCurrentSound}
+              className={`
+                w-40 h-40 rounded-full flex flex-col items-center justify-center transition-all duration-200 border-8 mb-10
+                ${audioState === 'playing'
+                  ? 'bg-purple-300 border-purple-400 scale-95'
+                  : 'bg-purple-400 border-purple-200 hover:scale-105 hover:-translate-y-1 shadow-lg active:scale-95 active:shadow-inner'
+                }
+              `}
+            >
+              <span className={`text-6xl font-black font-pinyin text-white drop-shadow-md ${audioState === 'playing' ? 'animate-bounce' : ''}`}>
+                {currentItem && (feedback === 'correct' ? applyToneMark(currentItem.char, currentTone) : currentItem.char)}
+              </span>
+              <span className="text-2xl">{audioState === 'loading' ? '⏳' : '🔊'}</span>
+            </button>
+
+            {/* Tone Buttons */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-6 w-full">
+              {FOUR_TONES.map((tone) => {
+                const theme = TONE_BUTTONS[tone];
+                const isCorrect = feedback === 'correct' && tone === currentTone;
+                const isWrong = feedback === 'wrong' && tone === wrongTone;
+
+                return (
+                  <button
+                    key={tone}
+                    onClick={() => handleToneClick(tone)}
+                    disabled={feedback === 'correct'}
+                    className={`
+                      relative flex flex-col items-center justify-center h-32 rounded-2xl
+                      border-b-[8px] border-x-2 border-t-2 ${theme.bg} ${theme.border} ${theme.text}
+                      hover:-translate-y-1 active:border-b-0 active:translate-y-2 transition-all
+                      ${isCorrect || isWrong ? activeAnim : ''}
+                      ${isCorrect ? 'z-10 ring-4 ring-green-300' : ''}
+                      ${isWrong ? 'bg-red-50 border-red-300' : ''}
+                    `}
+                  >
+                    <span className="text-6xl font-black leading-none">{TONE_SYMBOLS[tone]}</span>
+                    <span className="text-lg font-bold mt-2">{theme.label}</span>
+
+                    {isCorrect && (
+                      <span className="absolute -top-4 -right-4 text-5xl animate-bounce filter drop-shadow-lg pointer-events-none">🌟</span>
+                    )}
+                    {isWrong && (
+                      <span className="absolute -top-4 -right-4 text-4xl pointer-events-none">😣</span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="h-16 mt-4 flex items-center justify-center">
+              {feedback === 'correct' && (
+                <div className="text-3xl font-black text-green-500 animate-bounce tracking-widest drop-shadow-sm flex items-center gap-2">
+                  🎉 太棒了!
+                </div>
+              )}
+              {feedback === 'wrong' && (
+                <div className="text-2xl font-black text-pink-400 animate-pulse flex items-center gap-2">
+                  💪 再听一次哦!
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToneQuizGame;
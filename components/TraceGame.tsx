@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { GameState, GridPoint, PinyinCategory, PinyinChar } from '../types';
+import { playPinyinAudio, stopAudio } from '../services/audioService';
+import { recordAttempt } from '../services/progressService';
+import { canTrace, layoutSyllable, scoreTrace, traceStars, TraceScore } from '../utils/handwriting';
+import FourLineGrid, { gridViewBox } from './FourLineGrid';
+import confetti from 'canvas-confetti';
+
+interface TraceGameProps {
+  allItems: PinyinChar[];
+  onBack: () => void;
+}
+
+const CATEGORIES = [
+  { id: PinyinCategory.INITIALS, label: '声母' },
+  { id: PinyinCategory.FINALS, label: '韵母' },
+  { id: PinyinCategory.OVERALL, label: '整体认读' },
+];
+
+// The child's ink, in line spacings: a bit thicker than the guide so it covers it
+const PEN_WIDTH = 0.16;
+const PEN_COLOR = '#8b5cf6';
+
+// Tall single letters are capped at this much of the screen height
+const WRITING_HEIGHT_VH = 50;
+
+const ISSUE_TEXT = {
+  direction: (n: number) => `第 ${n} 笔方向反了，从黄色圆点开始写`,
+  order: (n: number) => `第 ${n} 笔的笔顺不对`,
+  position: (n: number) => `第 ${n} 笔要写在格子里的正确位置`,
+};
+
+const FEEDBACK: Record<number, string> = {
+  1: '💪 再看看笔顺，慢慢描一次!',
+  2: '👍 写得不错，再工整一点就更棒啦!',
+  3: '🎉 写得真漂亮!',
+};
+
+/** Lists what went wrong with an attempt, most useful first. */
+const describeMistakes = (result: TraceScore): string[] => [
+  ...result.strokes.filter(s => s.issue).map(s => ISSUE_TEXT[s.issue!](s.index + 1)),
+  ...(result.missing > 0 ? [`还少写了 ${result.missing} 笔`] : []),
+  ...(result.extra > 0 ? [`多写了 ${result.extra} 笔`] : []),
+];
+
+/** Handwriting practice: watch the stroke order on the four-line grid, then trace it with a finger or pen. */
+const TraceGame: React.FC<TraceGameProps> = ({ allItems, onBack }) => {
+  const traceable = useMemo(() => allItems.filter(item => canTrace(item.char)), [allItems]);
+  const [category, setCategory] = useState(PinyinCategory.INITIALS);
+  const items = traceable.filter(item => item.category === category);
+  const [index, setIndex] = useState(0);
+  const [drawn, setDrawn] = useState<GridPoint[][]>([]);
+  const [showOrder, setShowOrder] = useState(true);
+  const [orderKey, setOrderKey] = useState(0); // Bumped to replay the stroke-order animation
+  const [result, setResult] = useState<TraceScore | null>(null);
+  const [totalStars, setTotalStars] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const currentStrokeRef = useRef<GridPoint[] | null>(null);
+  const startRef = useRef<number>(Date.now());
+  const answeredRef = useRef(false); // Only the first attempt at each item is recorded
+
+  const item = items[Math.min(index, items.length - 1)];
+  const layout = useMemo(() => layoutSyllable(item?.char ?? ''), [item]);
+  const box = gridViewBox(layout.width);
+
+  // A fresh page for each item
+  useEffect(() => {
+    setDrawn([]);
+    setResult(null);
+    setShowOrder(true);
+    setOrderKey(k => k + 1);
+    answeredRef.current = false;
+    startRef.current = Date.now();
+    if (item) playPinyinAudio(item.char).catch(e => console.error("Audio error", e));
+  }, [item]);
+
+  useEffect(() => () => stopAudio(), []);
+
+  // Canvas pixels follow the on-screen size, so redraw everything from the stroke list
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const rect = canvas.getBoundingClientRect();
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+
+    const scale = (rect.width * ratio) / box.width;
+    ctx.setTransform(scale, 0, 0, scale, -box.x * scale, -box.y * scale);
+    ctx.lineWidth = PEN_WIDTH;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = PEN_COLOR;
+
+    const strokes = currentStrokeRef.current ? [...drawn, currentStrokeRef.current] : drawn;
+    strokes.forEach(points => {
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      // A tap still leaves a dot
+      if (points.length === 1) ctx.lineTo(points[0].x + 0.001, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+    });
+  }, [drawn, box.x, box.y, box.width]);
+
+  useEffect(() => {
+    redraw();
+    window.addEventListener('resize', redraw);
+    return () => window.removeEventListener('resize', redraw);
+  }, [redraw]);
+
+  // The canvas has the grid's aspect ratio, so pixels map linearly onto grid coordinates
+  const toGrid = (e: React.PointerEvent<HTMLCanvasElement>): GridPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: box.x + ((e.clientX - rect.left) / rect.width) * box.width,
+      y: box.y + ((e.clientY - rect.top) / rect.height) * box.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (result) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setShowOrder(false);
+    currentStrokeRef.current = [toGrid(e)];
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!currentStrokeRef.current) return;
+    currentStrokeRef.current.push(toGrid(e));
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) return;
+    currentStrokeRef.current = null;
+    setDrawn(d => [...d, stroke]);
+  };
+
+  const clear = () => {
+    currentStrokeRef.current = null;
+    setDrawn([]);
+    setResult(null);
+  };
+
+  const replayOrder = () => {
+    clear();
+    setShowOrder(true);
+    setOrderKey(k => k + 1);
+  };
+
+  const check = () => {
+    if (!item || drawn.length === 0) return;
+    const score = scoreTrace(layout.strokes, drawn);
+    const stars = traceStars(score);
+    setResult(score);
+    setTotalStars(s => s + stars);
+
+    if (!answeredRef.current) {
+      answeredRef.current = true;
+      recordAttempt({
+        item: item.char,
+        mode: GameState.TRACE,
+        correct: stars === 3,
+        responseTimeMs: Date.now() - startRef.current,
+      }).catch(console.error);
+    }
+
+    if (stars === 3) {
+      confetti({
+        particleCount: 120,
+        spread: 90,
+        origin: { y: 0.6 },
+        colors: ['#a78bfa', '#38bdf8', '#ffd700', '#ff69b4'],
+      });
+    }
+  };
+
+  const goTo = (next: number) => setIndex((next + items.length) % items.length);
+
+  const stars = result ? traceStars(result) : 0;
+  const mistakes = result ? describeMistakes(result) : [];
+
+  return (
+    <div className="flex flex-col items-center justify-start min-h-full w-full max-w-4xl mx-auto p-4 md:p-8">
+      {/* Header Bar */}
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <div className="bg-white px-6 py-2 rounded-full border-b-4 border-sky-200 shadow-sm flex items-center gap-2">
+          <span className="text-2xl">⭐</span>
+          <span className="text-2xl font-black text-sky-500">{totalStars}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center w-full max-w-3xl bg-white/60 backdrop-blur-sm rounded-3xl p-4 md:p-8 border-4 border-white shadow-xl">
+        <h2 className="text-3xl md:text-4xl font-black text-sky-500 mb-4 drop-shadow-sm">
+          描一描 ✏️
+        </h2>
+
+        {/* Category Tabs */}
+        <div className="flex gap-2 mb-6 bg-white/80 p-1.5 rounded-full shadow-sm">
+          {CATEGORIES.map(c => (
+            <button
+              key={c.id}
+              onClick={() => { setCategory(c.id); setIndex(0); }}
+              className={`px-5 py-1.5 rounded-full font-black transition-all ${
+                category === c.id ? 'bg-sky-400 text-white shadow-md' : 'text-sky-500 hover:bg-sky-50'
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+
+        {item && (
+          <>
+            {/* Item Picker */}
+            <div className="flex items-center gap-4 mb-4">
+              <button onClick={() => goTo(index - 1)} className="w-12 h-12 rounded-full bg-white text-sky-500 text-2xl font-black shadow-sm">‹</button>
+              <button
+                onClick={() => playPinyinAudio(item.char).catch(e => console.error("Audio error", e))}
+                className="min-w-[8rem] px-6 py-2 rounded-full bg-sky-400 text-white text-4xl font-black font-pinyin shadow-md border-b-4 border-sky-600 active:border-b-0 active:translate-y-1 transition-all"
+              >
+                {item.char} <span className="text-2xl">🔊</span>
+              </button>
+              <button onClick={() => goTo(index + 1)} className="w-12 h-12 rounded-full bg-white text-sky-500 text-2xl font-black shadow-sm">›</button>
+            </div>
+            <div className="text-sm font-bold text-gray-400 mb-4">
+              {index + 1} / {items.length} · 一共 {layout.strokes.length} 笔
+            </div>
+
+            {/* Writing Area: the grid and guide underneath, the child's canvas on top. A ring rather than
+                a border keeps the canvas exactly the grid's shape */}
+            <div
+              className="relative bg-white rounded-2xl ring-4 ring-sky-100 shadow-inner"
+              style={{ aspectRatio: `${box.width} / ${box.height}`, width: `min(100%, ${(WRITING_HEIGHT_VH * box.width / box.height).toFixed(1)}vh)` }}
+            >
+              <FourLineGrid width={layout.width} strokes={layout.strokes} faint className="absolute inset-0 w-full h-full" />
+              {showOrder && (
+                <FourLineGrid key={orderKey} width={layout.width} strokes={layout.strokes} animate className="absolute inset-0 w-full h-full opacity-70" />
+              )}
+              <canvas
+                ref={canvasRef}
+                className="absolute inset-0 w-full h-full cursor-crosshair"
+                style={{ touchAction: 'none' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            </div>
+
+            {result ? (
+              <div className="flex flex-col items-center mt-6">
+                <div className="flex gap-2 mb-2">
+                  {[1, 2, 3].map(n => (
+                    <span
+                      key={n}
+                      className={`text-5xl ${n <= stars ? 'animate-star-pop' : 'grayscale opacity-30'}`}
+                      style={{ animationDelay: `${n * 0.15}s` }}
+                    >
+                      ⭐
+                    </span>
+                  ))}
+                </div>
+                <p className="text-2xl font-black text-sky-500 mb-2">{FEEDBACK[stars]}</p>
+                {mistakes.map(text => (
+                  <p key={text} className="text-lg font-bold text-gray-500">{text}</p>
+                ))}
+                <div className="flex gap-4 mt-4">
+                  <button
+                    onClick={replayOrder}
+                    className="bg-white text-sky-500 font-black text-xl px-6 py-3 rounded-full shadow-sm border-b-4 border-sky-100 active:border-b-0 active:translate-y-1 transition-all"
+                  >
+                    🔁 再写一次
+                  </button>
+                  <button
+                    onClick={() => goTo(index + 1)}
+                    className="bg-sky-400 hover:bg-sky-500 text-white font-black text-xl px-6 py-3 rounded-full shadow-lg border-b-4 border-sky-600 active:border-b-0 active:translate-y-1 transition-all"
+                  >
+                    下一个 ›
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap justify-center gap-4 mt-6">
+                <button
+                  onClick={replayOrder}
+                  className="bg-white text-sky-500 font-black text-xl px-6 py-3 rounded-full shadow-sm border-b-4 border-sky-100 active:border-b-0 active:translate-y-1 transition-all"
+                >
+                  ▶ 看笔顺
+                </button>
+                <button
+                  onClick={clear}
+                  disabled={drawn.length === 0}
+                  className="bg-white text-pink-400 font-black text-xl px-6 py-3 rounded-full shadow-sm border-b-4 border-pink-100 active:border-b-0 active:translate-y-1 disabled:opacity-40 transition-all"
+                >
+                  🧽 擦掉
+                </button>
+                <button
+                  onClick={check}
+                  disabled={drawn.length === 0}
+                  className="bg-sky-400 hover:bg-sky-500 text-white font-black text-xl px-8 py-3 rounded-full shadow-lg border-b-4 border-sky-600 active:border-b-0 active:translate-y-1 disabled:bg-gray-300 disabled:border-gray-400 transition-all"
+                >
+                  ✅ 写好了
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TraceGame;
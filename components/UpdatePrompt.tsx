@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface UpdatePromptProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onUpdate, onDismiss }) => (
+  <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-white/95 backdrop-blur pl-6 pr-3 py-3 rounded-full shadow-xl border-2 border-pink-100 animate-bounce-in">
+    <span className="font-bold text-pink-500 whitespace-nowrap">🎁 有新版本啦!</span>
+    <button
+      onClick={onUpdate}
+      className="bg-pink-400 hover:bg-pink-500 text-white font-black px-5 py-2 rounded-full border-b-4 border-pink-600 active:border-b-0 active:translate-y-1 transition-all"
+    >
+      更新
+    </button>
+    <button
+      onClick={onDismiss}
+      className="text-gray-400 font-bold px-3 py-2 rounded-full hover:bg-gray-100 transition-colors"
+    >
+      稍后
+    </button>
+  </div>
+);
+
+export default UpdatePrompt;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ClipRecordingSession, isClipRecordingSupported, prepareVoiceClip, startClipRecording } from '../services/micService';
+import { playAudioUrl } from '../services/audioService';
+
+interface VoiceRecorderProps {
+  title: string;     // What to say, e.g. mǎ or 苹果 píng guǒ
+  onSave: (clip: Blob) => Promise<void>;
+  onClose: () => void;
+}
+
+type Phase = 'idle' | 'recording' | 'processing' | 'review' | 'saving';
+
+// Long enough for a word said slowly, short enough that a forgotten recording stops by itself
+const MAX_RECORDING_MS = 5000;
+
+/**
+ * Records one clip in the teacher's voice: record, listen back, re-record or save.
+ * The silence around the speech is trimmed and the volume evened out before saving.
+ */
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ title, onSave, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(
+    isClipRecordingSupported() ? null : '这个浏览器不能录音，请换用新版 Chrome、Edge 或 Safari'
+  );
+  const [clip, setClip] = useState<{ blob: Blob; url: string; seconds: number } | null>(null);
+  const sessionRef = useRef<ClipRecordingSession | null>(null);
+
+  // Stop the microphone and free the preview if the dialog closes mid-way
+  useEffect(() => () => {
+    sessionRef.current?.stop();
+  }, []);
+  useEffect(() => () => {
+    if (clip) URL.revokeObjectURL(clip.url);
+  }, [clip]);
+
+  const record = async () => {
+    setError(null);
+    setClip(null);
+    try {
+      const session = await startClipRecording({ maxMs: MAX_RECORDING_MS, onLevel: setLevel });
+      sessionRef.current = session;
+      setPhase('recording');
+
+      const recording = await session.finished;
+      sessionRef.current = null;
+      setPhase('processing');
+      const prepared = await prepareVoiceClip(recording);
+      const url = URL.createObjectURL(prepared.clip);
+      setClip({ blob: prepared.clip, url, seconds: prepared.seconds });
+      setPhase('review');
+      playAudioUrl(url, 1).catch(console.error);
+    } catch (e) {
+      console.error("Recording failed", e);
+      sessionRef.current = null;
+      setPhase('idle');
+      setError(e instanceof DOMException && e.name === 'NotAllowedError'
+        ? '没有麦克风权限，请在浏览器设置里允许使用麦克风'
+        : '没有录到声音，请靠近麦克风再录一次');
+    } finally {
+      setLevel(0);
+    }
+  };
+
+  const save = async () => {
+    if (!clip) return;
+    setPhase('saving');
+    try {
+      await onSave(clip.blob);
+      onClose();
+    } catch (e) {
+      console.error("Could not save recording", e);
+      setPhase('review');
+      setError('保存失败了，请再试一次');
+    }
+  };
+
+  const bigButton = 'text-white font-black text-xl px-8 py-3 rounded-full shadow-lg border-b-4 active:border-b-0 active:translate-y-1 transition-all';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-fade-in">
+      <div className="relative bg-white rounded-3xl p-6 md:p-8 max-w-md w-full text-center border-8 border-rose-100 shadow-2xl">
+        <button onClick={onClose} className="absolute top-3 right-4 text-2xl text-gray-300 hover:text-gray-500">✖</button>
+
+        <div className="text-sm font-bold text-gray-400 mb-1">请读</div>
+        <div className="text-5xl font-black font-pinyin text-rose-500 mb-6">{title}</div>
+
+        {phase === 'idle' && (
+          <button
+            onClick={record}
+            disabled={!isClipRecordingSupported()}
+            className={`${bigButton} bg-rose-400 hover:bg-rose-500 border-rose-600 disabled:opacity-40`}
+          >
+            🎙️ 开始录音
+          </button>
+        )}
+
+        {phase === 'recording' && (
+          <div className="flex flex-col items-center">
+            <div className="w-full max-w-xs h-4 bg-gray-100 rounded-full overflow-hidden mb-4">
+              <div className="h-full bg-rose-400 rounded-full transition-all duration-75" style={{ width: `${Math.round(level * 100)}%` }} />
+            </div>
+            <button
+              onClick={() => sessionRef.current?.stop()}
+              className={`${bigButton} bg-red-400 hover:bg-red-500 border-red-600 animate-pulse`}
+            >
+              ⏹ 录好了
+            </button>
+          </div>
+        )}
+
+        {phase === 'processing' && <div className="text-4xl animate-spin inline-block">🍭</div>}
+
+        {(phase === 'review' || phase === 'saving') && clip && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="text-sm font-bold text-gray-400">剪掉空白后 {clip.seconds.toFixed(1)} 秒</div>
+            <div className="flex flex-wrap justify-center gap-2">
+              <button
+                onClick={() => playAudioUrl(clip.url, 1).catch(console.error)}
+                className="px-5 py-2 rounded-full font-black bg-rose-50 text-rose-500 hover:bg-rose-100"
+              >
+                ▶ 听一听
+              </button>
+              <button onClick={record} disabled={phase === 'saving'} className="px-5 py-2 rounded-full font-black bg-gray-100 text-gray-500 hover:bg-gray-200">
+                🔁 重录
+              </button>
+            </div>
+            <button
+              onClick={save}
+              disabled={phase === 'saving'}
+              className={`${bigButton} bg-green-400 hover:bg-green-500 border-green-600 disabled:opacity-60`}
+            >
+              💾 保存
+            </button>
+          </div>
+        )}
+
+        {error && <div className="mt-4 text-sm font-bold text-red-400">{error}</div>}
+        <div className="mt-6 text-xs font-bold text-gray-300">录音只保存在这台设备上，前后的空白会自动剪掉</div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceRecorder;
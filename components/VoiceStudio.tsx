@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Deck, PinyinCategory, PinyinChar } from '../types';
+import { getClipNameFor, playPinyinAudio, playWordAudio } from '../services/audioService';
+import {
+  deleteVoiceClip,
+  exportVoiceClipsZip,
+  getVoiceClipNames,
+  importVoiceClipsZip,
+  onVoiceClipsChange,
+  saveVoiceClip,
+} from '../services/voiceClipService';
+import { applyToneMark } from '../utils/pinyin';
+import VoiceRecorder from './VoiceRecorder';
+
+interface VoiceStudioProps {
+  allItems: PinyinChar[];
+  decks: Deck[];
+  onBack: () => void;
+}
+
+// Something that can be recorded: a letter, one of its tones, a picture word or a deck entry
+interface ClipTarget {
+  key: string;
+  label: string;
+  clipName: string;
+  play: () => Promise<unknown>;
+}
+
+const CATEGORY_TABS = [
+  { id: PinyinCategory.INITIALS, label: '声母' },
+  { id: PinyinCategory.FINALS, label: '韵母' },
+  { id: PinyinCategory.OVERALL, label: '整体认读' },
+];
+
+// A letter with its tones and picture words, e.g. a: a ā á ǎ à 阿姨
+const itemTargets = (item: PinyinChar): ClipTarget[] => [
+  { key: item.char, label: item.char, clipName: getClipNameFor(item.char), play: () => playPinyinAudio(item.char) },
+  ...(item.tones ?? []).map(tone => ({
+    key: `${item.char}${tone}`,
+    label: applyToneMark(item.char, tone),
+    clipName: getClipNameFor(item.char, tone),
+    play: () => playPinyinAudio(item.char, tone),
+  })),
+  ...(item.words ?? []).map(word => ({
+    key: `${item.char}:${word.hanzi}`,
+    label: `${word.emoji} ${word.hanzi}`,
+    clipName: getClipNameFor(word.pinyin),
+    play: () => playWordAudio(word),
+  })),
+];
+
+const deckTargets = (deck: Deck): ClipTarget[] =>
+  deck.entries.map(entry => ({
+    key: entry.pinyin,
+    label: entry.hanzi ? `${entry.hanzi} ${entry.pinyin}` : entry.pinyin,
+    clipName: getClipNameFor(entry.pinyin),
+    play: () => playPinyinAudio(entry.pinyin),
+  }));
+
+/** Offers a file for download. */
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Where a teacher records clips in their own voice, for any letter, tone, picture word or deck entry.
+ * Their recordings are played instead of the built-in ones, and fill in clips the app doesn't have.
+ * All recordings can be shared with other devices as one zip file.
+ */
+const VoiceStudio: React.FC<VoiceStudioProps> = ({ allItems, decks, onBack }) => {
+  const [tab, setTab] = useState<string>(PinyinCategory.INITIALS);
+  const [recorded, setRecorded] = useState(() => new Set(getVoiceClipNames()));
+  const [selected, setSelected] = useState<ClipTarget | null>(null);
+  const [recording, setRecording] = useState<ClipTarget | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => onVoiceClipsChange(() => setRecorded(new Set(getVoiceClipNames()))), []);
+
+  const deck = decks.find(d => d.id === tab);
+  const groups: { title: string; targets: ClipTarget[] }[] = deck
+    ? [{ title: deck.name, targets: deckTargets(deck) }]
+    : allItems.filter(item => item.category === tab).map(item => ({ title: item.char, targets: itemTargets(item) }));
+
+  const play = (target: ClipTarget) => target.play().catch(e => console.error("Audio error", e));
+
+  const removeRecording = async (target: ClipTarget) => {
+    try {
+      await deleteVoiceClip(target.clipName);
+    } catch (e) {
+      console.error("Could not delete recording", e);
+      setMessage({ text: '删除失败了，请再试一次', error: true });
+    }
+  };
+
+  const exportZip = async () => {
+    try {
+      download(await exportVoiceClipsZip(), '糖果拼音-老师录音.zip');
+    } catch (e) {
+      console.error("Could not export recordings", e);
+      setMessage({ text: '导出失败了，请再试一次', error: true });
+    }
+  };
+
+  const importZip = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = await importVoiceClipsZip(file);
+      setMessage(count > 0
+        ? { text: `导入了 ${count} 段录音 ✅`, error: false }
+        : { text: '压缩包里没有找到录音 (文件名要像 ma3.wav 这样)', error: true });
+    } catch (e) {
+      console.error("Could not import recordings", e);
+      setMessage({ text: '这个文件读不出来，请用本页导出的 zip 文件', error: true });
+    }
+  };
+
+  const tabButton = (id: string, label: string) => (
+    <button
+      key={id}
+      onClick={() => { setTab(id); setSelected(null); }}
+      className={`px-4 py-1.5 rounded-full font-black transition-all ${tab === id ? 'bg-rose-400 text-white shadow-md' : 'bg-white text-rose-500 hover:bg-gray-50'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const toolButton = 'bg-white border-b-4 border-rose-200 active:border-b-0 active:translate-y-1 text-rose-500 font-black px-4 py-2 rounded-full shadow-sm hover:bg-rose-50 transition-all disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-5xl mx-auto p-4 md:p-8 pb-40">
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <h2 className="text-3xl md:text-4xl font-black text-rose-500 drop-shadow-sm">老师录音 🎙️</h2>
+      </div>
+
+      <div className="w-full bg-white/80 backdrop-blur-sm rounded-3xl p-6 border-b-8 border-rose-200 shadow-xl">
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {CATEGORY_TABS.map(t => tabButton(t.id, t.label))}
+          {decks.map(d => tabButton(d.id, `📚 ${d.name}`))}
+          <div className="ml-auto flex gap-2">
+            <button onClick={exportZip} disabled={recorded.size === 0} className={toolButton}>📤 导出 zip</button>
+            <button onClick={() => importInput.current?.click()} className={toolButton}>📥 导入 zip</button>
+            <input
+              ref={importInput}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={e => {
+                importZip(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="text-sm font-bold text-gray-400 mb-4">
+          已录 {recorded.size} 段。选一个音节或词语录下自己的声音，孩子们就会听到老师的录音；带 🎙️ 的是已经录好的。
+        </div>
+        {message && (
+          <div className={`mb-4 text-sm font-bold ${message.error ? 'text-red-400' : 'text-green-500'}`}>{message.text}</div>
+        )}
+
+        <div className="flex flex-col gap-3">
+          {groups.map(group => (
+            <div key={group.title} className="flex flex-wrap items-center gap-2">
+              {!deck && <span className="w-12 text-2xl font-black font-pinyin text-gray-500">{group.title}</span>}
+              {group.targets.map(target => (
+                <button
+                  key={target.key}
+                  onClick={() => setSelected(target)}
+                  className={`px-3 py-1.5 rounded-xl font-bold font-pinyin transition-all border-2 ${
+                    selected?.key === target.key ? 'border-rose-400 bg-rose-50 text-rose-600' : 'border-transparent bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {target.label}
+                  {recorded.has(target.clipName) && <span className="ml-1">🎙️</span>}
+                </button>
+              ))}
+            </div>
+          ))}
+          {groups.length === 0 && <div className="text-center text-gray-400 font-bold py-8">这里还没有卡片</div>}
+        </div>
+      </div>
+
+      {/* Selected Clip */}
+      {selected && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 bg-white/95 backdrop-blur rounded-full shadow-xl border-2 border-rose-100 px-6 py-3 flex flex-wrap items-center justify-center gap-3">
+          <span className="text-2xl font-black font-pinyin text-rose-500">{selected.label}</span>
+          <span className="text-xs font-bold text-gray-400">{recorded.has(selected.clipName) ? '老师的录音' : '默认声音'}</span>
+          <button onClick={() => play(selected)} className="px-4 py-1.5 rounded-full font-black bg-rose-50 text-rose-500 hover:bg-rose-100">▶ 听</button>
+          <button onClick={() => setRecording(selected)} className="px-4 py-1.5 rounded-full font-black bg-rose-400 text-white hover:bg-rose-500">🎙️ 录音</button>
+          {recorded.has(selected.clipName) && (
+            <button onClick={() => removeRecording(selected)} className="px-4 py-1.5 rounded-full font-black bg-gray-100 text-gray-500 hover:bg-red-50 hover:text-red-400">
+              🗑️ 删掉录音
+            </button>
+          )}
+        </div>
+      )}
+
+      {recording && (
+        <VoiceRecorder
+          title={recording.label}
+          onSave={clip => saveVoiceClip(recording.clipName, clip)}
+          onClose={() => setRecording(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VoiceStudio;
@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { PinyinChar } from '../types';
+import { playWordAudio, preloadPinyin } from '../services/audioService';
+import PinyinCard from './PinyinCard';
+
+interface WordFlipCardProps {
+  item: PinyinChar;
+  grid?: boolean; // Show the letter on the four-line grid
+}
+
+// Back face colours follow PinyinCard's category themes
+const BACK_THEMES: Record<string, string> = {
+  initials: 'bg-purple-50 border-purple-300 text-purple-600',
+  finals: 'bg-pink-50 border-pink-300 text-pink-600',
+  overall: 'bg-teal-50 border-teal-300 text-teal-600',
+  custom: 'bg-orange-50 border-orange-300 text-orange-600',
+};
+
+/**
+ * A learning-grid card that flips over to its picture words (b -> 👨 爸爸 bà ba).
+ * Tap the picture to hear the word; the arrow shows the next word.
+ */
+const WordFlipCard: React.FC<WordFlipCardProps> = ({ item, grid = false }) => {
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [wordIndex, setWordIndex] = useState(0);
+  const words = item.words ?? [];
+  const word = words[wordIndex];
+
+  // Words are only fetched once the child turns the card over
+  useEffect(() => {
+    if (isFlipped) preloadPinyin(words.map(w => ({ word: w })));
+  }, [isFlipped, words]);
+
+  if (words.length === 0) return <PinyinCard item={item} grid={grid} />;
+
+  const playWord = (index: number) => {
+    playWordAudio(words[index]).catch(console.error);
+  };
+
+  const flip = () => {
+    if (!isFlipped) {
+      setWordIndex(0);
+      playWord(0);
+    }
+    setIsFlipped(f => !f);
+  };
+
+  const nextWord = () => {
+    const next = (wordIndex + 1) % words.length;
+    setWordIndex(next);
+    playWord(next);
+  };
+
+  return (
+    <div className="relative perspective-1000">
+      <div className={`relative transition-transform duration-500 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}>
+        {/* Front: the letter */}
+        <div className={`backface-hidden ${isFlipped ? 'pointer-events-none' : ''}`}>
+          <PinyinCard item={item} grid={grid} />
+        </div>
+
+        {/* Back: picture words */}
+        <div className={`absolute inset-0 m-2 backface-hidden rotate-y-180 ${isFlipped ? '' : 'pointer-events-none'}`}>
+          <div className={`w-full h-full rounded-2xl border-2 border-b-[6px] md:border-b-[8px] flex flex-col items-center justify-center select-none ${BACK_THEMES[item.category]}`}>
+            <button
+              onClick={() => playWord(wordIndex)}
+              className="flex flex-col items-center active:scale-95 transition-transform"
+            >
+              <span key={wordIndex} className="text-4xl md:text-5xl leading-none animate-bounce-once">{word.emoji}</span>
+              <span className="text-lg md:text-xl font-black mt-1">{word.hanzi}</span>
+              <span className="text-xs md:text-sm font-bold font-pinyin opacity-80">{word.pinyin}</span>
+            </button>
+
+            {words.length > 1 && (
+              <button
+                onClick={nextWord}
+                className="absolute bottom-1 right-1 w-7 h-7 rounded-full bg-white/80 font-black text-sm shadow-sm active:scale-90"
+                aria-label="下一个词"
+              >
+                ›
+              </button>
+            )}
+            {words.length > 1 && (
+              <span className="absolute bottom-2 left-2 text-[10px] font-bold opacity-50">
+                {wordIndex + 1}/{words.length}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Flip Toggle */}
+      <button
+        onClick={flip}
+        className="absolute top-0 left-0 z-20 w-8 h-8 rounded-full bg-white shadow-md border-2 border-yellow-200 text-base flex items-center justify-center hover:scale-110 active:scale-90 transition-transform"
+        aria-label={isFlipped ? '翻回字母' : '看图认词'}
+      >
+        {isFlipped ? '↩' : '🖼️'}
+      </button>
+    </div>
+  );
+};
+
+export default WordFlipCard;
@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { PinyinCategory, PinyinChar, WorksheetItem, WorksheetKind } from '../types';
+import { playPinyinAudio, playSequence, stopAudio } from '../services/audioService';
+import { layoutMarkedSyllable, layoutSyllable } from '../utils/handwriting';
+import {
+  BlendingTable,
+  FLASHCARDS_PER_PAGE,
+  LISTENING_QUESTIONS_PER_PAGE,
+  ListeningQuestion,
+  TRACING_ROWS_PER_PAGE,
+  buildBlendingTables,
+  buildListeningQuestions,
+  chunk,
+  fromPinyinChar,
+  parseCustomSyllables,
+  worksheetText,
+} from '../utils/worksheets';
+import FourLineGrid, { gridViewBox } from './FourLineGrid';
+
+interface WorksheetGeneratorProps {
+  allItems: PinyinChar[];
+  onBack: () => void;
+}
+
+const KINDS = [
+  { id: WorksheetKind.FLASHCARDS, label: '🃏 识字卡片' },
+  { id: WorksheetKind.TRACING, label: '✏️ 描红练习' },
+  { id: WorksheetKind.LISTENING, label: '👂 听音圈一圈' },
+  { id: WorksheetKind.BLENDING, label: '🧩 拼读表' },
+];
+
+const CATEGORY_OPTIONS = [
+  { id: PinyinCategory.INITIALS, label: '声母' },
+  { id: PinyinCategory.FINALS, label: '韵母' },
+  { id: PinyinCategory.OVERALL, label: '整体认读' },
+];
+
+const OPTION_COUNTS = [2, 3, 4];
+
+// Printed sizes, in mm. A4 is 210 x 297; this leaves the page margins for the printer.
+const CONTENT_WIDTH_MM = 180;
+const TRACING_ROW_MM = 17;
+const FLASHCARD_GRID_MM = 20;
+// Model copies to trace after the solid example; the rest of the row is left blank to copy
+const TRACE_COPIES = 3;
+
+// Ink for printing: dark enough to read, the faint copies come out light grey
+const PRINT_INK = '#374151';
+
+// Every syllable is read twice, then a pause to circle the answer
+const PLAYLIST_REPEATS = 2;
+const PLAYLIST_GAP_MS = 2500;
+
+const gridLayout = (item: WorksheetItem) =>
+  item.tone !== undefined ? layoutMarkedSyllable(item.char, item.tone) : layoutSyllable(item.char);
+
+/** Width of a grid cell holding `width` line spacings of writing, at a given printed height. */
+const cellWidthMm = (width: number, heightMm: number) => {
+  const box = gridViewBox(width);
+  return (box.width / box.height) * heightMm;
+};
+
+const SheetHeader: React.FC<{ title: string }> = ({ title }) => (
+  <div className="flex justify-between items-end mb-6 pb-2 border-b-2 border-gray-200">
+    <h1 className="text-2xl font-black text-gray-700">{title}</h1>
+    <div className="text-base font-bold text-gray-500 flex gap-6">
+      <span>姓名 ________</span>
+      <span>日期 ________</span>
+    </div>
+  </div>
+);
+
+/**
+ * Printable A4 homework built from any selection of letters or typed syllables: flashcards,
+ * tracing sheets, listening answer sheets with their audio playlist, and blending tables.
+ * Everything is laid out in the browser and printed (or saved as PDF) from the print dialog.
+ */
+const WorksheetGenerator: React.FC<WorksheetGeneratorProps> = ({ allItems, onBack }) => {
+  const [kind, setKind] = useState(WorksheetKind.FLASHCARDS);
+  const [categories, setCategories] = useState<PinyinCategory[]>([PinyinCategory.INITIALS]);
+  const [picked, setPicked] = useState<string[]>([]);
+  const [customText, setCustomText] = useState('');
+  const [optionCount, setOptionCount] = useState(3);
+  const [answerKey, setAnswerKey] = useState(true);
+  const [blankCells, setBlankCells] = useState(false);
+  const [shuffleKey, setShuffleKey] = useState(0); // Bumped for a new set of listening questions
+  const [playingQuestion, setPlayingQuestion] = useState<number | null>(null);
+
+  useEffect(() => () => stopAudio(), []);
+
+  const selectableItems = allItems.filter(item => categories.includes(item.category));
+  const custom = useMemo(() => parseCustomSyllables(customText, allItems), [customText, allItems]);
+  const items = useMemo(() => {
+    const chosen = picked.length > 0 ? selectableItems.filter(i => picked.includes(i.char)) : selectableItems;
+    return [...chosen.map(fromPinyinChar), ...custom.items];
+  }, [picked, categories, custom, allItems]);
+
+  const questions = useMemo(
+    () => buildListeningQuestions(items, optionCount, allItems.map(fromPinyinChar)),
+    [items, optionCount, shuffleKey]
+  );
+  const tables = useMemo(() => buildBlendingTables(items), [items]);
+
+  const toggleCategory = (category: PinyinCategory) => {
+    const next = categories.includes(category) ? categories.filter(c => c !== category) : [...categories, category];
+    const inCategories = new Set(allItems.filter(i => next.includes(i.category)).map(i => i.char));
+    setCategories(next);
+    setPicked(p => p.filter(char => inCategories.has(char)));
+  };
+
+  const togglePicked = (char: string) =>
+    setPicked(p => (p.includes(char) ? p.filter(c => c !== char) : [...p, char]));
+
+  const playQuestion = (question: ListeningQuestion) =>
+    playPinyinAudio(question.answer.char, question.answer.tone).catch(e => console.error("Audio error", e));
+
+  const playPlaylist = async () => {
+    const targets = questions.flatMap(q => Array(PLAYLIST_REPEATS).fill({ pinyin: q.answer.char, tone: q.answer.tone }));
+    await playSequence(targets, { gapMs: PLAYLIST_GAP_MS, onStep: i => setPlayingQuestion(Math.floor(i / PLAYLIST_REPEATS)) });
+    setPlayingQuestion(null);
+  };
+
+  const stopPlaylist = () => {
+    stopAudio();
+    setPlayingQuestion(null);
+  };
+
+  // --- Pages ---
+
+  const renderFlashcards = () => chunk(items, FLASHCARDS_PER_PAGE).map(page => (
+    <>
+      <SheetHeader title="拼音卡片 ✂️ 沿虚线剪开" />
+      <div className="grid grid-cols-3 border-l-2 border-t-2 border-dashed border-gray-300">
+        {page.map((item, i) => {
+          const layout = gridLayout(item);
+          const word = item.words[0];
+          return (
+            <div key={i} className="h-[60mm] border-r-2 border-b-2 border-dashed border-gray-300 flex flex-col items-center justify-center gap-2">
+              <FourLineGrid
+                width={layout.width}
+                strokes={layout.strokes}
+                color={PRINT_INK}
+                label={worksheetText(item)}
+                className="max-w-[52mm]"
+                style={{ height: `${FLASHCARD_GRID_MM}mm` }}
+              />
+              {word && (
+                <div className="flex flex-col items-center">
+                  <span className="text-4xl leading-none">{word.emoji}</span>
+                  <span className="text-lg font-black text-gray-700">{word.hanzi}</span>
+                  <span className="text-sm font-bold font-pinyin text-gray-500">{word.pinyin}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  ));
+
+  const renderTracing = () => chunk(items, TRACING_ROWS_PER_PAGE).map(page => (
+    <>
+      <SheetHeader title="四线三格描一描" />
+      <div className="flex flex-col gap-4">
+        {page.map((item, i) => {
+          const layout = gridLayout(item);
+          const cells = Math.max(1, Math.floor(CONTENT_WIDTH_MM / cellWidthMm(layout.width, TRACING_ROW_MM)));
+          return (
+            <div key={i} className="flex">
+              {Array.from({ length: cells }, (_, cell) => (
+                <FourLineGrid
+                  key={cell}
+                  width={layout.width}
+                  strokes={cell <= TRACE_COPIES ? layout.strokes : []}
+                  faint={cell > 0}
+                  color={PRINT_INK}
+                  label={cell === 0 ? worksheetText(item) : undefined}
+                  className="flex-none"
+                  style={{ height: `${TRACING_ROW_MM}mm` }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  ));
+
+  const renderListening = () => [
+    ...chunk(questions, LISTENING_QUESTIONS_PER_PAGE).map((page, p) => (
+      <>
+        <SheetHeader title="听一听，圈出听到的拼音" />
+        <div className="flex flex-col gap-5">
+          {page.map((question, i) => {
+            const number = p * LISTENING_QUESTIONS_PER_PAGE + i;
+            return (
+              <div key={i} className="flex items-center gap-6">
+                <button
+                  onClick={() => playQuestion(question)}
+                  className={`w-10 text-right text-xl font-black ${playingQuestion === number ? 'text-pink-500' : 'text-gray-500'}`}
+                >
+                  {number + 1}.
+                </button>
+                {question.options.map((option, j) => (
+                  <span key={j} className="min-w-[28mm] text-center text-3xl font-black font-pinyin text-gray-700 px-4 py-1 rounded-2xl border-2 border-gray-200">
+                    {worksheetText(option)}
+                  </span>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </>
+    )),
+    ...(answerKey && questions.length > 0 ? [(
+      <>
+        <SheetHeader title="答案 (老师用)" />
+        <div className="grid grid-cols-4 gap-3 text-xl font-bold text-gray-600">
+          {questions.map((question, i) => (
+            <span key={i}>
+              {i + 1}. <span className="font-pinyin font-black">{worksheetText(question.answer)}</span>
+            </span>
+          ))}
+        </div>
+      </>
+    )] : []),
+  ];
+
+  const renderBlendingTable = (table: BlendingTable) => (
+    <>
+      <SheetHeader title="拼一拼，读一读" />
+      <table className="w-full border-collapse text-center font-pinyin">
+        <thead>
+          <tr>
+            <th className="border-2 border-gray-300 p-2 text-gray-400 text-base">声母 \ 韵母</th>
+            {table.finals.map(final => (
+              <th key={final} className="border-2 border-gray-300 p-2 text-2xl font-black text-gray-700 bg-gray-50">{final}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.initials.map((initial, row) => (
+            <tr key={initial}>
+              <th className="border-2 border-gray-300 p-2 text-2xl font-black text-gray-700 bg-gray-50">{initial}</th>
+              {table.cells[row].map((syllable, col) => (
+                <td
+                  key={col}
+                  className={`border-2 border-gray-300 h-[16mm] text-2xl font-bold ${syllable === null ? 'bg-gray-100 text-gray-300' : 'text-gray-700'}`}
+                >
+                  {syllable === null ? '×' : blankCells ? '' : syllable}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+
+  const pages: React.ReactNode[] =
+    kind === WorksheetKind.FLASHCARDS ? renderFlashcards()
+    : kind === WorksheetKind.TRACING ? renderTracing()
+    : kind === WorksheetKind.LISTENING ? renderListening()
+    : tables.map(renderBlendingTable);
+
+  const renderPages = () => pages.map((page, i) => (
+    <div key={i} className="worksheet-page">{page}</div>
+  ));
+
+  const emptyHint = items.length === 0
+    ? '先选几个拼音，或者在下面输入音节'
+    : kind === WorksheetKind.BLENDING && tables.length === 0
+      ? '拼读表要至少选一个声母和一个韵母'
+      : null;
+
+  const section = (title: string, content: React.ReactNode) => (
+    <div className="mb-6">
+      <div className="text-sm font-bold text-gray-400 mb-2">{title}</div>
+      {content}
+    </div>
+  );
+
+  const chip = (active: boolean) =>
+    `px-4 py-1.5 rounded-full font-black transition-all ${active ? 'bg-indigo-400 text-white shadow-md' : 'bg-white text-indigo-500 hover:bg-gray-50'}`;
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-5xl mx-auto p-4 md:p-8 pb-24">
+      <style>{`
+        .worksheet-page {
+          width: 210mm;
+          height: 297mm;
+          padding: 14mm 15mm;
+          box-sizing: border-box;
+          overflow: hidden;
+          background: white;
+          font-family: 'ZCOOL KuaiLe', 'Nunito', sans-serif;
+          -webkit-print-color-adjust: exact;
+          print-color-adjust: exact;
+        }
+        @media screen {
+          .worksheet-page { margin: 0 auto 24px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1); }
+        }
+        @media print {
+          @page { size: A4; margin: 0; }
+          #root { display: none !important; }
+          body { background: none !important; }
+          .worksheet-page { break-after: page; }
+          .worksheet-page:last-child { break-after: auto; }
+        }
+      `}</style>
+
+      <div className="w-full flex justify-between items-center mb-6">
+        <button
+          onClick={onBack}
+          className="bg-white border-b-4 border-gray-200 active:border-b-0 active:translate-y-1 text-pink-500 font-black px-6 py-2 rounded-full shadow-sm hover:bg-pink-50 transition-all flex items-center gap-2"
+        >
+          <span>🔙</span> 返回
+        </button>
+        <h2 className="text-3xl md:text-4xl font-black text-indigo-500 drop-shadow-sm">打印练习纸 🖨️</h2>
+      </div>
+
+      <div className="w-full bg-white/80 backdrop-blur-sm rounded-3xl p-6 border-b-8 border-indigo-200 shadow-xl mb-8">
+        {section('练习纸类型', (
+          <div className="flex flex-wrap gap-2">
+            {KINDS.map(k => (
+              <button key={k.id} onClick={() => setKind(k.id)} className={chip(kind === k.id)}>{k.label}</button>
+            ))}
+          </div>
+        ))}
+
+        {section('从哪些拼音里选', (
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_OPTIONS.map(opt => (
+              <button key={opt.id} onClick={() => toggleCategory(opt.id)} className={chip(categories.includes(opt.id))}>
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        ))}
+
+        {section(
+          picked.length === 0 ? `全部 ${selectableItems.length} 个 (点选只用其中几个)` : `只用选中的 ${picked.length} 个`,
+          <>
+            <div className="grid grid-cols-6 sm:grid-cols-8 md:grid-cols-10 gap-2">
+              {selectableItems.map(item => (
+                <button
+                  key={item.char}
+                  onClick={() => togglePicked(item.char)}
+                  className={`rounded-xl py-1.5 font-black font-pinyin transition-all ${
+                    picked.includes(item.char) ? 'bg-indigo-400 text-white shadow-md scale-105' : 'bg-white text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {item.char}
+                </button>
+              ))}
+            </div>
+            {picked.length > 0 && (
+              <button onClick={() => setPicked([])} className="mt-2 text-sm font-bold text-gray-400">清除选择</button>
+            )}
+          </>
+        )}
+
+        {section('再加一些音节 (用空格隔开，可以写声调：mā má ma3 lv4)', (
+          <>
+            <input
+              value={customText}
+              onChange={(e) => setCustomText(e.target.value)}
+              placeholder="bà mā hǎo"
+              className="w-full font-bold font-pinyin rounded-full border-2 border-indigo-100 focus:border-indigo-300 px-4 py-2 outline-none"
+            />
+            {custom.invalid.length > 0 && (
+              <p className="mt-2 text-sm font-bold text-pink-400">看不懂这些音节：{custom.invalid.join('、')}</p>
+            )}
+          </>
+        ))}
+
+        {kind === WorksheetKind.LISTENING && section('听音圈一圈', (
+          <div className="flex flex-wrap items-center gap-2">
+            {OPTION_COUNTS.map(n => (
+              <button key={n} onClick={() => setOptionCount(n)} className={chip(optionCount === n)}>每题 {n} 个</button>
+            ))}
+            <button onClick={() => setAnswerKey(a => !a)} className={chip(answerKey)}>📝 附答案页</button>
+            <button onClick={() => setShuffleKey(k => k + 1)} className={chip(false)}>🔀 换一批</button>
+            {playingQuestion === null ? (
+              <button onClick={playPlaylist} disabled={questions.length === 0} className={`${chip(false)} disabled:opacity-40`}>
+                ▶ 播放听音 ({questions.length} 题)
+              </button>
+            ) : (
+              <button onClick={stopPlaylist} className={chip(true)}>⏹ 第 {playingQuestion + 1} 题</button>
+            )}
+          </div>
+        ))}
+
+        {kind === WorksheetKind.BLENDING && section('拼读表', (
+          <button onClick={() => setBlankCells(b => !b)} className={chip(blankCells)}>✏️ 格子留空，让孩子写</button>
+        ))}
+
+        <button
+          onClick={() => window.print()}
+          disabled={pages.length === 0}
+          className="text-white font-black text-xl px-10 py-3 rounded-full shadow-lg border-b-4 bg-indigo-400 hover:bg-indigo-500 border-indigo-600 active:border-b-0 active:translate-y-1 transition-all disabled:opacity-40"
+        >
+          🖨️ 打印 / 存为 PDF ({pages.length} 页)
+        </button>
+      </div>
+
+      {emptyHint ? (
+        <p className="text-xl font-bold text-gray-400">{emptyHint}</p>
+      ) : (
+        <div className="w-full overflow-x-auto">{renderPages()}</div>
+      )}
+
+      {/* The pages alone, outside the app, for the print dialog */}
+      {createPortal(<div className="hidden print:block">{renderPages()}</div>, document.body)}
+    </div>
+  );
+};
+
+export default WorksheetGenerator;
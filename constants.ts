@@ -1,6 +1,34 @@
-import { PinyinCategory, PinyinChar } from './types';
+import { ConfusablePair, ConfusionKind, PinyinCategory, PinyinChar, Tone } from './types';
+import { VOCABULARY } from './vocabulary';
 
-export const INITIALS: PinyinChar[] = [
+// The four main tones, in teaching order
+export const FOUR_TONES: Tone[] = [Tone.FIRST, Tone.SECOND, Tone.THIRD, Tone.FOURTH];
+
+// Four tones plus the neutral tone (mā má mǎ mà ma)
+export const ALL_TONES: Tone[] = [...FOUR_TONES, Tone.NEUTRAL];
+
+// Tone contour symbols, as printed above the tone buttons in textbooks
+export const TONE_SYMBOLS: Record<Tone, string> = {
+  [Tone.NEUTRAL]: '·',
+  [Tone.FIRST]: 'ˉ',
+  [Tone.SECOND]: 'ˊ',
+  [Tone.THIRD]: 'ˇ',
+  [Tone.FOURTH]: 'ˋ',
+};
+
+// Short labels shown on the cards
+export const CATEGORY_LABELS: Record<PinyinCategory, string> = {
+  [PinyinCategory.INITIALS]: '声母',
+  [PinyinCategory.FINALS]: '韵母',
+  [PinyinCategory.OVERALL]: '整体',
+  [PinyinCategory.CUSTOM]: '词卡',
+};
+
+// Attaches the picture words from vocabulary.ts to each item
+const withWords = (items: PinyinChar[]): PinyinChar[] =>
+  items.map(item => VOCABULARY[item.char] ? { ...item, words: VOCABULARY[item.char] } : item);
+
+export const INITIALS: PinyinChar[] = withWords([
   { char: 'b', category: PinyinCategory.INITIALS },
   { char: 'p', category: PinyinCategory.INITIALS },
   { char: 'm', category: PinyinCategory.INITIALS },
@@ -24,50 +52,103 @@ export const INITIALS: PinyinChar[] = [
   { char: 's', category: PinyinCategory.INITIALS },
   { char: 'y', category: PinyinCategory.INITIALS },
   { char: 'w', category: PinyinCategory.INITIALS },
-];
+]);
 
-export const FINALS: PinyinChar[] = [
-  { char: 'a', category: PinyinCategory.FINALS },
-  { char: 'o', category: PinyinCategory.FINALS },
-  { char: 'e', category: PinyinCategory.FINALS },
-  { char: 'i', category: PinyinCategory.FINALS },
-  { char: 'u', category: PinyinCategory.FINALS },
-  { char: 'ü', category: PinyinCategory.FINALS },
-  { char: 'ai', category: PinyinCategory.FINALS },
-  { char: 'ei', category: PinyinCategory.FINALS },
+export const FINALS: PinyinChar[] = withWords([
+  { char: 'a', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'o', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'e', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'i', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'u', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'ü', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'ai', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'ei', category: PinyinCategory.FINALS, tones: FOUR_TONES },
   { char: 'ui', category: PinyinCategory.FINALS },
-  { char: 'ao', category: PinyinCategory.FINALS },
-  { char: 'ou', category: PinyinCategory.FINALS },
+  { char: 'ao', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'ou', category: PinyinCategory.FINALS, tones: FOUR_TONES },
   { char: 'iu', category: PinyinCategory.FINALS },
   { char: 'ie', category: PinyinCategory.FINALS },
   { char: 'üe', category: PinyinCategory.FINALS },
-  { char: 'er', category: PinyinCategory.FINALS },
-  { char: 'an', category: PinyinCategory.FINALS },
-  { char: 'en', category: PinyinCategory.FINALS },
+  { char: 'er', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'an', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'en', category: PinyinCategory.FINALS, tones: FOUR_TONES },
   { char: 'in', category: PinyinCategory.FINALS },
   { char: 'un', category: PinyinCategory.FINALS },
   { char: 'ün', category: PinyinCategory.FINALS },
-  { char: 'ang', category: PinyinCategory.FINALS },
-  { char: 'eng', category: PinyinCategory.FINALS },
+  { char: 'ang', category: PinyinCategory.FINALS, tones: FOUR_TONES },
+  { char: 'eng', category: PinyinCategory.FINALS, tones: FOUR_TONES },
   { char: 'ing', category: PinyinCategory.FINALS },
   { char: 'ong', category: PinyinCategory.FINALS },
-];
+]);
 
-export const OVERALL: PinyinChar[] = [
-  { char: 'zhi', category: PinyinCategory.OVERALL },
-  { char: 'chi', category: PinyinCategory.OVERALL },
-  { char: 'shi', category: PinyinCategory.OVERALL },
-  { char: 'ri', category: PinyinCategory.OVERALL },
-  { char: 'zi', category: PinyinCategory.OVERALL },
-  { char: 'ci', category: PinyinCategory.OVERALL },
-  { char: 'si', category: PinyinCategory.OVERALL },
-  { char: 'yi', category: PinyinCategory.OVERALL },
-  { char: 'wu', category: PinyinCategory.OVERALL },
-  { char: 'yu', category: PinyinCategory.OVERALL },
-  { char: 'ye', category: PinyinCategory.OVERALL },
-  { char: 'yue', category: PinyinCategory.OVERALL },
-  { char: 'yuan', category: PinyinCategory.OVERALL },
-  { char: 'yin', category: PinyinCategory.OVERALL },
-  { char: 'yun', category: PinyinCategory.OVERALL },
-  { char: 'ying', category: PinyinCategory.OVERALL },
+export const OVERALL: PinyinChar[] = withWords([
+  { char: 'zhi', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'chi', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'shi', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'ri', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'zi', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'ci', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'si', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yi', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'wu', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yu', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'ye', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yue', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yuan', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yin', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'yun', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+  { char: 'ying', category: PinyinCategory.OVERALL, tones: FOUR_TONES },
+]);
+
+// Pairs children commonly mix up, by sound or by shape. Symmetric: a/b and b/a are the same pair.
+export const CONFUSABLE_PAIRS: ConfusablePair[] = [
+  // Mirror / look-alike letters
+  { a: 'b', b: 'd', kind: ConfusionKind.MIRROR, weight: 1 },
+  { a: 'p', b: 'q', kind: ConfusionKind.MIRROR, weight: 1 },
+  { a: 'b', b: 'p', kind: ConfusionKind.MIRROR, weight: 0.8 },
+  { a: 'd', b: 'q', kind: ConfusionKind.MIRROR, weight: 0.8 },
+  { a: 'm', b: 'n', kind: ConfusionKind.MIRROR, weight: 0.6 },
+  { a: 'f', b: 't', kind: ConfusionKind.MIRROR, weight: 0.6 },
+  { a: 'ie', b: 'ei', kind: ConfusionKind.MIRROR, weight: 1 },
+  { a: 'iu', b: 'ui', kind: ConfusionKind.MIRROR, weight: 1 },
+  { a: 'ie', b: 'üe', kind: ConfusionKind.MIRROR, weight: 0.7 },
+  { a: 'u', b: 'n', kind: ConfusionKind.MIRROR, weight: 0.5 },
+
+  // Front vs back nasals
+  { a: 'an', b: 'ang', kind: ConfusionKind.NASAL, weight: 1 },
+  { a: 'en', b: 'eng', kind: ConfusionKind.NASAL, weight: 1 },
+  { a: 'in', b: 'ing', kind: ConfusionKind.NASAL, weight: 1 },
+  { a: 'yin', b: 'ying', kind: ConfusionKind.NASAL, weight: 1 },
+  { a: 'un', b: 'ong', kind: ConfusionKind.NASAL, weight: 0.6 },
+
+  // Flat vs retroflex
+  { a: 'z', b: 'zh', kind: ConfusionKind.RETROFLEX, weight: 1 },
+  { a: 'c', b: 'ch', kind: ConfusionKind.RETROFLEX, weight: 1 },
+  { a: 's', b: 'sh', kind: ConfusionKind.RETROFLEX, weight: 1 },
+  { a: 'zi', b: 'zhi', kind: ConfusionKind.RETROFLEX, weight: 1 },
+  { a: 'ci', b: 'chi', kind: ConfusionKind.RETROFLEX, weight: 1 },
+  { a: 'si', b: 'shi', kind: ConfusionKind.RETROFLEX, weight: 1 },
+
+  // n vs l
+  { a: 'n', b: 'l', kind: ConfusionKind.N_L, weight: 1 },
+
+  // Other sound-alikes
+  { a: 'f', b: 'h', kind: ConfusionKind.PHONETIC, weight: 0.8 },
+  { a: 'r', b: 'l', kind: ConfusionKind.PHONETIC, weight: 0.6 },
+  { a: 'u', b: 'ü', kind: ConfusionKind.PHONETIC, weight: 0.8 },
+  { a: 'i', b: 'ü', kind: ConfusionKind.PHONETIC, weight: 0.6 },
+  { a: 'o', b: 'e', kind: ConfusionKind.PHONETIC, weight: 0.6 },
+  { a: 'o', b: 'ou', kind: ConfusionKind.PHONETIC, weight: 0.6 },
+  { a: 'ao', b: 'ou', kind: ConfusionKind.PHONETIC, weight: 0.6 },
+  { a: 'an', b: 'en', kind: ConfusionKind.PHONETIC, weight: 0.5 },
+  { a: 'e', b: 'er', kind: ConfusionKind.PHONETIC, weight: 0.5 },
+  { a: 'j', b: 'zh', kind: ConfusionKind.PHONETIC, weight: 0.5 },
+  { a: 'q', b: 'ch', kind: ConfusionKind.PHONETIC, weight: 0.5 },
+  { a: 'x', b: 'sh', kind: ConfusionKind.PHONETIC, weight: 0.5 },
+  { a: 'ye', b: 'yue', kind: ConfusionKind.PHONETIC, weight: 0.8 },
+  { a: 'yin', b: 'yun', kind: ConfusionKind.PHONETIC, weight: 0.7 },
+  { a: 'yi', b: 'yu', kind: ConfusionKind.PHONETIC, weight: 0.7 },
 ];
+
+// Avatars a child can pick for their profile
+export const PROFILE_AVATARS = ['🍭', '🍬', '🧁', '🍩', '🍪', '🍓', '🍰', '🦄', '🐰', '🐱', '🐼', '🐻', '🦊', '🐥', '🌈', '⭐'];
@@ -0,0 +1,19 @@
+import { LessonUnit } from './types';
+
+// Pinyin lessons of the first-grade textbook (部编版一年级上册), in teaching order.
+// Whole syllables are taught alongside the letters they are built from.
+export const LESSON_UNITS: LessonUnit[] = [
+  { id: 'a-o-e', title: 'a o e', icon: '🍬', items: ['a', 'o', 'e'] },
+  { id: 'i-u-v', title: 'i u ü y w', icon: '🍭', items: ['i', 'u', 'ü', 'y', 'w', 'yi', 'wu', 'yu'] },
+  { id: 'b-p-m-f', title: 'b p m f', icon: '🧁', items: ['b', 'p', 'm', 'f'] },
+  { id: 'd-t-n-l', title: 'd t n l', icon: '🍩', items: ['d', 't', 'n', 'l'] },
+  { id: 'g-k-h', title: 'g k h', icon: '🍪', items: ['g', 'k', 'h'] },
+  { id: 'j-q-x', title: 'j q x', icon: '🍫', items: ['j', 'q', 'x'] },
+  { id: 'z-c-s', title: 'z c s', icon: '🍡', items: ['z', 'c', 's', 'zi', 'ci', 'si'] },
+  { id: 'zh-ch-sh-r', title: 'zh ch sh r', icon: '🍰', items: ['zh', 'ch', 'sh', 'r', 'zhi', 'chi', 'shi', 'ri'] },
+  { id: 'ai-ei-ui', title: 'ai ei ui', icon: '🍮', items: ['ai', 'ei', 'ui'] },
+  { id: 'ao-ou-iu', title: 'ao ou iu', icon: '🍯', items: ['ao', 'ou', 'iu'] },
+  { id: 'ie-ve-er', title: 'ie üe er', icon: '🍓', items: ['ie', 'üe', 'er', 'ye', 'yue', 'yuan'] },
+  { id: 'an-en-in-un-vn', title: 'an en in un ün', icon: '🍒', items: ['an', 'en', 'in', 'un', 'ün', 'yin', 'yun'] },
+  { id: 'ang-eng-ing-ong', title: 'ang eng ing ong', icon: '🎂', items: ['ang', 'eng', 'ing', 'ong', 'ying'] },
+];
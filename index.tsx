@@ -1,6 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+// Self-hosted fonts (bundled so the app works offline)
+import '@fontsource/nunito/400.css';
+import '@fontsource/nunito/700.css';
+import '@fontsource/nunito/900.css';
+import '@fontsource/zcool-kuaile/400.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
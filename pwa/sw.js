@@ -0,0 +1,61 @@
+// Candy Pinyin service worker.
+// This file is a template: the build (see vite.config.ts) fills in the cache version
+// and the list of files to precache, then emits it as /sw.js.
+
+const CACHE_PREFIX = 'candy-pinyin-';
+const CACHE_NAME = `${CACHE_PREFIX}__BUILD_VERSION__`;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+// Install: download the whole app (shell, fonts, every audio clip) up front.
+// The new worker then waits until the page asks it to take over (see "update available").
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS))
+  );
+});
+
+// Activate: drop caches from older builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Fetch: cache first, network as fallback. Page navigations always get the cached app shell.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match('/index.html').then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+      return fetch(request).then((response) => {
+        // Keep anything else we fetched (e.g. files added after this build) for next time offline
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
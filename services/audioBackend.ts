@@ -0,0 +1,33 @@
+import { Tone } from '../types';
+
+/** One thing to say: a syllable (optionally with a tone) and its clip name under /audio. */
+export interface AudioRequest {
+  pinyin: string;
+  tone?: Tone;
+  clipName: string; // e.g. 'lv3' for lü + Tone.THIRD
+  text?: string;    // Hanzi for whole words, which speech engines read better than pinyin
+}
+
+/** A sound that has started playing. */
+export interface PlaybackHandle {
+  duration: number;      // Seconds, already adjusted for the playback rate
+  ended: Promise<void>;  // Resolves on the real end of playback, or right after stop()
+  stop: () => void;
+}
+
+/**
+ * A way of turning pinyin into sound. audioService tries registered backends in
+ * priority order and falls through to the next one when a backend cannot play a request.
+ */
+export interface AudioBackend {
+  id: string;
+  priority: number; // Lower is tried first
+  // Whether this browser can use the backend at all (checked on every play; keep it cheap)
+  isSupported: () => boolean;
+  // Optional per-request check, e.g. skip clips already known to be missing
+  canPlay?: (request: AudioRequest) => boolean;
+  // Starts playback at the given rate (1 = normal, 0.5 = slow motion); resolves once sound has started
+  play: (request: AudioRequest, rate: number) => Promise<PlaybackHandle>;
+  // Optional cache warming; failures are ignored by the caller
+  preload?: (request: AudioRequest) => Promise<void>;
+}
@@ -0,0 +1,212 @@
+// Audio cache building blocks used by audioService:
+// - An in-memory LRU with a byte budget (decoded buffers, object URLs).
+// - A persistent raw-clip store on the Cache API, with its own LRU byte budget.
+
+// --- In-memory LRU ---
+
+export interface LruCache<V> {
+  get: (key: string) => V | undefined;
+  set: (key: string, value: V) => void;
+  has: (key: string) => boolean;
+  delete: (key: string) => void;
+  clear: () => void;
+  setMaxBytes: (maxBytes: number) => void;
+  readonly totalBytes: number;
+}
+
+interface LruOptions<V> {
+  maxBytes: number;
+  sizeOf: (value: V) => number;
+  onEvict?: (key: string, value: V) => void; // e.g. revoke an object URL
+}
+
+/**
+ * Creates a byte-budgeted LRU cache.
+ * Map iteration order is insertion order, so re-inserting on every hit keeps the
+ * least recently used entry first in line for eviction.
+ */
+export function createLruCache<V>({ maxBytes, sizeOf, onEvict }: LruOptions<V>): LruCache<V> {
+  const entries = new Map<string, { value: V; size: number }>();
+  let budget = maxBytes;
+  let total = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    total -= entry.size;
+    onEvict?.(key, entry.value);
+  };
+
+  const evict = () => {
+    // Always keep the newest entry, even if it alone is over budget
+    while (total > budget && entries.size > 1) {
+      remove(entries.keys().next().value as string);
+    }
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      remove(key);
+      const size = sizeOf(value);
+      entries.set(key, { value, size });
+      total += size;
+      evict();
+    },
+    has: (key) => entries.has(key),
+    delete: remove,
+    clear() {
+      [...entries.keys()].forEach(remove);
+    },
+    setMaxBytes(newMax) {
+      budget = newMax;
+      evict();
+    },
+    get totalBytes() {
+      return total;
+    },
+  };
+}
+
+// --- Persistent raw clips (Cache API) ---
+
+// Not prefixed with "candy-pinyin-": the service worker deletes those caches on every new build.
+// Named after the audio contents instead, so only a change to the recordings retires it.
+const PERSISTENT_CACHE_PREFIX = 'candy-audio-';
+const PERSISTENT_CACHE_NAME = `${PERSISTENT_CACHE_PREFIX}${__AUDIO_VERSION__}`;
+
+// Prefix for LocalStorage keys
+const LOCAL_STORAGE_PREFIX = 'candy_pinyin_cache_v1_';
+const INDEX_KEY = `${LOCAL_STORAGE_PREFIX}index`;
+
+// clipName -> size and last use, to pick eviction victims without reading the cache
+type PersistentIndex = Record<string, { size: number; lastUsed: number }>;
+
+let persistentMaxBytes = 20 * 1024 * 1024;
+
+const clipRequest = (clipName: string) => new Request(`/audio/${clipName}.mp3`);
+const clipNameOf = (request: Request) =>
+  decodeURIComponent(new URL(request.url).pathname).replace(/^\/audio\//, '').replace(/\.mp3$/, '');
+
+function loadIndex(): PersistentIndex {
+  try {
+    return JSON.parse(localStorage.getItem(INDEX_KEY) ?? '{}') as PersistentIndex;
+  } catch {
+    return {};
+  }
+}
+
+function saveIndex(index: PersistentIndex) {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  } catch (e) {
+    console.warn("Could not save audio cache index:", e);
+  }
+}
+
+const hasCacheApi = () => typeof caches !== 'undefined';
+
+let cacheReady: Promise<Cache> | null = null;
+
+/**
+ * Opens the clip cache. The first call deletes caches left by builds with other audio and
+ * makes the index match what the cache really holds, so the byte budget cannot drift.
+ */
+function openPersistentCache(): Promise<Cache> {
+  if (cacheReady) return cacheReady;
+
+  const opening = (async () => {
+    const stale = (await caches.keys())
+      .filter(name => name.startsWith(PERSISTENT_CACHE_PREFIX) && name !== PERSISTENT_CACHE_NAME);
+    await Promise.all(stale.map(name => caches.delete(name)));
+
+    const cache = await caches.open(PERSISTENT_CACHE_NAME);
+    const index = loadIndex();
+    const reconciled: PersistentIndex = {};
+    for (const request of await cache.keys()) {
+      const clipName = clipNameOf(request);
+      // A clip without an index entry can never be evicted; drop it rather than guess its size
+      if (index[clipName]) reconciled[clipName] = index[clipName];
+      else await cache.delete(request);
+    }
+    saveIndex(reconciled);
+    return cache;
+  })();
+
+  // Allow a retry after a failure (e.g. storage blocked in private mode)
+  cacheReady = opening;
+  opening.catch(() => {
+    if (cacheReady === opening) cacheReady = null;
+  });
+  return opening;
+}
+
+export const setPersistentMaxBytes = (maxBytes: number) => {
+  persistentMaxBytes = maxBytes;
+  evictPersisted().catch(e => console.warn("Audio cache eviction failed:", e));
+};
+
+/**
+ * Reads a clip saved by an earlier visit. Resolves undefined on a miss
+ * (or when the Cache API is unavailable, e.g. insecure contexts).
+ */
+export async function readPersistedClip(clipName: string): Promise<ArrayBuffer | undefined> {
+  if (!hasCacheApi()) return undefined;
+  try {
+    const cache = await openPersistentCache();
+    const response = await cache.match(clipRequest(clipName));
+    if (!response) return undefined;
+
+    const index = loadIndex();
+    const buffer = await response.arrayBuffer();
+    index[clipName] = { size: buffer.byteLength, lastUsed: Date.now() };
+    saveIndex(index);
+    return buffer;
+  } catch (e) {
+    console.warn("Audio cache read failed:", e);
+    return undefined;
+  }
+}
+
+/**
+ * Saves a clip for later visits, evicting the least recently used clips over budget.
+ */
+export async function persistClip(clipName: string, buffer: ArrayBuffer): Promise<void> {
+  if (!hasCacheApi()) return;
+  try {
+    const cache = await openPersistentCache();
+    await cache.put(clipRequest(clipName), new Response(buffer, { headers: { 'Content-Type': 'audio/mpeg' } }));
+
+    const index = loadIndex();
+    index[clipName] = { size: buffer.byteLength, lastUsed: Date.now() };
+    saveIndex(index);
+    await evictPersisted();
+  } catch (e) {
+    console.warn("Audio cache write failed:", e);
+  }
+}
+
+async function evictPersisted(): Promise<void> {
+  if (!hasCacheApi()) return;
+  // Opened first so the index has been reconciled before we trust its sizes
+  const cache = await openPersistentCache();
+  const index = loadIndex();
+  const byAge = Object.entries(index).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  let total = byAge.reduce((sum, [, meta]) => sum + meta.size, 0);
+  if (total <= persistentMaxBytes) return;
+
+  for (const [clipName, meta] of byAge) {
+    if (total <= persistentMaxBytes) break;
+    await cache.delete(clipRequest(clipName));
+    delete index[clipName];
+    total -= meta.size;
+  }
+  saveIndex(index);
+}
@@ -0,0 +1,576 @@
+import { Tone, VocabWord } from '../types';
+import { parseToneMark } from '../utils/pinyin';
+import { AudioBackend, AudioRequest, PlaybackHandle } from './audioBackend';
+import { createLruCache, persistClip, readPersistedClip, setPersistentMaxBytes } from './audioCache';
+import { createMockAudioBackend } from './mockAudioBackend';
+import { speechCharacterFor, speechSynthesisBackend } from './speechBackend';
+import { hasVoiceClip, onVoiceClipsChange, readVoiceClip } from './voiceClipService';
+
+// Default byte budgets (see configureAudioCache)
+const DEFAULT_MEMORY_BYTES = 24 * 1024 * 1024;     // Per in-memory cache
+const DEFAULT_PERSISTENT_BYTES = 20 * 1024 * 1024; // Raw clips kept across reloads
+
+// Caches (LRU, byte-budgeted)
+const audioBufferCache = createLruCache<AudioBuffer>({ // For Web Audio (Non-iOS)
+  maxBytes: DEFAULT_MEMORY_BYTES,
+  sizeOf: (buffer) => buffer.length * buffer.numberOfChannels * 4, // Float32 samples
+});
+const audioUrlCache = createLruCache<{ url: string; size: number }>({ // For HTML5 Audio (iOS)
+  maxBytes: DEFAULT_MEMORY_BYTES,
+  sizeOf: (entry) => entry.size,
+  onEvict: (_clipName, entry) => URL.revokeObjectURL(entry.url),
+});
+const pendingRequests = new Map<string, Promise<ArrayBuffer>>(); // Raw Data Promise
+const missingClips = new Set<string>(); // Clips the server lacks or that would not decode, skipped until reload
+
+// A clip the teacher re-recorded or deleted must not be served from the caches
+onVoiceClipsChange(changed => changed.forEach(clipName => {
+  audioBufferCache.delete(clipName);
+  audioUrlCache.delete(clipName);
+  missingClips.delete(clipName);
+}));
+
+// Clips shipped under /audio, as listed at build time
+const bundledClips = new Set(__AUDIO_CLIPS__);
+
+// Recorded by the teacher, or a clip shipped under /audio that has not failed to load
+const isClipAvailable = (clipName: string) =>
+  hasVoiceClip(clipName) || (bundledClips.has(clipName) && !missingClips.has(clipName));
+
+// Static hosts often answer unknown paths with index.html (SPA fallback) and a 200,
+// so only a response that looks like audio counts as the clip
+const isAudioResponse = (response: Response) => {
+  const type = response.headers.get('Content-Type') ?? '';
+  return type === '' || type.startsWith('audio/') || type.startsWith('application/octet-stream');
+};
+
+/**
+ * Adjusts cache budgets in bytes. Shrinking a budget evicts immediately.
+ */
+export const configureAudioCache = ({ memoryBytes, persistentBytes }: { memoryBytes?: number; persistentBytes?: number }) => {
+  if (memoryBytes !== undefined) {
+    audioBufferCache.setMaxBytes(memoryBytes);
+    audioUrlCache.setMaxBytes(memoryBytes);
+  }
+  if (persistentBytes !== undefined) setPersistentMaxBytes(persistentBytes);
+};
+setPersistentMaxBytes(DEFAULT_PERSISTENT_BYTES);
+
+// AudioContext Singleton (Lazy load); shared with the microphone recorder
+let audioCtx: AudioContext | null = null;
+
+export function getAudioContext(): AudioContext {
+  if (!audioCtx) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    audioCtx = new AudioContextClass();
+  }
+  return audioCtx;
+}
+
+// --- Platform Detection ---
+const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || 
+              (navigator.userAgent.includes("Mac") && "ontouchend" in document);
+
+// --- iOS Silent Switch Helper ---
+const SILENT_WAV_BASE64 = "data:audio/wav;base64,UklGRigAAABXQVZFZm10IBIAAAABAAEARKwAAIhYAQACABAAAABkYXRhAgAAAAEA";
+let isAudioUnlocked = false;
+
+export const unlockAudio = () => {
+  // 1. Always try to resume AudioContext (Good practice for all platforms)
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') {
+    ctx.resume().catch(() => {});
+  }
+
+  // 2. iOS-specific "Silent Switch Bypass" hack
+  // Only play the silent audio file on iOS to wake up the media session
+  if (!isIOS) return;
+  if (isAudioUnlocked) return;
+
+  const audio = new Audio(SILENT_WAV_BASE64);
+  audio.play().then(() => {
+    isAudioUnlocked = true;
+    console.log("Audio unlocked (iOS)");
+  }).catch(() => {
+    // Interaction might not be sufficient yet
+  });
+};
+
+/**
+ * Maps a pinyin syllable (and optional tone) to its clip name under /audio.
+ * - ü is written as v in filenames (lü -> lv).
+ * - Tones 1-4 append the tone number (ma + 3 -> ma3); neutral/undefined uses the bare clip.
+ */
+function getClipName(pinyin: string, tone?: Tone): string {
+  const filename = pinyin.replace(/ü/g, 'v');
+  return tone ? `${filename}${tone}` : filename;
+}
+
+/**
+ * Shared logic to fetch audio data as ArrayBuffer.
+ * The teacher's own recordings come first, then the persistent clip cache (Cache API),
+ * then /audio. Handles deduplication (pendingRequests).
+ */
+async function fetchAudioData(clipName: string): Promise<ArrayBuffer> {
+  // Return existing promise if already fetching
+  if (pendingRequests.has(clipName)) {
+    const buffer = await pendingRequests.get(clipName)!;
+    return buffer.slice(0);
+  }
+
+  const promise = (async () => {
+    const recorded = await readVoiceClip(clipName);
+    if (recorded) return recorded.arrayBuffer();
+
+    const persisted = await readPersistedClip(clipName);
+    if (persisted) return persisted;
+
+    const response = await fetch(`/audio/${clipName}.mp3`);
+    if (response.status === 404 || (response.ok && !isAudioResponse(response))) missingClips.add(clipName);
+    if (!response.ok || missingClips.has(clipName)) throw new Error(`Audio not found: ${clipName}`);
+    const buffer = await response.arrayBuffer();
+    persistClip(clipName, buffer.slice(0)); // Fire and forget
+    return buffer;
+  })();
+
+  pendingRequests.set(clipName, promise);
+
+  try {
+    const buffer = await promise;
+    return buffer.slice(0); // Return copy
+  } finally {
+    // Keep promise in map for a short while? No, remove immediately to free memory,
+    // relying on the specialized caches (buffer/url) instead.
+    pendingRequests.delete(clipName);
+  }
+}
+
+// Object URL for a clip, created once and kept in the LRU
+async function getAudioUrl(clipName: string): Promise<string> {
+  const cached = audioUrlCache.get(clipName);
+  if (cached) return cached.url;
+
+  // The teacher's recording keeps its own type (webm, ogg or mp4, depending on the recording browser)
+  const blob = await readVoiceClip(clipName)
+    ?? new Blob([await fetchAudioData(clipName)], { type: 'audio/mpeg' });
+  const url = URL.createObjectURL(blob);
+  audioUrlCache.set(clipName, { url, size: blob.size });
+  return url;
+}
+
+/**
+ * Strategy 1: HTML5 Audio (Best for iOS)
+ * - Respects the hardware mute switch better on some configurations.
+ * - Simpler for single-shot playback on iOS Safari.
+ * - Keeps the pitch when slowed down (preservesPitch), so slow motion still sounds like the tone.
+ */
+async function playWithHtml5Audio(clipName: string, rate: number): Promise<PlaybackHandle> {
+  try {
+    return await playAudioUrl(await getAudioUrl(clipName), rate);
+  } catch (e) {
+    // An error event means the element could not load or decode the clip (autoplay blocks reject with a DOMException)
+    if (e instanceof Event) missingClips.add(clipName);
+    throw e;
+  }
+}
+
+/** Plays any audio URL through HTML5 Audio, e.g. a recording the teacher uploaded. */
+export function playAudioUrl(url: string, rate: number): Promise<PlaybackHandle> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio(url);
+    audio.volume = 1.0;
+    audio.playbackRate = rate;
+
+    let finish: () => void = () => {};
+    const ended = new Promise<void>(done => { finish = done; });
+    audio.addEventListener('ended', () => finish());
+    
+    const onLoadedMetadata = () => {
+      const duration = (audio.duration || 1.0) / rate;
+      audio.play()
+        .then(() => resolve({
+          duration,
+          ended,
+          stop: () => {
+            audio.pause();
+            finish();
+          },
+        }))
+        .catch(e => {
+            console.warn("iOS Autoplay prevented:", e);
+            finish();
+            reject(e);
+        });
+    };
+
+    audio.addEventListener('loadedmetadata', onLoadedMetadata);
+    audio.addEventListener('error', (e) => {
+      finish();
+      reject(e);
+    });
+    
+    // Fallback: If metadata loads very fast or is already cached by browser
+    if (audio.readyState >= 1) {
+        onLoadedMetadata();
+    } else {
+        audio.load();
+    }
+  });
+}
+
+// Decoded AudioBuffer for a clip, kept in the LRU
+async function getAudioBuffer(clipName: string): Promise<AudioBuffer> {
+  const cached = audioBufferCache.get(clipName);
+  if (cached) return cached;
+
+  const rawData = await fetchAudioData(clipName);
+  // decodeAudioData detaches/consumes the ArrayBuffer, so we MUST ensure we pass a slice
+  // if we wanted to reuse the buffer (though here fetchAudioData already returns a slice).
+  let buffer: AudioBuffer;
+  try {
+    buffer = await getAudioContext().decodeAudioData(rawData);
+  } catch (e) {
+    missingClips.add(clipName); // Not playable audio; let the next backend take it
+    throw e;
+  }
+  audioBufferCache.set(clipName, buffer);
+  return buffer;
+}
+
+/**
+ * Decoded mono samples of a recorded clip, e.g. as the reference for pitch comparison.
+ * Rejects when the clip has not been recorded (callers fall back to a tone template).
+ */
+export const getClipSamples = async (pinyin: string, tone?: Tone): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const clipName = getClipName(pinyin, tone);
+  if (!isClipAvailable(clipName)) throw new Error(`Audio not found: ${clipName}`);
+  const buffer = await getAudioBuffer(clipName);
+  return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+};
+
+/**
+ * Strategy 2: Web Audio API (Best for Android/Desktop)
+ * - Low latency.
+ * - High concurrency support (sound effects).
+ */
+async function playWithWebAudio(clipName: string, rate: number): Promise<PlaybackHandle> {
+  const ctx = getAudioContext();
+  
+  if (ctx.state === 'suspended') {
+    await ctx.resume();
+  }
+
+  const buffer = await getAudioBuffer(clipName);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = rate;
+  source.connect(ctx.destination);
+
+  let finish: () => void = () => {};
+  const ended = new Promise<void>(done => { finish = done; });
+  source.onended = () => finish();
+  source.start(0);
+
+  return {
+    duration: buffer.duration / rate,
+    ended,
+    stop: () => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      finish();
+    },
+  };
+}
+
+/**
+ * Recorded clips (the teacher's own, else the mp3s under /audio): HTML5 Audio on iOS, Web Audio elsewhere.
+ * Slowed-down playback always goes through HTML5 Audio: Web Audio's playbackRate
+ * also lowers the pitch, which would bend the very tone the child is listening for.
+ */
+const staticClipBackend: AudioBackend = {
+  id: 'static',
+  priority: 0,
+  isSupported: () => typeof Audio !== 'undefined' || typeof AudioContext !== 'undefined',
+  canPlay: ({ clipName }) => isClipAvailable(clipName),
+  play: ({ clipName }, rate) => isIOS || rate !== 1
+    ? playWithHtml5Audio(clipName, rate)
+    : playWithWebAudio(clipName, rate),
+  preload: async ({ clipName }) => {
+    await (isIOS ? getAudioUrl(clipName) : getAudioBuffer(clipName));
+  },
+};
+
+// --- Backend Registry ---
+// Sorted by priority; playback walks the list until one backend succeeds
+const backends: AudioBackend[] = [];
+
+export const registerAudioBackend = (backend: AudioBackend) => {
+  unregisterAudioBackend(backend.id);
+  backends.push(backend);
+  backends.sort((a, b) => a.priority - b.priority);
+};
+
+export const unregisterAudioBackend = (id: string) => {
+  const index = backends.findIndex(b => b.id === id);
+  if (index !== -1) backends.splice(index, 1);
+};
+
+export const getAudioBackends = (): readonly AudioBackend[] => backends;
+
+// ?audio=mock swaps in the silent recording backend (UI checks, demos in a quiet room)
+if (new URLSearchParams(window.location.search).get('audio') === 'mock') {
+  registerAudioBackend(createMockAudioBackend());
+} else {
+  registerAudioBackend(staticClipBackend);
+  registerAudioBackend(speechSynthesisBackend);
+}
+
+/**
+ * Tone-marked pinyin (e.g. from a teacher's deck) finds the same clips as syllable + tone:
+ * 'huā' -> hua1, and a whole word 'mā ma' -> words/ma1ma.
+ */
+function toRequest(pinyin: string, tone?: Tone): AudioRequest {
+  if (tone === undefined && pinyin.includes(' ')) return { pinyin, clipName: wordClipName(pinyin) };
+  if (tone === undefined) {
+    const parsed = parseToneMark(pinyin);
+    if (parsed.tone !== Tone.NEUTRAL) return { pinyin: parsed.syllable, tone: parsed.tone, clipName: getClipName(parsed.syllable, parsed.tone) };
+  }
+  return { pinyin, tone, clipName: getClipName(pinyin, tone) };
+}
+
+// Word clips live under /audio/words, named by their tone-numbered syllables (bà ba -> words/ba4ba)
+const wordClipName = (pinyin: string) => `words/${pinyin.split(' ').map(marked => {
+  const { syllable, tone } = parseToneMark(marked);
+  return getClipName(syllable, tone);
+}).join('')}`;
+
+/** A picture word (爸爸 bà ba). Speech backends read the hanzi instead of the pinyin. */
+function toWordRequest(word: VocabWord): AudioRequest {
+  return { pinyin: word.pinyin, clipName: wordClipName(word.pinyin), text: word.hanzi };
+}
+
+/** The clip a syllable (mā or ma + tone) or a word (mā ma) plays from, e.g. to record it. */
+export const getClipNameFor = (pinyin: string, tone?: Tone): string => toRequest(pinyin, tone).clipName;
+
+/**
+ * Whether a real recording exists (shipped under /audio or recorded by the teacher), rather than
+ * only the speech synthesis fallback, which can't be trusted to say a lone toned syllable right.
+ */
+export const hasRecordedClip = (pinyin: string, tone?: Tone): boolean => {
+  const clipName = getClipNameFor(pinyin, tone);
+  return bundledClips.has(clipName) || hasVoiceClip(clipName);
+};
+
+/**
+ * Whether the syllable (in this tone) comes out clearly: a real recording, or a character speech
+ * synthesis reads as it (mǎ -> 马, ba -> 八). Speech reading the bare Latin "mǎ" does not count.
+ */
+export const hasClearAudio = (pinyin: string, tone?: Tone): boolean =>
+  hasRecordedClip(pinyin, tone) || speechCharacterFor(pinyin, tone) !== undefined;
+
+// Backends able to handle this request on this device, best first
+const candidatesFor = (request: AudioRequest) =>
+  backends.filter(b => b.isSupported() && (b.canPlay?.(request) ?? true));
+
+// Tries each capable backend in turn (e.g. speech synthesis when a clip is missing)
+async function startPlayback(request: AudioRequest, rate: number): Promise<PlaybackHandle> {
+  let lastError: unknown = new Error(`No audio backend can play: ${request.clipName}`);
+
+  for (const backend of candidatesFor(request)) {
+    try {
+      return await backend.play(request, rate);
+    } catch (error) {
+      console.warn(`Audio backend "${backend.id}" failed for ${request.clipName}:`, error);
+      lastError = error;
+    }
+  }
+
+  console.error("Error playing Pinyin audio:", lastError);
+  throw lastError;
+}
+
+// --- Playback Controller ---
+// One clip sounds at a time. Clips wait in a queue; stopAudio() silences the current
+// clip, drops the queue and settles every pending promise.
+
+/** A clip that has started playing. */
+export interface Playback {
+  duration: number;         // Seconds, at the rate it is playing
+  ended: Promise<boolean>;  // true when it played to the end, false when it was stopped
+}
+
+export interface PlayOptions {
+  rate?: number;    // Overrides the default rate (see setPlaybackRate)
+  gapMs?: number;   // Silence after this clip before the next queued one starts
+  onStart?: (playback: Playback) => void;
+}
+
+interface QueueEntry {
+  request: AudioRequest;
+  options: PlayOptions;
+  resolve: (playback: Playback) => void;
+  reject: (error: unknown) => void;
+}
+
+const STOPPED: Playback = { duration: 0, ended: Promise.resolve(false) };
+
+let defaultRate = 1;
+let queue: QueueEntry[] = [];
+let currentHandle: PlaybackHandle | null = null;
+let cancelGap: (() => void) | null = null;
+// Bumped by stopAudio(); a drain loop from an older generation quietly gives up
+let generation = 0;
+let drainingGeneration: number | null = null;
+
+/** Sets the rate for all later clips: 1 is normal, 0.5 is slow motion. */
+export const setPlaybackRate = (rate: number) => {
+  defaultRate = rate;
+};
+
+export const getPlaybackRate = () => defaultRate;
+
+export const stopAudio = () => {
+  generation++;
+  queue.forEach(entry => entry.resolve(STOPPED));
+  queue = [];
+  cancelGap?.();
+  currentHandle?.stop();
+  currentHandle = null;
+};
+
+// A pause that stopAudio() can cut short
+function gap(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = window.setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      cancelGap = null;
+      resolve();
+    }
+    cancelGap = done;
+  });
+}
+
+async function drainQueue() {
+  if (drainingGeneration === generation) return;
+  const myGeneration = generation;
+  drainingGeneration = myGeneration;
+
+  while (queue.length > 0 && myGeneration === generation) {
+    const entry = queue.shift()!;
+    let handle: PlaybackHandle;
+    try {
+      handle = await startPlayback(entry.request, entry.options.rate ?? defaultRate);
+    } catch (error) {
+      entry.reject(error);
+      continue;
+    }
+
+    if (myGeneration !== generation) {
+      // Stopped while the clip was still loading
+      handle.stop();
+      entry.resolve(STOPPED);
+      break;
+    }
+
+    currentHandle = handle;
+    const playback: Playback = {
+      duration: handle.duration,
+      ended: handle.ended.then(() => myGeneration === generation),
+    };
+    entry.resolve(playback);
+    entry.options.onStart?.(playback);
+
+    await handle.ended;
+    if (currentHandle === handle) currentHandle = null;
+    if (entry.options.gapMs && myGeneration === generation) await gap(entry.options.gapMs);
+  }
+
+  if (drainingGeneration === myGeneration) drainingGeneration = null;
+}
+
+const toTargetRequest = (target: PreloadTarget): AudioRequest => {
+  if (typeof target === 'string') return toRequest(target);
+  if ('word' in target) return toWordRequest(target.word);
+  return toRequest(target.pinyin, target.tone);
+};
+
+/**
+ * Queues a clip behind whatever is playing. Resolves when it starts playing
+ * (or with an already-ended playback if it is stopped first); rejects if nothing could play it.
+ */
+export const enqueueAudio = (target: PreloadTarget, options: PlayOptions = {}): Promise<Playback> =>
+  new Promise((resolve, reject) => {
+    queue.push({ request: toTargetRequest(target), options, resolve, reject });
+    drainQueue();
+  });
+
+/**
+ * Main Entry Point
+ * Stops whatever is playing and plays this syllable now.
+ * Pass a tone to play the tone-specific clip (e.g. 'ma' + Tone.FIRST -> ma1.mp3).
+ * Falls back to the next backend (e.g. speech synthesis) when a clip is missing or fails to play.
+ */
+export const playPinyinAudio = (pinyin: string, tone?: Tone, options: PlayOptions = {}): Promise<Playback> => {
+  stopAudio();
+  return enqueueAudio({ pinyin, tone }, options);
+};
+
+/** Like playPinyinAudio, for a picture word (爸爸). */
+export const playWordAudio = (word: VocabWord, options: PlayOptions = {}): Promise<Playback> => {
+  stopAudio();
+  return enqueueAudio({ word }, options);
+};
+
+/**
+ * Plays clips one after another with a pause between them (b ... a ... ba).
+ * onStep reports which clip is sounding. Clips that fail to play are skipped.
+ * Resolves true when the whole sequence finished, false when it was stopped.
+ */
+export const playSequence = async (
+  targets: PreloadTarget[],
+  { gapMs = 400, rate, onStep }: { gapMs?: number; rate?: number; onStep?: (index: number) => void } = {}
+): Promise<boolean> => {
+  stopAudio();
+  const myGeneration = generation;
+
+  const steps = targets.map((target, index) =>
+    enqueueAudio(target, {
+      rate,
+      gapMs: index < targets.length - 1 ? gapMs : 0,
+      onStart: () => onStep?.(index),
+    })
+      .then(playback => playback.ended)
+      .catch(error => {
+        console.error("Sequence step failed:", error);
+        return true;
+      })
+  );
+
+  await Promise.all(steps);
+  return myGeneration === generation;
+};
+
+// A syllable ('ba'), a syllable in a tone, or a picture word
+export type PreloadTarget = string | { pinyin: string; tone?: Tone } | { word: VocabWord };
+
+/**
+ * Warms the caches for clips that are about to be played, so the first tap is instant.
+ * Missing clips are ignored (and remembered, so playback goes straight to the fallback);
+ * call it freely with upcoming items.
+ */
+export const preloadPinyin = async (targets: PreloadTarget[]): Promise<void> => {
+  const requests = new Map<string, AudioRequest>();
+  targets.forEach(t => {
+    const request = toTargetRequest(t);
+    requests.set(request.clipName, request);
+  });
+
+  await Promise.allSettled([...requests.values()].map(request =>
+    candidatesFor(request).find(b => b.preload)?.preload?.(request)
+  ));
+};
@@ -0,0 +1,59 @@
+import { LessonStep, LessonUnit, PinyinChar, UnitProgress } from '../types';
+import { FINALS, INITIALS, OVERALL } from '../constants';
+import { LESSON_UNITS } from '../curriculum';
+import { getProfileSetting, setProfileSetting } from './profileService';
+
+// First-try accuracy needed in a unit quiz to move on
+export const UNIT_PASS_ACCURACY = 0.8;
+
+// Questions in one unit quiz
+export const UNIT_QUIZ_LENGTH = 8;
+
+const PROGRESS_KEY = 'curriculum_progress';
+
+const EMPTY_PROGRESS: UnitProgress = { learned: false, quizBest: 0, memoryDone: false };
+
+const itemsByChar = new Map([...INITIALS, ...FINALS, ...OVERALL].map(item => [item.char, item]));
+
+/** The PinyinChars taught in a unit, in textbook order. */
+export const getUnitItems = (unit: LessonUnit): PinyinChar[] =>
+  unit.items.map(char => itemsByChar.get(char)).filter((item): item is PinyinChar => item !== undefined);
+
+/** Progress of every unit the active profile has started, keyed by unit id. */
+export const getCurriculumProgress = (): Record<string, UnitProgress> =>
+  getProfileSetting<Record<string, UnitProgress>>(PROGRESS_KEY, {});
+
+export const getUnitProgress = (unitId: string): UnitProgress =>
+  ({ ...EMPTY_PROGRESS, ...getCurriculumProgress()[unitId] });
+
+export const isUnitPassed = (progress: UnitProgress | undefined): boolean =>
+  !!progress && progress.learned && progress.quizBest >= UNIT_PASS_ACCURACY && progress.memoryDone;
+
+/** The first unit is always open; every other unit opens once the one before it is passed. */
+export const isUnitUnlocked = (index: number, progress: Record<string, UnitProgress>): boolean =>
+  index === 0 || isUnitPassed(progress[LESSON_UNITS[index - 1]?.id]);
+
+/** Steps open in order: learn first, the quiz once learned, memory once the quiz is passed. */
+export const isStepUnlocked = (step: LessonStep, progress: UnitProgress): boolean => {
+  switch (step) {
+    case LessonStep.LEARN: return true;
+    case LessonStep.QUIZ: return progress.learned;
+    case LessonStep.MEMORY: return progress.quizBest >= UNIT_PASS_ACCURACY;
+  }
+};
+
+/**
+ * Records a finished step. For the quiz, pass the first-try accuracy; only the best score is kept.
+ * Returns the unit's updated progress.
+ */
+export const completeLessonStep = (unitId: string, step: LessonStep, accuracy = 1): UnitProgress => {
+  const all = getCurriculumProgress();
+  const previous = { ...EMPTY_PROGRESS, ...all[unitId] };
+  const updated: UnitProgress = {
+    learned: previous.learned || step === LessonStep.LEARN,
+    quizBest: step === LessonStep.QUIZ ? Math.max(previous.quizBest, accuracy) : previous.quizBest,
+    memoryDone: previous.memoryDone || step === LessonStep.MEMORY,
+  };
+  setProfileSetting(PROGRESS_KEY, { ...all, [unitId]: updated });
+  return updated;
+};
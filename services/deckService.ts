@@ -0,0 +1,267 @@
+import { Deck, DeckEntry } from '../types';
+import { applyToneMark } from '../utils/pinyin';
+import { normalizeDeckPinyin, validateDeck } from '../utils/decks';
+import { AudioBackend, AudioRequest } from './audioBackend';
+import { playAudioUrl, registerAudioBackend } from './audioService';
+import { speechSynthesisBackend } from './speechBackend';
+import { hasVoiceClip } from './voiceClipService';
+
+// Decks belong to the teacher, not to a child profile, so they are shared by every profile.
+// The deck list lives in LocalStorage; recordings are too big for it and go to IndexedDB.
+const DECKS_KEY = 'candy_pinyin_decks';
+const DB_NAME = 'candy_pinyin_decks';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+
+// Marks files exported by this app, so an unrelated JSON file is rejected on import
+const EXPORT_FORMAT = 'candy-pinyin-deck';
+const EXPORT_VERSION = 1;
+
+/** A deck being edited: recordings are held as Blobs, keyed by the entry's pinyin. */
+export interface DeckDraft {
+  id?: string; // Unset until first saved
+  name: string;
+  entries: DeckEntry[];
+  recordings: Record<string, Blob>;
+}
+
+interface DeckExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  name: string;
+  entries: (DeckEntry & { recording?: string })[]; // Recordings as data: URLs
+}
+
+// --- Storage Helpers ---
+
+function loadDecks(): Deck[] {
+  try {
+    const raw = localStorage.getItem(DECKS_KEY);
+    if (raw) return JSON.parse(raw) as Deck[];
+  } catch (e) {
+    console.warn("Could not read decks:", e);
+  }
+  return [];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(RECORDINGS_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open (e.g. storage blocked in private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+const recordingKey = (deckId: string, pinyin: string) => `${deckId}:${pinyin}`;
+
+async function withRecordings<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RECORDINGS_STORE, mode);
+    const request = run(tx.objectStore(RECORDINGS_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const getRecording = (deckId: string, pinyin: string) =>
+  withRecordings<Blob | undefined>('readonly', store => store.get(recordingKey(deckId, pinyin)));
+
+// Every recording key of a deck
+const recordingRange = (deckId: string) => IDBKeyRange.bound(`${deckId}:`, `${deckId}:￿`);
+
+// Drops every recording of a deck
+const clearRecordings = (deckId: string) =>
+  withRecordings('readwrite', store => {
+    store.delete(recordingRange(deckId));
+  });
+
+// --- Audio ---
+// Deck cards play through the normal audio pipeline; these backends add the recording that came
+// with the deck (ahead of the built-in clips) and read the hanzi aloud when nothing is recorded.
+// A clip recorded in the voice studio (voiceClipService) wins over the deck's own recording.
+
+let entryIndex = new Map<string, { deckId: string; entry: DeckEntry }>();
+const recordingUrls = new Map<string, string>();
+
+function rebuildIndex(decks: Deck[]) {
+  entryIndex = new Map();
+  decks.forEach(deck => deck.entries.forEach(entry => {
+    const existing = entryIndex.get(entry.pinyin);
+    if (!existing || (entry.recorded && !existing.entry.recorded)) entryIndex.set(entry.pinyin, { deckId: deck.id, entry });
+  }));
+  recordingUrls.forEach(url => URL.revokeObjectURL(url));
+  recordingUrls.clear();
+}
+
+// Requests carry either the marked pinyin (words) or the bare syllable and its tone
+const entryFor = ({ pinyin, tone }: AudioRequest) =>
+  entryIndex.get(tone !== undefined ? applyToneMark(pinyin, tone) : pinyin);
+
+const deckRecordingBackend: AudioBackend = {
+  id: 'deck-recording',
+  priority: -1,
+  isSupported: () => typeof Audio !== 'undefined',
+  canPlay: request => entryFor(request)?.entry.recorded === true && !hasVoiceClip(request.clipName),
+  play: async (request, rate) => {
+    const { deckId, entry } = entryFor(request)!;
+    const key = recordingKey(deckId, entry.pinyin);
+    let url = recordingUrls.get(key);
+    if (!url) {
+      const blob = await getRecording(deckId, entry.pinyin);
+      if (!blob) throw new Error(`Recording missing: ${key}`);
+      url = URL.createObjectURL(blob);
+      recordingUrls.set(key, url);
+    }
+    return playAudioUrl(url, rate);
+  },
+};
+
+const deckSpeechBackend: AudioBackend = {
+  id: 'deck-speech',
+  priority: speechSynthesisBackend.priority - 1,
+  isSupported: speechSynthesisBackend.isSupported,
+  canPlay: request => !request.text && !!entryFor(request)?.entry.hanzi,
+  play: (request, rate) => speechSynthesisBackend.play({ ...request, text: entryFor(request)!.entry.hanzi }, rate),
+};
+
+registerAudioBackend(deckRecordingBackend);
+registerAudioBackend(deckSpeechBackend);
+rebuildIndex(loadDecks());
+
+// --- Change Notifications ---
+type DecksListener = (decks: Deck[]) => void;
+const listeners = new Set<DecksListener>();
+
+/**
+ * Subscribe to decks being saved or deleted.
+ * Returns an unsubscribe function.
+ */
+export const onDecksChange = (listener: DecksListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+function saveDecks(decks: Deck[]) {
+  localStorage.setItem(DECKS_KEY, JSON.stringify(decks));
+  rebuildIndex(decks);
+  listeners.forEach(listener => listener(decks));
+}
+
+// --- Public API ---
+
+export const getDecks = (): Deck[] => loadDecks();
+
+export const getDeck = (id: string): Deck | undefined => loadDecks().find(d => d.id === id);
+
+/** A new, empty deck to edit. */
+export const createDeckDraft = (): DeckDraft => ({ name: '', entries: [{ pinyin: '' }], recordings: {} });
+
+/** A saved deck with its recordings loaded, ready to edit or export. */
+export const loadDeckDraft = async (deck: Deck): Promise<DeckDraft> => {
+  const recordings: Record<string, Blob> = {};
+  await Promise.all(deck.entries.filter(e => e.recorded).map(async entry => {
+    const blob = await getRecording(deck.id, entry.pinyin);
+    if (blob) recordings[entry.pinyin] = blob;
+  }));
+  return { id: deck.id, name: deck.name, entries: deck.entries.map(({ recorded, ...entry }) => entry), recordings };
+};
+
+/**
+ * Saves a draft as a new deck or over the deck it was loaded from.
+ * Throws if the deck breaks the spelling rules (see validateDeck).
+ */
+export const saveDeck = async (draft: DeckDraft): Promise<Deck> => {
+  const issues = validateDeck(draft.name, draft.entries);
+  if (issues.length > 0) throw new Error(`词卡本有问题：${issues.map(i => i.message).join('；')}`);
+
+  const deck: Deck = {
+    id: draft.id ?? `d_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name: draft.name.trim(),
+    entries: draft.entries.map(entry => ({
+      pinyin: entry.pinyin,
+      ...(entry.hanzi?.trim() && { hanzi: entry.hanzi.trim() }),
+      ...(entry.emoji?.trim() && { emoji: entry.emoji.trim() }),
+      ...(draft.recordings[entry.pinyin] && { recorded: true }),
+    })),
+    updatedAt: Date.now(),
+  };
+
+  // Recordings first, so the deck never points at a recording that isn't stored.
+  // One transaction: a failed write leaves the old recordings in place.
+  await withRecordings('readwrite', store => {
+    store.delete(recordingRange(deck.id));
+    deck.entries.filter(e => e.recorded).forEach(e => store.put(draft.recordings[e.pinyin], recordingKey(deck.id, e.pinyin)));
+  });
+
+  const others = loadDecks().filter(d => d.id !== deck.id);
+  saveDecks([...others, deck]);
+  return deck;
+};
+
+export const deleteDeck = async (id: string): Promise<void> => {
+  saveDecks(loadDecks().filter(d => d.id !== id));
+  await clearRecordings(id);
+};
+
+// --- Import / Export ---
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** The deck as a JSON file to share with other classrooms, recordings included. */
+export const exportDeckJson = async (draft: DeckDraft): Promise<string> => {
+  const data: DeckExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    name: draft.name,
+    entries: await Promise.all(draft.entries.map(async entry => {
+      const recording = draft.recordings[entry.pinyin];
+      return recording ? { ...entry, recording: await blobToDataUrl(recording) } : entry;
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Reads an exported deck as a new draft. Throws if the file is not a deck export;
+ * the entries themselves are checked in the editor before the deck can be saved.
+ */
+export const importDeckJson = async (text: string): Promise<DeckDraft> => {
+  const data = JSON.parse(text) as Partial<DeckExport>;
+  if (data.format !== EXPORT_FORMAT || !Array.isArray(data.entries)) throw new Error('这不是词卡本文件');
+  if ((data.version ?? 0) > EXPORT_VERSION) throw new Error(`这个词卡本文件 (第 ${data.version} 版) 来自更新的应用，请先更新`);
+
+  const recordings: Record<string, Blob> = {};
+  const entries: DeckEntry[] = await Promise.all(data.entries.map(async raw => {
+    const pinyin = normalizeDeckPinyin(String(raw.pinyin ?? ''));
+    if (typeof raw.recording === 'string' && raw.recording.startsWith('data:audio/')) {
+      recordings[pinyin] = await (await fetch(raw.recording)).blob();
+    }
+    return {
+      pinyin,
+      ...(raw.hanzi && { hanzi: String(raw.hanzi) }),
+      ...(raw.emoji && { emoji: String(raw.emoji) }),
+    };
+  }));
+  return { name: String(data.name ?? ''), entries, recordings };
+};
@@ -0,0 +1,31 @@
+import { GameState, SessionResult } from '../types';
+
+// What the games report as they are played. Anything that reacts to play (rewards, streaks)
+// listens here, so a new game earns rewards as soon as it records answers and finished sessions.
+export type GameEvent =
+  | { type: 'answer'; mode: GameState; item: string; correct: boolean; timestamp: number }
+  | { type: 'session_complete'; result: SessionResult };
+
+type GameEventListener = (event: GameEvent) => void;
+const listeners = new Set<GameEventListener>();
+
+/**
+ * Subscribe to game events.
+ * Returns an unsubscribe function.
+ */
+export const onGameEvent = (listener: GameEventListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitGameEvent = (event: GameEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (e) {
+      console.error('Game event listener failed:', e);
+    }
+  });
+};
@@ -0,0 +1,54 @@
+import { HighScore } from '../types';
+import { registerProfileCleanup } from './profileService';
+
+// Candy Rush's best games, shared by every profile on the device so the children can
+// compete with each other
+const HIGH_SCORES_KEY = 'candy_pinyin_rush_scores';
+export const HIGH_SCORE_SLOTS = 10;
+
+// --- Storage Helpers ---
+
+function loadScores(): HighScore[] {
+  try {
+    const raw = localStorage.getItem(HIGH_SCORES_KEY);
+    if (raw) return JSON.parse(raw) as HighScore[];
+  } catch (e) {
+    console.warn("Could not read high scores:", e);
+  }
+  return [];
+}
+
+function saveScores(scores: HighScore[]) {
+  localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(scores));
+}
+
+// A deleted child's scores leave the table with them
+registerProfileCleanup(async (profileId) => {
+  saveScores(loadScores().filter(s => s.profileId !== profileId));
+});
+
+// --- Public API ---
+
+/** The table, best first. */
+export const getHighScores = (): HighScore[] => loadScores();
+
+/** Whether a score would make it onto the table. */
+export const isHighScore = (score: number): boolean => {
+  const scores = loadScores();
+  return score > 0 && (scores.length < HIGH_SCORE_SLOTS || score > scores[scores.length - 1].score);
+};
+
+/**
+ * Adds a finished game to the table. Returns its place (0 = best),
+ * or -1 if it did not make the table.
+ */
+export const addHighScore = (entry: HighScore): number => {
+  if (!isHighScore(entry.score)) return -1;
+  // An equal score keeps the older entry ahead
+  const scores = loadScores();
+  const place = scores.findIndex(s => entry.score > s.score);
+  const index = place < 0 ? scores.length : place;
+  scores.splice(index, 0, entry);
+  saveScores(scores.slice(0, HIGH_SCORE_SLOTS));
+  return index;
+};
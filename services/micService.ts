@@ -0,0 +1,169 @@
+import { getAudioContext } from './audioService';
+import { rms } from '../utils/pitch';
+import { encodeWav, normalizeVolume, trimSilence } from '../utils/clipProcessing';
+
+export interface Recording {
+  samples: Float32Array; // Mono
+  sampleRate: number;
+}
+
+export interface RecordingSession {
+  // Stops early; resolves with everything recorded so far. Safe to call more than once.
+  stop: () => Promise<Recording>;
+  // Resolves when recording ends, by stop() or by reaching maxMs
+  finished: Promise<Recording>;
+}
+
+interface RecordingOptions {
+  maxMs?: number;
+  onLevel?: (level: number) => void; // 0-1 loudness, roughly 20 times a second, for a mic meter
+}
+
+// Samples per processing callback (~43ms at 48kHz)
+const CHUNK_SIZE = 2048;
+
+// Speech RMS rarely passes this; scales the meter to fill up while talking
+const LEVEL_FULL_SCALE = 0.2;
+
+export const isMicrophoneSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Records the microphone through the shared AudioContext. Everything stays on the device.
+ * Rejects if the child (or parent) denies microphone access.
+ */
+export async function startRecording({ maxMs = 3000, onLevel }: RecordingOptions = {}): Promise<RecordingSession> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  });
+
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+
+  const source = ctx.createMediaStreamSource(stream);
+  // ScriptProcessorNode is deprecated, but AudioWorklet needs a separate module file
+  // and the raw samples are all we need here
+  const processor = ctx.createScriptProcessor(CHUNK_SIZE, 1, 1);
+  // Processors only run while connected to the destination; keep the mic out of the speakers
+  const mute = ctx.createGain();
+  mute.gain.value = 0;
+
+  const chunks: Float32Array[] = [];
+  processor.onaudioprocess = (event) => {
+    const chunk = new Float32Array(event.inputBuffer.getChannelData(0));
+    chunks.push(chunk);
+    onLevel?.(Math.min(1, rms(chunk) / LEVEL_FULL_SCALE));
+  };
+
+  source.connect(processor);
+  processor.connect(mute);
+  mute.connect(ctx.destination);
+
+  let resolveFinished: (recording: Recording) => void = () => {};
+  const finished = new Promise<Recording>(resolve => { resolveFinished = resolve; });
+  let stopped = false;
+
+  const stop = () => {
+    if (!stopped) {
+      stopped = true;
+      clearTimeout(timer);
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      mute.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+
+      const samples = new Float32Array(chunks.reduce((sum, c) => sum + c.length, 0));
+      let offset = 0;
+      chunks.forEach(c => {
+        samples.set(c, offset);
+        offset += c.length;
+      });
+      resolveFinished({ samples, sampleRate: ctx.sampleRate });
+    }
+    return finished;
+  };
+
+  const timer = window.setTimeout(stop, maxMs);
+  return { stop, finished };
+}
+
+// --- Clip Recording ---
+
+// How often the level meter updates while recording a clip
+const LEVEL_INTERVAL_MS = 50;
+
+export interface ClipRecordingSession {
+  // Stops early; resolves with the recording. Safe to call more than once.
+  stop: () => Promise<Blob>;
+  // Resolves when recording ends, by stop() or by reaching maxMs
+  finished: Promise<Blob>;
+}
+
+export const isClipRecordingSupported = () => isMicrophoneSupported() && typeof MediaRecorder !== 'undefined';
+
+/**
+ * Records a clip with MediaRecorder, for the teacher's own voice. The recording comes back
+ * in the browser's format (webm, ogg or mp4); prepareVoiceClip turns it into a clean WAV.
+ */
+export async function startClipRecording({ maxMs = 5000, onLevel }: RecordingOptions = {}): Promise<ClipRecordingSession> {
+  // No automatic gain: prepareVoiceClip evens out the volume across clips instead
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+  });
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const finished = new Promise<Blob>((resolve, reject) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+    recorder.onerror = () => reject(new Error('Recording failed'));
+  });
+
+  // The meter listens to the same stream through an analyser
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') await ctx.resume();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = CHUNK_SIZE;
+  source.connect(analyser);
+  const frame = new Float32Array(analyser.fftSize);
+  const meter = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(frame);
+    onLevel?.(Math.min(1, rms(frame) / LEVEL_FULL_SCALE));
+  }, LEVEL_INTERVAL_MS);
+
+  let stopped = false;
+  const stop = () => {
+    if (!stopped) {
+      stopped = true;
+      clearTimeout(timer);
+      clearInterval(meter);
+      source.disconnect();
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    }
+    return finished;
+  };
+
+  recorder.start();
+  const timer = window.setTimeout(stop, maxMs);
+  return { stop, finished };
+}
+
+/**
+ * Turns a raw recording into a clip: silence before and after trimmed, volume normalised,
+ * saved as WAV. Rejects when nothing louder than background noise was recorded.
+ */
+export async function prepareVoiceClip(recording: Blob): Promise<{ clip: Blob; seconds: number }> {
+  const buffer = await getAudioContext().decodeAudioData(await recording.arrayBuffer());
+  const trimmed = trimSilence(buffer.getChannelData(0), buffer.sampleRate);
+  if (trimmed.length === 0) throw new Error('No speech in the recording');
+  const samples = normalizeVolume(trimmed);
+  return {
+    clip: new Blob([encodeWav(samples, buffer.sampleRate)], { type: 'audio/wav' }),
+    seconds: samples.length / buffer.sampleRate,
+  };
+}
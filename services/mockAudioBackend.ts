@@ -0,0 +1,46 @@
+import { AudioBackend, AudioRequest, PlaybackHandle } from './audioBackend';
+
+export interface MockAudioBackend extends AudioBackend {
+  readonly played: AudioRequest[]; // Every request played so far, oldest first
+  reset: () => void;
+}
+
+interface MockOptions {
+  duration?: number;                           // Seconds every clip lasts at rate 1
+  fails?: (request: AudioRequest) => boolean;  // Simulate missing clips / broken playback
+}
+
+/**
+ * A silent backend that records what would have been played.
+ * Used for automated UI checks and silent demos (open the app with ?audio=mock).
+ */
+export function createMockAudioBackend({ duration = 0.5, fails }: MockOptions = {}): MockAudioBackend {
+  const played: AudioRequest[] = [];
+
+  return {
+    id: 'mock',
+    priority: 0,
+    isSupported: () => true,
+    play: async (request, rate): Promise<PlaybackHandle> => {
+      if (fails?.(request)) throw new Error(`Mock playback failed: ${request.clipName}`);
+      played.push(request);
+
+      // "Ends" after the clip's length in real time, like a real backend would
+      let finish: () => void = () => {};
+      const ended = new Promise<void>(resolve => { finish = resolve; });
+      const timer = window.setTimeout(finish, (duration / rate) * 1000);
+      return {
+        duration: duration / rate,
+        ended,
+        stop: () => {
+          clearTimeout(timer);
+          finish();
+        },
+      };
+    },
+    played,
+    reset: () => {
+      played.length = 0;
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { Profile } from '../types';
+import { PROFILE_AVATARS } from '../constants';
+
+// Prefix for LocalStorage keys
+const LOCAL_STORAGE_PREFIX = 'candy_pinyin_';
+const PROFILES_KEY = `${LOCAL_STORAGE_PREFIX}profiles`;
+const ACTIVE_PROFILE_KEY = `${LOCAL_STORAGE_PREFIX}active_profile`;
+
+// The profile that owns data created before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+// --- Storage Helpers ---
+const scopedPrefix = (profileId: string) => `${LOCAL_STORAGE_PREFIX}${profileId}_`;
+
+function loadProfiles(): Profile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    if (raw) return JSON.parse(raw) as Profile[];
+  } catch (e) {
+    console.warn("Could not read profiles:", e);
+  }
+  return [];
+}
+
+function saveProfiles(profiles: Profile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+function ensureProfiles(): Profile[] {
+  const profiles = loadProfiles();
+  if (profiles.length > 0) return profiles;
+
+  const first: Profile = { id: DEFAULT_PROFILE_ID, name: '小朋友', avatar: PROFILE_AVATARS[0], createdAt: Date.now() };
+  saveProfiles([first]);
+  return [first];
+}
+
+// --- Change Notifications ---
+type ProfileListener = (profile: Profile) => void;
+const listeners = new Set<ProfileListener>();
+
+/**
+ * Subscribe to profile switches and edits of the active profile.
+ * Returns an unsubscribe function.
+ */
+export const onProfileChange = (listener: ProfileListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+function notify() {
+  const active = getActiveProfile();
+  listeners.forEach(listener => listener(active));
+}
+
+// Per-profile data owned by other services (e.g. the progress database), removed with the profile
+type ProfileCleanup = (profileId: string) => Promise<void>;
+const cleanups: ProfileCleanup[] = [];
+
+export const registerProfileCleanup = (cleanup: ProfileCleanup) => {
+  cleanups.push(cleanup);
+};
+
+// --- Public API ---
+
+export const getProfiles = (): Profile[] => ensureProfiles();
+
+export const getActiveProfile = (): Profile => {
+  const profiles = ensureProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.find(p => p.id === activeId) ?? profiles[0];
+};
+
+export const createProfile = (name: string, avatar: string): Profile => {
+  const profile: Profile = {
+    id: `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    avatar,
+    createdAt: Date.now(),
+  };
+  saveProfiles([...ensureProfiles(), profile]);
+  return profile;
+};
+
+export const updateProfile = (id: string, changes: Partial<Pick<Profile, 'name' | 'avatar'>>): Profile => {
+  const profiles = ensureProfiles();
+  const existing = profiles.find(p => p.id === id);
+  if (!existing) throw new Error(`Profile not found: ${id}`);
+
+  const updated = { ...existing, ...changes, name: (changes.name ?? existing.name).trim() };
+  saveProfiles(profiles.map(p => (p.id === id ? updated : p)));
+  if (getActiveProfile().id === id) notify();
+  return updated;
+};
+
+export const switchProfile = (id: string) => {
+  if (!ensureProfiles().some(p => p.id === id)) throw new Error(`Profile not found: ${id}`);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  notify();
+};
+
+/**
+ * Deletes a profile and all of its data. The last remaining profile cannot be deleted.
+ * If the active profile is deleted, the first remaining one becomes active.
+ */
+export const deleteProfile = async (id: string): Promise<void> => {
+  const profiles = ensureProfiles();
+  if (profiles.length <= 1) throw new Error('Cannot delete the last profile');
+
+  const wasActive = getActiveProfile().id === id;
+  const remaining = profiles.filter(p => p.id !== id);
+  saveProfiles(remaining);
+  if (wasActive) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, remaining[0].id);
+    notify();
+  }
+
+  // Scoped LocalStorage entries
+  const prefix = scopedPrefix(id);
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(prefix))
+    .forEach(key => localStorage.removeItem(key));
+
+  await Promise.all(cleanups.map(cleanup => cleanup(id)));
+};
+
+// --- Per-profile Settings ---
+
+/** LocalStorage key scoped to the active profile. */
+export const profileStorageKey = (key: string): string => `${scopedPrefix(getActiveProfile().id)}${key}`;
+
+export function getProfileSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(profileStorageKey(key));
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function setProfileSetting<T>(key: string, value: T) {
+  localStorage.setItem(profileStorageKey(key), JSON.stringify(value));
+}
@@ -0,0 +1,295 @@
+import { AttemptRecord, GameState, MasteryRecord, ReviewRecord } from '../types';
+import { nextReview } from '../utils/scheduler';
+import { DEFAULT_PROFILE_ID, getActiveProfile, onProfileChange, registerProfileCleanup } from './profileService';
+import { emitGameEvent } from './gameEvents';
+
+// --- Schema ---
+// One database per profile; the default profile keeps the original name so older data stays put
+const DB_NAME = 'candy_pinyin_progress';
+const dbNameFor = (profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}_${profileId}`;
+
+const DB_VERSION = 3;
+
+const ATTEMPTS_STORE = 'attempts';
+const MASTERY_STORE = 'mastery';
+const REVIEWS_STORE = 'reviews';
+
+// Modes whose answers move Leitner boxes: hearing a syllable and picking it out. A memory
+// mismatch, a tone answer or a two-star reading says little about recognising the letter.
+const REVIEWED_MODES: GameState[] = [GameState.QUIZ, GameState.RUSH];
+const movesReview = (attempt: AttemptRecord) => REVIEWED_MODES.includes(attempt.mode);
+
+// Rebuilds the review boxes from the answer history, so returning children don't start from scratch
+function seedReviews(tx: IDBTransaction) {
+  const reviews = tx.objectStore(REVIEWS_STORE);
+  const byItem = new Map<string, ReviewRecord>();
+  const cursorRequest = tx.objectStore(ATTEMPTS_STORE).index('timestamp').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      const attempt = cursor.value as AttemptRecord;
+      if (movesReview(attempt)) byItem.set(attempt.item, nextReview(byItem.get(attempt.item), attempt));
+      cursor.continue();
+    } else {
+      byItem.forEach(review => reviews.put(review));
+    }
+  };
+}
+
+/**
+ * Schema migrations, keyed by the version they upgrade TO.
+ * onupgradeneeded runs every step between the stored version and DB_VERSION in order,
+ * so a new schema change is a new entry here plus a DB_VERSION bump - never an edit to an old step.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id', autoIncrement: true });
+    attempts.createIndex('item', 'item');
+    attempts.createIndex('mode', 'mode');
+    attempts.createIndex('timestamp', 'timestamp');
+
+    db.createObjectStore(MASTERY_STORE, { keyPath: 'item' });
+  },
+  // v2: Leitner review state for spaced-repetition scheduling
+  2: (db, tx) => {
+    db.createObjectStore(REVIEWS_STORE, { keyPath: 'item' });
+    seedReviews(tx);
+  },
+  // v3: boxes only follow the recognition modes; drop what the other modes moved
+  3: (_db, tx) => {
+    tx.objectStore(REVIEWS_STORE).clear();
+    seedReviews(tx);
+  },
+};
+
+// Weight of the newest answer in the mastery moving average
+const MASTERY_ALPHA = 0.3;
+
+// Mastery at or above this counts as "mastered"
+export const MASTERY_THRESHOLD = 0.8;
+
+// --- Connection (Lazy singleton, per active profile) ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+let dbProfileId: string | null = null;
+
+function closeDatabase() {
+  if (!dbPromise) return;
+  dbPromise.then(db => db.close()).catch(() => {});
+  dbPromise = null;
+  dbProfileId = null;
+}
+
+// Switching profiles points every later query at the new profile's database
+onProfileChange(profile => {
+  if (profile.id !== dbProfileId) closeDatabase();
+});
+
+registerProfileCleanup(async (profileId) => {
+  if (profileId === dbProfileId) closeDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbNameFor(profileId));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve(); // Finishes once other tabs close their connection
+  });
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+  const profileId = getActiveProfile().id;
+  if (dbPromise && dbProfileId === profileId) return dbPromise;
+  closeDatabase();
+  dbProfileId = profileId;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(dbNameFor(profileId), DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v]?.(db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: close so it can proceed, reopen lazily next time
+      db.onversionchange = () => {
+        db.close();
+        if (dbProfileId === profileId) {
+          dbPromise = null;
+          dbProfileId = null;
+        }
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry after a failed open (e.g. storage blocked in private mode)
+  const opening = dbPromise;
+  opening.catch(() => {
+    if (dbPromise === opening) {
+      dbPromise = null;
+      dbProfileId = null;
+    }
+  });
+
+  return opening;
+}
+
+// Helper: Wrap an IDBRequest in a Promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Helper: Resolve once a transaction has committed
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// --- Change Notifications ---
+type ProgressListener = (attempt: AttemptRecord) => void;
+const listeners = new Set<ProgressListener>();
+
+/**
+ * Subscribe to newly recorded attempts (e.g. to refresh a stats screen).
+ * Returns an unsubscribe function.
+ */
+export const onProgressChange = (listener: ProgressListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+function updateMastery(previous: MasteryRecord | undefined, attempt: AttemptRecord): MasteryRecord {
+  const prev = previous ?? {
+    item: attempt.item,
+    attempts: 0,
+    correct: 0,
+    mastery: 0,
+    avgResponseMs: 0,
+    lastSeen: 0,
+  };
+
+  const attempts = prev.attempts + 1;
+  return {
+    item: attempt.item,
+    attempts,
+    correct: prev.correct + (attempt.correct ? 1 : 0),
+    mastery: prev.mastery * (1 - MASTERY_ALPHA) + (attempt.correct ? MASTERY_ALPHA : 0),
+    avgResponseMs: prev.avgResponseMs + (attempt.responseTimeMs - prev.avgResponseMs) / attempts,
+    lastSeen: attempt.timestamp,
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Records one answer and updates the item's mastery (and, for recognition modes, its review box)
+ * in a single transaction.
+ */
+export const recordAttempt = async (
+  input: Omit<AttemptRecord, 'id' | 'timestamp'> & { timestamp?: number }
+): Promise<AttemptRecord> => {
+  const attempt: AttemptRecord = { ...input, timestamp: input.timestamp ?? Date.now() };
+  const db = await openDatabase();
+
+  const tx = db.transaction([ATTEMPTS_STORE, MASTERY_STORE, REVIEWS_STORE], 'readwrite');
+  const masteryStore = tx.objectStore(MASTERY_STORE);
+  const reviewsStore = tx.objectStore(REVIEWS_STORE);
+
+  tx.objectStore(ATTEMPTS_STORE).add(attempt);
+  const [previous, previousReview] = await Promise.all([
+    promisify<MasteryRecord | undefined>(masteryStore.get(attempt.item)),
+    promisify<ReviewRecord | undefined>(reviewsStore.get(attempt.item)),
+  ]);
+  masteryStore.put(updateMastery(previous, attempt));
+  if (movesReview(attempt)) reviewsStore.put(nextReview(previousReview, attempt));
+
+  await transactionDone(tx);
+
+  listeners.forEach(listener => listener(attempt));
+  emitGameEvent({ type: 'answer', mode: attempt.mode, item: attempt.item, correct: attempt.correct, timestamp: attempt.timestamp });
+  return attempt;
+};
+
+export const getMastery = async (item: string): Promise<MasteryRecord | undefined> => {
+  const db = await openDatabase();
+  return promisify<MasteryRecord | undefined>(
+    db.transaction(MASTERY_STORE).objectStore(MASTERY_STORE).get(item)
+  );
+};
+
+export const getAllMastery = async (): Promise<MasteryRecord[]> => {
+  const db = await openDatabase();
+  return promisify<MasteryRecord[]>(
+    db.transaction(MASTERY_STORE).objectStore(MASTERY_STORE).getAll()
+  );
+};
+
+/**
+ * Returns the Leitner review state of every item seen so far, keyed by item.
+ */
+export const getAllReviews = async (): Promise<Map<string, ReviewRecord>> => {
+  const db = await openDatabase();
+  const reviews = await promisify<ReviewRecord[]>(
+    db.transaction(REVIEWS_STORE).objectStore(REVIEWS_STORE).getAll()
+  );
+  return new Map(reviews.map(r => [r.item, r]));
+};
+
+export interface AttemptQuery {
+  item?: string;
+  mode?: GameState;
+  since?: number; // Only attempts at or after this timestamp
+}
+
+/**
+ * Returns recorded attempts, oldest first.
+ */
+export const getAttempts = async (query: AttemptQuery = {}): Promise<AttemptRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(ATTEMPTS_STORE).objectStore(ATTEMPTS_STORE);
+
+  // Use the most selective index available, then filter the rest in memory
+  let results: AttemptRecord[];
+  if (query.item !== undefined) {
+    results = await promisify<AttemptRecord[]>(store.index('item').getAll(query.item));
+  } else if (query.since !== undefined) {
+    results = await promisify<AttemptRecord[]>(store.index('timestamp').getAll(IDBKeyRange.lowerBound(query.since)));
+  } else {
+    results = await promisify<AttemptRecord[]>(store.getAll());
+  }
+
+  return results
+    .filter(a => query.mode === undefined || a.mode === query.mode)
+    .filter(a => query.since === undefined || a.timestamp >= query.since)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Wipes all attempts, mastery and review state (e.g. "start over" from a parent screen).
+ */
+export const clearProgress = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ATTEMPTS_STORE, MASTERY_STORE, REVIEWS_STORE], 'readwrite');
+  tx.objectStore(ATTEMPTS_STORE).clear();
+  tx.objectStore(MASTERY_STORE).clear();
+  tx.objectStore(REVIEWS_STORE).clear();
+  await transactionDone(tx);
+};
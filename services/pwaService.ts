@@ -0,0 +1,52 @@
+// Service worker registration and the "update available" handshake.
+// The worker itself is built from pwa/sw.js (see vite.config.ts).
+
+let waitingWorker: ServiceWorker | null = null;
+
+/**
+ * Registers /sw.js in production builds.
+ * `onUpdateReady` fires when a new version has been downloaded and is waiting to take over.
+ */
+export const registerServiceWorker = (onUpdateReady: () => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const trackWaiting = (worker: ServiceWorker | null) => {
+    if (!worker) return;
+    waitingWorker = worker;
+    onUpdateReady();
+  };
+
+  navigator.serviceWorker.register('/sw.js').then((registration) => {
+    // An update finished installing in an earlier visit
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      trackWaiting(registration.waiting);
+    }
+
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        // No controller means this is the first install, not an update
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+          trackWaiting(installing);
+        }
+      });
+    });
+  }).catch((e) => {
+    console.error("Service worker registration failed:", e);
+  });
+
+  // Reload once the new worker has taken control
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+};
+
+/**
+ * Activates the waiting version; the page reloads when it takes control.
+ */
+export const applyUpdate = () => {
+  waitingWorker?.postMessage({ type: 'SKIP_WAITING' });
+};
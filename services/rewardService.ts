@@ -0,0 +1,146 @@
+import { MasteryRecord, PinyinChar, RewardState } from '../types';
+import { FINALS, INITIALS, OVERALL } from '../constants';
+import { STICKERS } from '../stickers';
+import { practiceStreak, startOfDay } from '../utils/stats';
+import { GameEvent, onGameEvent } from './gameEvents';
+import { MASTERY_THRESHOLD, getAllMastery } from './progressService';
+import { getProfileSetting, setProfileSetting } from './profileService';
+
+// --- Earning Rules ---
+export const CANDIES_PER_CORRECT = 1;
+export const CANDIES_PER_SESSION = 5;
+export const CANDIES_PERFECT_BONUS = 5; // Extra for a session without a single miss
+
+const REWARDS_KEY = 'rewards';
+
+const EMPTY_REWARDS: RewardState = {
+  candies: 0,
+  candiesEarned: 0,
+  stickers: [],
+  badges: [],
+  practiceDays: [],
+  correctAnswers: 0,
+  sessions: 0,
+  perfectSessions: 0,
+};
+
+// --- Badges ---
+
+interface BadgeContext {
+  rewards: RewardState;
+  streak: number;
+  mastery: Map<string, MasteryRecord>;
+}
+
+export interface Badge {
+  id: string;
+  icon: string;
+  name: string;
+  description: string;
+  isEarned: (ctx: BadgeContext) => boolean;
+}
+
+const allMastered = (items: PinyinChar[], mastery: Map<string, MasteryRecord>) =>
+  items.every(item => (mastery.get(item.char)?.mastery ?? 0) >= MASTERY_THRESHOLD);
+
+export const BADGES: Badge[] = [
+  { id: 'first_correct', icon: '🍬', name: '第一颗糖', description: '第一次答对', isEarned: ({ rewards }) => rewards.correctAnswers >= 1 },
+  { id: 'correct_100', icon: '💯', name: '百题小达人', description: '一共答对 100 题', isEarned: ({ rewards }) => rewards.correctAnswers >= 100 },
+  { id: 'correct_500', icon: '🎓', name: '拼音博士', description: '一共答对 500 题', isEarned: ({ rewards }) => rewards.correctAnswers >= 500 },
+  { id: 'perfect', icon: '🌟', name: '满分', description: '一局全部答对', isEarned: ({ rewards }) => rewards.perfectSessions >= 1 },
+  { id: 'streak_3', icon: '🔥', name: '三天不断', description: '连续 3 天练习', isEarned: ({ streak }) => streak >= 3 },
+  { id: 'streak_7', icon: '📅', name: '一周坚持', description: '连续 7 天练习', isEarned: ({ streak }) => streak >= 7 },
+  { id: 'initials_mastered', icon: '🅱️', name: '声母全会', description: '所有声母都掌握了', isEarned: ({ mastery }) => allMastered(INITIALS, mastery) },
+  { id: 'finals_mastered', icon: '🅰️', name: '韵母全会', description: '所有韵母都掌握了', isEarned: ({ mastery }) => allMastered(FINALS, mastery) },
+  { id: 'overall_mastered', icon: '🏅', name: '整体认读全会', description: '所有整体认读音节都掌握了', isEarned: ({ mastery }) => allMastered(OVERALL, mastery) },
+  { id: 'stickers_10', icon: '📒', name: '贴纸收藏家', description: '收集 10 张贴纸', isEarned: ({ rewards }) => rewards.stickers.length >= 10 },
+  { id: 'album_complete', icon: '👑', name: '贴纸大王', description: '集齐所有贴纸', isEarned: ({ rewards }) => rewards.stickers.length >= STICKERS.length },
+];
+
+// --- Change Notifications ---
+
+// What an update just added, for the "+1 🍬" and new badge pop-ups
+export interface RewardGain {
+  candies: number;
+  badges: string[]; // Badge ids
+}
+
+type RewardListener = (rewards: RewardState, gain: RewardGain) => void;
+const listeners = new Set<RewardListener>();
+
+/**
+ * Subscribe to reward changes (candies earned or spent, stickers, badges).
+ * Returns an unsubscribe function.
+ */
+export const onRewardsChange = (listener: RewardListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Storage ---
+
+export const getRewards = (): RewardState => ({ ...EMPTY_REWARDS, ...getProfileSetting<Partial<RewardState>>(REWARDS_KEY, {}) });
+
+function saveRewards(rewards: RewardState, gain: RewardGain) {
+  setProfileSetting(REWARDS_KEY, rewards);
+  listeners.forEach(listener => listener(rewards, gain));
+}
+
+export const getPracticeStreak = (rewards: RewardState = getRewards(), now: number = Date.now()): number =>
+  practiceStreak(rewards.practiceDays, now);
+
+/** Awards any badges the profile now qualifies for. Mastery comes from the progress database. */
+async function checkBadges() {
+  const mastery = new Map((await getAllMastery()).map(m => [m.item, m]));
+  // Re-read after the await so concurrent updates aren't lost
+  const rewards = getRewards();
+  const ctx: BadgeContext = { rewards, streak: getPracticeStreak(rewards), mastery };
+  const earned = BADGES.filter(b => !rewards.badges.includes(b.id) && b.isEarned(ctx)).map(b => b.id);
+  if (earned.length === 0) return;
+  saveRewards({ ...rewards, badges: [...rewards.badges, ...earned] }, { candies: 0, badges: earned });
+}
+
+function handleGameEvent(event: GameEvent) {
+  const rewards = getRewards();
+  let candies = 0;
+
+  if (event.type === 'answer') {
+    const day = startOfDay(event.timestamp);
+    if (!rewards.practiceDays.includes(day)) rewards.practiceDays = [...rewards.practiceDays, day];
+    if (event.correct) {
+      rewards.correctAnswers += 1;
+      candies = CANDIES_PER_CORRECT;
+    }
+  } else {
+    const perfect = event.result.total > 0 && event.result.missed.length === 0;
+    rewards.sessions += 1;
+    if (perfect) rewards.perfectSessions += 1;
+    candies = CANDIES_PER_SESSION + (perfect ? CANDIES_PERFECT_BONUS : 0);
+  }
+
+  rewards.candies += candies;
+  rewards.candiesEarned += candies;
+  saveRewards(rewards, { candies, badges: [] });
+  checkBadges().catch(console.error);
+}
+
+onGameEvent(handleGameEvent);
+
+// --- Stickers ---
+
+/** Spends candies on a sticker. Throws if it is already owned or can't be afforded. */
+export const buySticker = (id: string): RewardState => {
+  const sticker = STICKERS.find(s => s.id === id);
+  if (!sticker) throw new Error(`Sticker not found: ${id}`);
+
+  const rewards = getRewards();
+  if (rewards.stickers.includes(id)) throw new Error(`Sticker already owned: ${id}`);
+  if (rewards.candies < sticker.price) throw new Error('Not enough candies');
+
+  const updated = { ...rewards, candies: rewards.candies - sticker.price, stickers: [...rewards.stickers, id] };
+  saveRewards(updated, { candies: -sticker.price, badges: [] });
+  checkBadges().catch(console.error);
+  return updated;
+};
@@ -0,0 +1,148 @@
+import { Difficulty, GameState, MemoryVariant, PinyinCategory, PinyinChar, SessionConfig, SessionPreset, SessionResult } from '../types';
+import { getProfileSetting, setProfileSetting } from './profileService';
+
+// Games that open the setup screen first
+export type SessionGame = GameState.QUIZ | GameState.MEMORY;
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+// Choices offered on the setup screen
+export const QUIZ_LENGTHS = [5, 10, 20];
+export const MEMORY_PAIRS = [4, 6, 8, 10];
+export const MEMORY_PLAYERS = [1, 2];
+export const QUIZ_TIME_LIMITS = [0, 5, 10, 15];      // Seconds per question
+export const MEMORY_TIME_LIMITS = [0, 60, 90, 120];  // Seconds per board
+export const QUIZ_ADVANCE_DELAYS = [1000, 2000, 3000];
+export const MEMORY_ADVANCE_DELAYS = [800, 1200, 2000];
+
+// Presets are the teacher's, shared by every profile like the decks they may point at
+const PRESETS_KEY = 'candy_pinyin_session_presets';
+// Where each profile kept its own presets before they were shared
+const PROFILE_PRESETS_SUFFIX = '_session_presets';
+const lastConfigKey = (game: SessionGame) => `session_${game}`;
+
+const ALL_CATEGORIES = [PinyinCategory.INITIALS, PinyinCategory.FINALS, PinyinCategory.OVERALL];
+
+/** The settings the games used before they were configurable. */
+export const getDefaultSessionConfig = (game: SessionGame): SessionConfig => ({
+  categories: ALL_CATEGORIES,
+  items: [],
+  length: game === GameState.QUIZ ? 10 : 6,
+  optionCount: 3,
+  difficulty: getProfileSetting('quiz_difficulty', Difficulty.MEDIUM),
+  timeLimit: 0,
+  advanceDelay: game === GameState.QUIZ ? 2000 : 1200,
+  memoryVariant: MemoryVariant.CLASSIC,
+  players: 1,
+});
+
+/** Keeps stored or imported configs within the ranges the games support. */
+export const normalizeSessionConfig = (game: SessionGame, config: Partial<SessionConfig>): SessionConfig => {
+  const defaults = getDefaultSessionConfig(game);
+  const merged = { ...defaults, ...config };
+  return {
+    ...merged,
+    categories: merged.categories.filter(c => ALL_CATEGORIES.includes(c)),
+    optionCount: Math.min(MAX_OPTIONS, Math.max(MIN_OPTIONS, Math.round(merged.optionCount))),
+    // Every session has an end; older configs used 0 for an endless quiz
+    length: merged.length > 0 ? Math.round(merged.length) : defaults.length,
+    timeLimit: Math.max(0, merged.timeLimit),
+    advanceDelay: Math.max(0, merged.advanceDelay),
+    memoryVariant: Object.values(MemoryVariant).includes(merged.memoryVariant) ? merged.memoryVariant : defaults.memoryVariant,
+    players: MEMORY_PLAYERS.includes(merged.players) ? merged.players : defaults.players,
+  };
+};
+
+/**
+ * The items a session draws from: the hand-picked ones, or every item of the chosen categories.
+ * For a deck session `allItems` is the deck, and the categories don't apply.
+ */
+export const resolveSessionItems = (config: SessionConfig, allItems: PinyinChar[]): PinyinChar[] => {
+  const inCategories = config.deckId ? allItems : allItems.filter(item => config.categories.includes(item.category));
+  if (config.items.length === 0) return inCategories;
+  return inCategories.filter(item => config.items.includes(item.char));
+};
+
+/**
+ * The items that can make a pair in this memory variant. Picture pairs need an initial with a
+ * picture word: finals and whole syllables share words with initials (鱼 is ü and yu), and a
+ * picture that fits two letters on one board would turn a right match into a miss.
+ */
+export const getMemoryItems = (items: PinyinChar[], variant: MemoryVariant): PinyinChar[] =>
+  variant === MemoryVariant.PICTURE
+    ? items.filter(item => item.category === PinyinCategory.INITIALS && (item.words ?? []).length > 0)
+    : items;
+
+/** The config the active profile last started this game with. */
+export const getLastSessionConfig = (game: SessionGame): SessionConfig =>
+  normalizeSessionConfig(game, getProfileSetting<Partial<SessionConfig>>(lastConfigKey(game), {}));
+
+export const saveLastSessionConfig = (game: SessionGame, config: SessionConfig) => {
+  setProfileSetting(lastConfigKey(game), config);
+};
+
+// --- Presets ---
+
+function parsePresets(raw: string | null): SessionPreset[] {
+  try {
+    if (raw) return JSON.parse(raw) as SessionPreset[];
+  } catch (e) {
+    console.warn("Could not read session presets:", e);
+  }
+  return [];
+}
+
+// First read after the switch: gather every profile's presets (the first of each name wins)
+function migrateProfilePresets(): SessionPreset[] {
+  const presets: SessionPreset[] = [];
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('candy_pinyin_') && key.endsWith(PROFILE_PRESETS_SUFFIX))
+    .forEach(key => parsePresets(localStorage.getItem(key)).forEach(preset => {
+      if (!presets.some(p => p.name === preset.name)) presets.push(preset);
+    }));
+  savePresets(presets);
+  return presets;
+}
+
+function savePresets(presets: SessionPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+export const getSessionPresets = (): SessionPreset[] => {
+  const raw = localStorage.getItem(PRESETS_KEY);
+  return raw === null ? migrateProfilePresets() : parsePresets(raw);
+};
+
+/** Saves a preset; a preset with the same name is replaced. */
+export const saveSessionPreset = (name: string, config: SessionConfig): SessionPreset => {
+  const preset: SessionPreset = {
+    id: `s_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    config,
+  };
+  const others = getSessionPresets().filter(p => p.name !== preset.name);
+  savePresets([...others, preset]);
+  return preset;
+};
+
+export const deleteSessionPreset = (id: string) => {
+  savePresets(getSessionPresets().filter(p => p.id !== id));
+};
+
+// --- Mistakes ---
+
+// Each missed item is asked this many times when practising mistakes
+export const MISTAKE_REPEATS = 2;
+
+// Memory needs at least two different items to make a board
+export const MIN_MEMORY_MISTAKES = 2;
+
+export const canPractiseMistakes = (result: SessionResult): boolean =>
+  result.missed.length >= (result.mode === GameState.MEMORY ? MIN_MEMORY_MISTAKES : 1);
+
+/** The PinyinChars missed in a session, in the order they were missed. */
+export const getMissedItems = (result: SessionResult, allItems: PinyinChar[]): PinyinChar[] =>
+  result.missed
+    .map(char => allItems.find(item => item.char === char))
+    .filter((item): item is PinyinChar => item !== undefined);
@@ -0,0 +1,109 @@
+import { Tone } from '../types';
+import { NO_CHARACTER, SYLLABLE_CHARACTERS } from '../syllableCharacters';
+import { applyToneMark } from '../utils/pinyin';
+import { AudioBackend, AudioRequest, PlaybackHandle } from './audioBackend';
+
+// Characters read the way teachers name each sound (b -> 玻 "bō"), since a voice
+// reading the bare Latin letter would spell it out in English.
+const TEACHING_CHARACTERS: Record<string, string> = {
+  // Initials
+  b: '玻', p: '坡', m: '摸', f: '佛', d: '得', t: '特', n: '讷', l: '勒',
+  g: '哥', k: '科', h: '喝', j: '基', q: '欺', x: '希',
+  zh: '知', ch: '吃', sh: '诗', r: '日', z: '资', c: '雌', s: '思', y: '衣', w: '乌',
+  // Finals
+  a: '啊', o: '喔', e: '鹅', i: '衣', u: '乌', ü: '迂',
+  ai: '哀', ei: '诶', ui: '威', ao: '熬', ou: '欧', iu: '优', ie: '耶', üe: '约', er: '儿',
+  an: '安', en: '恩', in: '因', un: '温', ün: '晕', ang: '昂', eng: '鞥', ing: '英',
+  // Whole syllables
+  zhi: '知', chi: '吃', shi: '诗', ri: '日', zi: '资', ci: '雌', si: '思',
+  yi: '衣', wu: '乌', yu: '迂', ye: '耶', yue: '约', yuan: '冤', yin: '因', yun: '晕', ying: '英',
+};
+
+// Give up if the engine never starts talking (some browsers queue silently without a voice)
+const START_TIMEOUT_MS = 2000;
+
+// Speech engines rush single syllables; this is their "normal" speed for children
+const BASE_SPEECH_RATE = 0.8;
+
+// Rough length of one spoken syllable at BASE_SPEECH_RATE; the engine only reports the real end
+const ESTIMATED_SYLLABLE_SECONDS = 0.8;
+
+const hasSpeechSynthesis = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+// Voices load asynchronously; an empty list just means "not yet", so let the engine pick by lang
+function findChineseVoice(): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+  return voices.find(v => v.lang === 'zh-CN') ?? voices.find(v => v.lang.startsWith('zh'));
+}
+
+/**
+ * A character speech synthesis reads as the syllable in this tone (ma + 3 -> 马).
+ * Without a tone, the first one listed (ba -> 八).
+ */
+export function speechCharacterFor(pinyin: string, tone?: Tone): string | undefined {
+  const characters = SYLLABLE_CHARACTERS[pinyin];
+  if (!characters) return undefined;
+  const character = tone === undefined ? [...characters].find(c => c !== NO_CHARACTER)
+    : characters[tone === Tone.NEUTRAL ? 4 : tone - 1];
+  return character && character !== NO_CHARACTER ? character : undefined;
+}
+
+function textFor({ pinyin, tone, text }: AudioRequest): string {
+  if (text) return text;
+  if (tone === undefined && TEACHING_CHARACTERS[pinyin]) return TEACHING_CHARACTERS[pinyin];
+  return speechCharacterFor(pinyin, tone) ?? (tone === undefined ? pinyin : applyToneMark(pinyin, tone));
+}
+
+/**
+ * Web Speech fallback: says the syllable with a zh-CN voice.
+ * Less natural than the recorded clips, but covers tones and words we have not recorded yet.
+ */
+export const speechSynthesisBackend: AudioBackend = {
+  id: 'speech',
+  priority: 10,
+  isSupported: () => {
+    if (!hasSpeechSynthesis()) return false;
+    const voices = window.speechSynthesis.getVoices();
+    return voices.length === 0 || findChineseVoice() !== undefined;
+  },
+  play: (request, rate) => new Promise<PlaybackHandle>((resolve, reject) => {
+    const synth = window.speechSynthesis;
+    const utterance = new SpeechSynthesisUtterance(textFor(request));
+    utterance.lang = 'zh-CN';
+    utterance.rate = BASE_SPEECH_RATE * rate;
+    const voice = findChineseVoice();
+    if (voice) utterance.voice = voice;
+
+    let finish: () => void = () => {};
+    const ended = new Promise<void>(done => { finish = done; });
+
+    const timer = setTimeout(() => {
+      synth.cancel();
+      finish();
+      reject(new Error(`Speech did not start: ${request.clipName}`));
+    }, START_TIMEOUT_MS);
+
+    utterance.onstart = () => {
+      clearTimeout(timer);
+      resolve({
+        duration: ESTIMATED_SYLLABLE_SECONDS / rate,
+        ended,
+        stop: () => {
+          synth.cancel();
+          finish();
+        },
+      });
+    };
+    utterance.onend = () => finish();
+    utterance.onerror = (e) => {
+      clearTimeout(timer);
+      finish();
+      reject(new Error(`Speech failed (${e.error}): ${request.clipName}`));
+    };
+
+    // Speaking queues by default; the audio service decides what plays next
+    synth.cancel();
+    synth.speak(utterance);
+  }),
+};
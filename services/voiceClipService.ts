@@ -0,0 +1,160 @@
+import { createZip, readZip } from '../utils/zip';
+
+// Clips the teacher recorded in their own voice, keyed by clip name like the files under
+// /audio ('ma3', 'words/ba4ba'). audioService plays them in place of (or in addition to)
+// the built-in clips. Shared by every profile, like the decks.
+const DB_NAME = 'candy_pinyin_voice';
+const DB_VERSION = 1;
+const CLIPS_STORE = 'clips';
+// Names of the stored clips, so audioService can tell synchronously whether one exists
+const INDEX_KEY = 'candy_pinyin_voice_clips';
+
+// Clip names are what the /audio file names would be: letters (v for ü), tone digits, optional words/
+const CLIP_NAME = /^(words\/)?[a-z0-9]+$/;
+const AUDIO_FILE = /\.(wav|mp3|m4a|ogg|webm)$/i;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+// --- Storage Helpers ---
+
+function loadIndex(): string[] {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY);
+    if (raw) return JSON.parse(raw) as string[];
+  } catch (e) {
+    console.warn("Could not read voice clip index:", e);
+  }
+  return [];
+}
+
+const clipNames = new Set(loadIndex());
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(CLIPS_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open (e.g. storage blocked in private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function withClips<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CLIPS_STORE, mode);
+    const request = run(tx.objectStore(CLIPS_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// --- Change Notifications ---
+type VoiceClipsListener = (changed: string[]) => void;
+const listeners = new Set<VoiceClipsListener>();
+
+/**
+ * Subscribe to clips being recorded, imported or deleted; called with the changed clip names.
+ * Returns an unsubscribe function.
+ */
+export const onVoiceClipsChange = (listener: VoiceClipsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+function updateIndex(added: string[], removed: string[]) {
+  added.forEach(name => clipNames.add(name));
+  removed.forEach(name => clipNames.delete(name));
+  localStorage.setItem(INDEX_KEY, JSON.stringify([...clipNames]));
+  listeners.forEach(listener => listener([...added, ...removed]));
+}
+
+// --- Public API ---
+
+export const isValidClipName = (clipName: string) => CLIP_NAME.test(clipName);
+
+/** Whether the teacher has recorded this clip. Synchronous, for choosing a backend. */
+export const hasVoiceClip = (clipName: string) => clipNames.has(clipName);
+
+export const getVoiceClipNames = (): string[] => [...clipNames].sort();
+
+/** The recorded clip, or undefined if there is none (or storage is unavailable). */
+export const readVoiceClip = async (clipName: string): Promise<Blob | undefined> => {
+  if (!clipNames.has(clipName)) return undefined;
+  try {
+    return await withClips<Blob | undefined>('readonly', store => store.get(clipName));
+  } catch (e) {
+    console.warn("Could not read voice clip:", e);
+    return undefined;
+  }
+};
+
+export const saveVoiceClip = async (clipName: string, clip: Blob): Promise<void> => {
+  if (!isValidClipName(clipName)) throw new Error(`Invalid clip name: ${clipName}`);
+  await withClips('readwrite', store => {
+    store.put(clip, clipName);
+  });
+  updateIndex([clipName], []);
+};
+
+export const deleteVoiceClip = async (clipName: string): Promise<void> => {
+  await withClips('readwrite', store => {
+    store.delete(clipName);
+  });
+  updateIndex([], [clipName]);
+};
+
+// --- Zip Bundles ---
+
+/** Every recorded clip in one zip, named like the files under /audio (ma3.wav, words/ba4ba.wav). */
+export const exportVoiceClipsZip = async (): Promise<Blob> => {
+  const files = await Promise.all(getVoiceClipNames().map(async clipName => {
+    const clip = await readVoiceClip(clipName);
+    if (!clip) return null;
+    const extension = MIME_EXTENSIONS[clip.type.split(';')[0]] ?? 'wav';
+    return { name: `${clipName}.${extension}`, data: new Uint8Array(await clip.arrayBuffer()) };
+  }));
+  const zip = createZip(files.filter((f): f is NonNullable<typeof f> => f !== null));
+  return new Blob([zip], { type: 'application/zip' });
+};
+
+/**
+ * Adds the clips of a zip bundle, replacing recordings with the same name.
+ * Files that aren't named like a clip are skipped. Resolves with the number imported.
+ */
+export const importVoiceClipsZip = async (zip: Blob): Promise<number> => {
+  const files = await readZip(new Uint8Array(await zip.arrayBuffer()));
+  const clips = files
+    .map(file => {
+      const match = file.name.toLowerCase().match(AUDIO_FILE);
+      const clipName = file.name.toLowerCase().replace(AUDIO_FILE, '');
+      if (!match || !isValidClipName(clipName)) return null;
+      const type = Object.keys(MIME_EXTENSIONS).find(t => MIME_EXTENSIONS[t] === match[1]) ?? 'audio/wav';
+      return { clipName, blob: new Blob([file.data.slice()], { type }) };
+    })
+    .filter((c): c is NonNullable<typeof c> => c !== null);
+
+  await withClips('readwrite', store => {
+    clips.forEach(({ clipName, blob }) => store.put(blob, clipName));
+  });
+  updateIndex(clips.map(c => c.clipName), []);
+  return clips.length;
+};
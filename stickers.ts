@@ -0,0 +1,48 @@
+import { Sticker, StickerPage } from './types';
+
+// Pages of the sticker album, in the order they are shown
+export const STICKER_PAGES: StickerPage[] = [
+  { id: 'sweets', title: '甜品屋', icon: '🧁' },
+  { id: 'animals', title: '动物园', icon: '🐼' },
+  { id: 'sea', title: '海底世界', icon: '🐠' },
+  { id: 'sky', title: '梦幻星空', icon: '🌙' },
+];
+
+// Rarer stickers cost more; every page has a few cheap ones so a first purchase comes quickly
+export const STICKERS: Sticker[] = [
+  { id: 'candy', emoji: '🍬', name: '糖果', price: 10, page: 'sweets' },
+  { id: 'lollipop', emoji: '🍭', name: '棒棒糖', price: 10, page: 'sweets' },
+  { id: 'cookie', emoji: '🍪', name: '饼干', price: 10, page: 'sweets' },
+  { id: 'donut', emoji: '🍩', name: '甜甜圈', price: 15, page: 'sweets' },
+  { id: 'cupcake', emoji: '🧁', name: '纸杯蛋糕', price: 15, page: 'sweets' },
+  { id: 'icecream', emoji: '🍦', name: '冰淇淋', price: 20, page: 'sweets' },
+  { id: 'cake', emoji: '🍰', name: '草莓蛋糕', price: 25, page: 'sweets' },
+  { id: 'birthday', emoji: '🎂', name: '生日蛋糕', price: 40, page: 'sweets' },
+
+  { id: 'chick', emoji: '🐥', name: '小鸡', price: 10, page: 'animals' },
+  { id: 'rabbit', emoji: '🐰', name: '小兔', price: 10, page: 'animals' },
+  { id: 'cat', emoji: '🐱', name: '小猫', price: 10, page: 'animals' },
+  { id: 'bear', emoji: '🐻', name: '小熊', price: 15, page: 'animals' },
+  { id: 'fox', emoji: '🦊', name: '狐狸', price: 15, page: 'animals' },
+  { id: 'panda', emoji: '🐼', name: '熊猫', price: 20, page: 'animals' },
+  { id: 'koala', emoji: '🐨', name: '考拉', price: 25, page: 'animals' },
+  { id: 'unicorn', emoji: '🦄', name: '独角兽', price: 40, page: 'animals' },
+
+  { id: 'shell', emoji: '🐚', name: '贝壳', price: 10, page: 'sea' },
+  { id: 'fish', emoji: '🐟', name: '小鱼', price: 10, page: 'sea' },
+  { id: 'crab', emoji: '🦀', name: '螃蟹', price: 10, page: 'sea' },
+  { id: 'tropical', emoji: '🐠', name: '热带鱼', price: 15, page: 'sea' },
+  { id: 'turtle', emoji: '🐢', name: '海龟', price: 15, page: 'sea' },
+  { id: 'octopus', emoji: '🐙', name: '章鱼', price: 20, page: 'sea' },
+  { id: 'dolphin', emoji: '🐬', name: '海豚', price: 25, page: 'sea' },
+  { id: 'whale', emoji: '🐳', name: '鲸鱼', price: 40, page: 'sea' },
+
+  { id: 'star', emoji: '⭐', name: '星星', price: 10, page: 'sky' },
+  { id: 'cloud', emoji: '☁️', name: '白云', price: 10, page: 'sky' },
+  { id: 'moon', emoji: '🌙', name: '月亮', price: 10, page: 'sky' },
+  { id: 'balloon', emoji: '🎈', name: '气球', price: 15, page: 'sky' },
+  { id: 'rainbow', emoji: '🌈', name: '彩虹', price: 15, page: 'sky' },
+  { id: 'comet', emoji: '☄️', name: '彗星', price: 20, page: 'sky' },
+  { id: 'rocket', emoji: '🚀', name: '火箭', price: 25, page: 'sky' },
+  { id: 'planet', emoji: '🪐', name: '土星', price: 40, page: 'sky' },
+];
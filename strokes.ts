@@ -0,0 +1,81 @@
+import { GridPoint, LetterGlyph, Stroke, Tone } from './types';
+
+// Stroke order of every pinyin letter as taught in first grade (汉语拼音字母笔顺).
+// Coordinates are in four-line-grid units (see GridPoint): the middle space is y 1-2,
+// ascenders (b d f h k l t) reach up to y 0, descenders (g j p q y) down to y 3.
+
+const ARC_STEPS = 24;
+
+// Angles in degrees, 0 = right, 90 = down (screen coordinates). Going from a larger
+// to a smaller angle draws counterclockwise, the way o, c and the bowl of a are written.
+const arc = (cx: number, cy: number, rx: number, ry: number, from: number, to: number): GridPoint[] =>
+  Array.from({ length: ARC_STEPS + 1 }, (_, i) => {
+    const angle = ((from + ((to - from) * i) / ARC_STEPS) * Math.PI) / 180;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+
+const pts = (...coords: number[]): GridPoint[] =>
+  Array.from({ length: coords.length / 2 }, (_, i) => ({ x: coords[i * 2], y: coords[i * 2 + 1] }));
+
+const stroke = (...parts: GridPoint[][]): Stroke => ({ points: parts.flat() });
+const dot = (x: number, y: number): Stroke => ({ points: pts(x, y - 0.05, x, y + 0.05), dot: true });
+
+// Shared shapes
+const leftBowl = (x: number) => arc(x + 0.4, 1.5, 0.38, 0.5, -15, -345);   // a d g q: round part, open on the right
+const rightBowl = (x: number) => arc(x + 0.45, 1.5, 0.4, 0.5, 210, 510);   // b p: from the stem round to the right
+const arch = (left: number, right: number) => [                              // h m n: up over the top, then down
+  ...arc((left + right) / 2, 1.35, (right - left) / 2, 0.35, 180, 360),
+  ...pts(right, 2),
+];
+
+export const LETTER_STROKES: Record<string, LetterGlyph> = {
+  a: { width: 0.85, strokes: [stroke(leftBowl(0)), stroke(pts(0.8, 1, 0.8, 2))] },
+  b: { width: 0.85, strokes: [stroke(pts(0.05, 0, 0.05, 2)), stroke(rightBowl(0))] },
+  c: { width: 0.75, strokes: [stroke(arc(0.42, 1.5, 0.38, 0.5, -40, -320))] },
+  d: { width: 0.85, strokes: [stroke(leftBowl(0)), stroke(pts(0.8, 0, 0.8, 2))] },
+  e: { width: 0.8, strokes: [stroke(pts(0.04, 1.5, 0.78, 1.5), arc(0.41, 1.5, 0.37, 0.5, 0, -320))] },
+  f: { width: 0.65, strokes: [stroke(arc(0.5, 0.45, 0.2, 0.25, -20, -180), pts(0.3, 2)), stroke(pts(0.05, 1, 0.6, 1))] },
+  g: { width: 0.85, strokes: [stroke(leftBowl(0)), stroke(pts(0.8, 1, 0.8, 2.6), arc(0.5, 2.6, 0.3, 0.3, 0, 150))] },
+  h: { width: 0.8, strokes: [stroke(pts(0.05, 0, 0.05, 2)), stroke(arch(0.05, 0.75))] },
+  i: { width: 0.2, strokes: [stroke(pts(0.1, 1, 0.1, 2)), dot(0.1, 0.6)] },
+  j: { width: 0.5, strokes: [stroke(pts(0.4, 1, 0.4, 2.6), arc(0.2, 2.6, 0.2, 0.3, 0, 150)), dot(0.4, 0.6)] },
+  k: { width: 0.7, strokes: [stroke(pts(0.05, 0, 0.05, 2)), stroke(pts(0.65, 1, 0.1, 1.55, 0.65, 2))] },
+  ı: { width: 0.2, strokes: [stroke(pts(0.1, 1, 0.1, 2))] }, // i under a tone mark loses its dot (ī í ǐ ì)
+  l: { width: 0.2, strokes: [stroke(pts(0.1, 0, 0.1, 2))] },
+  m: {
+    width: 1.3,
+    strokes: [stroke(pts(0.05, 1, 0.05, 2)), stroke(arch(0.05, 0.65)), stroke(arch(0.65, 1.25))],
+  },
+  n: { width: 0.8, strokes: [stroke(pts(0.05, 1, 0.05, 2)), stroke(arch(0.05, 0.75))] },
+  o: { width: 0.8, strokes: [stroke(arc(0.4, 1.5, 0.38, 0.5, -90, -450))] },
+  p: { width: 0.85, strokes: [stroke(pts(0.05, 1, 0.05, 3)), stroke(rightBowl(0))] },
+  q: { width: 0.85, strokes: [stroke(leftBowl(0)), stroke(pts(0.8, 1, 0.8, 3))] },
+  r: { width: 0.55, strokes: [stroke(pts(0.05, 1, 0.05, 2)), stroke(arc(0.35, 1.35, 0.3, 0.3, 180, 300))] },
+  s: { width: 0.7, strokes: [stroke(arc(0.35, 1.25, 0.3, 0.25, -20, -270), arc(0.35, 1.75, 0.3, 0.25, -90, 160))] },
+  t: { width: 0.6, strokes: [stroke(pts(0.3, 0.4, 0.3, 1.8), arc(0.5, 1.8, 0.2, 0.2, 180, 90)), stroke(pts(0.05, 1, 0.6, 1))] },
+  u: { width: 0.8, strokes: [stroke(pts(0.05, 1, 0.05, 1.6), arc(0.37, 1.6, 0.32, 0.4, 180, 0)), stroke(pts(0.72, 1, 0.72, 2))] },
+  ü: {
+    width: 0.8,
+    strokes: [
+      stroke(pts(0.05, 1, 0.05, 1.6), arc(0.37, 1.6, 0.32, 0.4, 180, 0)),
+      stroke(pts(0.72, 1, 0.72, 2)),
+      dot(0.22, 0.6),
+      dot(0.55, 0.6),
+    ],
+  },
+  w: { width: 1.2, strokes: [stroke(pts(0, 1, 0.3, 2, 0.6, 1)), stroke(pts(0.6, 1, 0.9, 2, 1.2, 1))] },
+  x: { width: 0.7, strokes: [stroke(pts(0.05, 1, 0.65, 2)), stroke(pts(0.65, 1, 0.05, 2))] },
+  y: { width: 0.75, strokes: [stroke(pts(0.05, 1, 0.4, 2)), stroke(pts(0.7, 1, 0.15, 3))] },
+  z: { width: 0.7, strokes: [stroke(pts(0.05, 1, 0.65, 1, 0.05, 2, 0.7, 2))] },
+};
+
+/** The tone mark centred on (x, y), written left to right like the letters. */
+export const toneMark = (tone: Tone, x: number, y: number): Stroke | null => {
+  switch (tone) {
+    case Tone.FIRST: return stroke(pts(x - 0.22, y, x + 0.22, y));
+    case Tone.SECOND: return stroke(pts(x - 0.14, y + 0.13, x + 0.14, y - 0.13));
+    case Tone.THIRD: return stroke(pts(x - 0.18, y - 0.12, x, y + 0.1, x + 0.18, y - 0.12));
+    case Tone.FOURTH: return stroke(pts(x - 0.14, y - 0.13, x + 0.14, y + 0.13));
+    default: return null;
+  }
+};
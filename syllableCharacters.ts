@@ -0,0 +1,64 @@
+// Characters that speech synthesis reads as a given toned syllable, keyed by syllable (or by
+// the final as taught: i -> yi, ü -> yu). Position n holds the character for tone n+1 and the
+// fifth one the neutral tone (么 me); '·' marks a tone with no plain everyday character (a, ó)
+// or only ambiguous ones (诶). A syllable said without a tone (a blend like ba) uses the first.
+// A voice reading 马 says mǎ; reading the bare "mǎ" it guesses, often with the wrong contour.
+export const NO_CHARACTER = '·';
+
+export const SYLLABLE_CHARACTERS: Record<string, string> = {
+  // --- Finals ---
+  a: '阿', o: '喔', e: '·鹅·饿', i: '衣姨椅意', u: '乌无五雾', ü: '迂鱼雨玉',
+  ai: '哀癌矮爱', ao: '凹熬袄奥', ou: '欧·偶怄', er: '·儿耳二',
+  an: '安·俺岸', en: '恩··摁', ang: '肮昂·盎',
+
+  // --- Whole syllables ---
+  zhi: '知直纸志', chi: '吃池尺翅', shi: '诗十使是', ri: '···日',
+  zi: '资·子字', ci: '疵词此次', si: '思·死四',
+  yi: '衣姨椅意', wu: '乌无五雾', yu: '迂鱼雨玉', ye: '椰爷野叶', yue: '约··月',
+  yuan: '冤圆远院', yin: '因银引印', yun: '晕云允运', ying: '英赢影硬',
+
+  // --- Blended syllables (one common character each; no clear one for dei, den, nou, kei, zhei, cen) ---
+  ba: '八', bo: '波', bi: '逼', bu: '···布', bai: '掰', bei: '杯', bao: '包', bie: '憋',
+  ban: '班', ben: '奔', bin: '宾', bang: '帮', beng: '崩', bing: '冰',
+  pa: '趴', po: '坡', pi: '批', pu: '扑', pai: '拍', pei: '胚', pao: '抛', pou: '剖', pie: '撇',
+  pan: '攀', pen: '喷', pin: '拼', pang: '乓', peng: '烹', ping: '乒',
+  ma: '妈麻马骂', mo: '摸', me: '····么', mi: '眯', mu: '···木', mai: '··买', mei: '·没', mao: '猫',
+  mou: '哞', miu: '···谬', mie: '咩', man: '·蛮', men: '·门', min: '·民', mang: '·忙',
+  meng: '···梦', ming: '·明',
+  fa: '发', fo: '·佛', fu: '夫', fei: '飞', fou: '··否', fan: '帆', fen: '分', fang: '方', feng: '风',
+  da: '搭', de: '·德', di: '低', du: '嘟', dai: '呆', dui: '堆', dao: '刀', dou: '兜', diu: '丢',
+  die: '爹', dan: '单', dun: '吨', dang: '当', deng: '灯', ding: '丁', dong: '冬',
+  ta: '他', te: '···特', ti: '梯', tu: '秃', tai: '胎', tui: '推', tao: '掏', tou: '偷', tie: '贴',
+  tan: '滩', tun: '吞', tang: '汤', teng: '·疼', ting: '听', tong: '通',
+  na: '·拿', ne: '····呢', ni: '·泥', nu: '·奴', nü: '··女', nai: '··奶', nei: '···内', nao: '··脑',
+  niu: '·牛', nie: '捏', nüe: '···虐', nan: '·南', nen: '···嫩', nin: '·您', nang: '·囊',
+  neng: '·能', ning: '·柠', nong: '·农',
+  la: '拉', le: '····了', li: '·梨', lu: '·炉', lü: '···绿', lai: '·来', lei: '·雷', lao: '捞',
+  lou: '·楼', liu: '溜', lie: '···列', lüe: '···略', lan: '·蓝', lin: '·林', lun: '·轮',
+  lang: '·狼', leng: '··冷', ling: '·零', long: '·龙',
+  ga: '嘎', ge: '哥', gu: '姑', gai: '该', gei: '··给', gui: '归', gao: '高', gou: '沟', gan: '甘',
+  gen: '根', gun: '··滚', gang: '刚', geng: '耕', gong: '工',
+  ka: '咖', ke: '科', ku: '哭', kai: '开', kui: '亏', kao: '··考', kou: '抠', kan: '刊', ken: '··肯',
+  kun: '坤', kang: '康', keng: '坑', kong: '空',
+  ha: '哈', he: '喝', hu: '呼', hai: '·孩', hei: '黑', hui: '灰', hao: '··好', hou: '·猴', han: '憨',
+  hen: '··很', hun: '昏', hang: '·航', heng: '哼', hong: '·红',
+  ji: '鸡', ju: '居', jiu: '揪', jie: '接', jue: '·决', jin: '金', jun: '军', jing: '京',
+  qi: '七', qu: '区', qiu: '秋', qie: '切', que: '缺', qin: '亲', qun: '·裙', qing: '青',
+  xi: '西', xu: '需', xiu: '休', xie: '些', xue: '·学', xin: '心', xun: '熏', xing: '星',
+  zha: '渣', zhe: '遮', zhu: '猪', zhai: '摘', zhui: '追', zhao: '招', zhou: '周', zhan: '沾',
+  zhen: '针', zhun: '··准', zhang: '张', zheng: '蒸', zhong: '中',
+  cha: '插', che: '车', chu: '出', chai: '拆', chui: '吹', chao: '抄', chou: '抽', chan: '搀',
+  chen: '·尘', chun: '春', chang: '昌', cheng: '撑', chong: '冲',
+  sha: '沙', she: '赊', shu: '书', shai: '筛', shei: '·谁', shui: '··水', shao: '烧', shou: '收',
+  shan: '山', shen: '身', shun: '···顺', shang: '伤', sheng: '生',
+  re: '···热', ru: '·如', rui: '···瑞', rao: '···绕', rou: '···肉', ran: '·然', ren: '·人',
+  run: '···润', rang: '···让', reng: '扔', rong: '·容',
+  za: '·杂', ze: '·责', zu: '租', zai: '灾', zei: '·贼', zui: '···最', zao: '··早', zou: '··走',
+  zan: '·咱', zen: '··怎', zun: '尊', zang: '脏', zeng: '增', zong: '宗',
+  ca: '擦', ce: '···册', cu: '粗', cai: '猜', cui: '催', cao: '··草', cou: '···凑', can: '餐',
+  cun: '村', cang: '仓', ceng: '·层', cong: '葱',
+  sa: '仨', se: '···色', su: '苏', sai: '腮', sui: '虽', sao: '··扫', sou: '搜', san: '三', sen: '森',
+  sun: '孙', sang: '桑', seng: '僧', song: '松',
+  ya: '鸭', yo: '哟', yao: '腰', you: '优', yan: '烟', yang: '·羊', yong: '拥',
+  wa: '挖', wo: '窝', wai: '歪', wei: '威', wan: '弯', wen: '温', wang: '汪', weng: '翁',
+};
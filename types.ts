@@ -2,12 +2,59 @@ export enum PinyinCategory {
   INITIALS = 'initials',
   FINALS = 'finals',
   OVERALL = 'overall',
+  CUSTOM = 'custom', // Entries of a teacher-made deck
+}
+
+export enum Tone {
+  NEUTRAL = 0, // 轻声
+  FIRST = 1,   // 阴平 ˉ
+  SECOND = 2,  // 阳平 ˊ
+  THIRD = 3,   // 上声 ˇ
+  FOURTH = 4,  // 去声 ˋ
+}
+
+// A picture word that teaches a sound, like the illustrations next to each letter in textbooks
+export interface VocabWord {
+  hanzi: string;  // 爸爸
+  pinyin: string; // Tone-marked, one space between syllables: 'bà ba'
+  emoji: string;  // 👨
 }
 
 export interface PinyinChar {
   char: string;
   category: PinyinCategory;
   example?: string; // e.g., 'b' -> 'ba'
+  tones?: Tone[]; // Tones this syllable can be read with (initials have none)
+  words?: VocabWord[]; // Picture words for this sound (see vocabulary.ts)
+}
+
+// Why two items are easy to mix up
+export enum ConfusionKind {
+  MIRROR = 'mirror',       // Look alike: b/d, p/q, ie/ei
+  NASAL = 'nasal',         // Front vs back nasal: an/ang, in/ing
+  RETROFLEX = 'retroflex', // Flat vs retroflex: z/zh, c/ch, s/sh
+  N_L = 'n_l',             // n vs l
+  PHONETIC = 'phonetic',   // Other sound-alikes: f/h, u/ü
+}
+
+export interface ConfusablePair {
+  a: string;
+  b: string;
+  kind: ConfusionKind;
+  weight: number; // 0..1, how easily the two are confused
+}
+
+export enum Difficulty {
+  EASY = 'easy',     // Distractors never sound or look like the answer
+  MEDIUM = 'medium', // About half of the distractors are confusable
+  HARD = 'hard',     // Every distractor is confusable, where possible
+}
+
+// What the two cards of a memory pair show
+export enum MemoryVariant {
+  CLASSIC = 'classic', // The same letter twice
+  SOUND = 'sound',     // A 🔊 card that plays the syllable, and its written pinyin
+  PICTURE = 'picture', // A picture word, and the letter it starts with (🐟 鱼 -> y)
 }
 
 export enum GameState {
@@ -15,4 +62,194 @@ export enum GameState {
   LEARNING = 'learning',
   QUIZ = 'quiz',
   MEMORY = 'memory',
-}
\ No newline at end of file
+  TONE_QUIZ = 'tone_quiz',
+  BLENDING = 'blending',
+  SPEAK = 'speak',
+  LESSONS = 'lessons',
+  REWARDS = 'rewards',
+  TRACE = 'trace',
+  DASHBOARD = 'dashboard',
+  WORKSHEETS = 'worksheets',
+  DECKS = 'decks',
+  VOICE_STUDIO = 'voice_studio',
+  RUSH = 'rush',
+}
+
+// A child using the app; progress, settings and rewards are stored per profile
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  createdAt: number;
+}
+
+// One answer given by the child, as stored by the progress service
+export interface AttemptRecord {
+  id?: number;           // Auto-assigned by IndexedDB
+  item: string;          // PinyinChar.char that was asked
+  tone?: Tone;           // Set when a specific tone was asked
+  mode: GameState;       // Which game produced the attempt
+  correct: boolean;
+  answer?: string;       // What the child picked, when it differs from the item
+  responseTimeMs: number;
+  timestamp: number;
+}
+
+// Rolled-up progress for one PinyinChar
+export interface MasteryRecord {
+  item: string;
+  attempts: number;
+  correct: number;
+  mastery: number;          // 0..1, recency-weighted accuracy
+  avgResponseMs: number;
+  lastSeen: number;
+}
+
+// Leitner-box review state for one PinyinChar, used to schedule quiz questions
+export interface ReviewRecord {
+  item: string;
+  box: number;        // 1 (keeps missing) .. LEITNER_INTERVALS.length (well known)
+  dueAt: number;      // Timestamp when the item should be asked again
+  lastReviewed: number;
+  confusions: Record<string, number>; // Wrong answer char -> how often it was picked for this item
+}
+
+// One stop on the lesson map, following the first-grade textbook order
+export interface LessonUnit {
+  id: string;
+  title: string;   // As printed in the textbook: 'a o e'
+  icon: string;    // Emoji shown on the map
+  items: string[]; // PinyinChar.char of every item taught in this unit
+}
+
+// The steps of a unit, done in this order
+export enum LessonStep {
+  LEARN = 'learn',
+  QUIZ = 'quiz',
+  MEMORY = 'memory',
+}
+
+export interface UnitProgress {
+  learned: boolean;
+  quizBest: number; // Best first-try accuracy in the unit quiz, 0-1
+  memoryDone: boolean;
+}
+
+// Choices made on the setup screen before a quiz or memory game starts
+export interface SessionConfig {
+  deckId?: string;       // Play a teacher-made deck instead of the built-in letters
+  categories: PinyinCategory[];
+  items: string[];       // Hand-picked PinyinChar.char; empty means every item of the chosen categories
+  length: number;        // Questions (quiz) or pairs (memory)
+  optionCount: number;   // Answer cards per quiz question, 2-6
+  difficulty: Difficulty;
+  timeLimit: number;     // Seconds per quiz question, or for the whole memory board; 0 = no limit
+  advanceDelay: number;  // ms before the next question, or before a wrong pair flips back
+  memoryVariant: MemoryVariant;
+  players: number;       // Memory only: 2 takes turns on one device
+}
+
+// A saved SessionConfig, e.g. the letters of today's lesson
+export interface SessionPreset {
+  id: string;
+  name: string;
+  config: SessionConfig;
+}
+
+// How a finished quiz or memory session went, shown on the summary screen
+export interface SessionResult {
+  mode: GameState;
+  total: number;      // Questions asked, or pairs of cards turned over
+  correct: number;    // Right on the first try, or pairs that matched
+  bestStreak: number; // Longest run of correct answers in a row
+  missed: string[];   // PinyinChar.char of every item answered wrong at least once, in order
+  startedAt: number;
+  endedAt: number;
+}
+
+// A finished Candy Rush game on the device's high-score table
+export interface HighScore {
+  profileId: string;
+  name: string;       // Profile name and avatar when the score was set
+  avatar: string;
+  score: number;
+  level: number;
+  bestCombo: number;
+  date: number;
+}
+
+// A collectible sticker, bought with candies earned in the games
+export interface Sticker {
+  id: string;
+  emoji: string;
+  name: string;
+  price: number; // Candies
+  page: string;  // StickerPage.id of the album page it belongs on
+}
+
+export interface StickerPage {
+  id: string;
+  title: string;
+  icon: string;
+}
+
+// Everything the reward system remembers for one profile
+export interface RewardState {
+  candies: number;        // Current balance
+  candiesEarned: number;  // All-time total, spending doesn't lower it
+  stickers: string[];     // Sticker.id of every sticker owned
+  badges: string[];       // Badge id of every badge earned
+  practiceDays: number[]; // Local midnight of every day with at least one answer, oldest first
+  correctAnswers: number;
+  sessions: number;       // Finished quiz and memory sessions
+  perfectSessions: number;
+}
+
+// A point on the four-line grid (四线三格). x and y are in line spacings: the top line is
+// y = 0 and the bottom line y = 3, so lowercase letters sit in the middle space (1-2).
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+// One pen stroke, in the direction it is written
+export interface Stroke {
+  points: GridPoint[];
+  dot?: boolean; // Dots (i, j, ü) are checked by position only
+}
+
+// How to write one letter: strokes in stroke order, x measured from the letter's left edge
+export interface LetterGlyph {
+  width: number;
+  strokes: Stroke[];
+}
+
+export enum WorksheetKind {
+  FLASHCARDS = 'flashcards', // Cut-out cards with the picture words
+  TRACING = 'tracing',       // Rows of letters to trace and copy on the four-line grid
+  LISTENING = 'listening',   // "Circle the sound you hear", read from an audio playlist
+  BLENDING = 'blending',     // Initials x finals table of syllables
+}
+
+// One syllable on a printed worksheet: an item from constants.ts or one typed in by the teacher
+export interface WorksheetItem {
+  char: string;              // Letters without a tone mark, as drawn on the grid: 'ma'
+  tone?: Tone;               // Typed syllables keep their tone: 'mā'
+  category?: PinyinCategory; // Unset for typed syllables that aren't in the app's lists
+  words: VocabWord[];
+}
+
+// One card of a teacher-made deck: a syllable or a whole word
+export interface DeckEntry {
+  pinyin: string;     // Tone-marked, one space between syllables: 'huā' or 'mā ma'
+  hanzi?: string;
+  emoji?: string;     // Picture shown with the word
+  recorded?: boolean; // The teacher uploaded a recording (kept in IndexedDB, see deckService)
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  entries: DeckEntry[];
+  updatedAt: number;
+}
@@ -0,0 +1,74 @@
+import { rms } from './pitch';
+
+// Analysis frame for finding where the speech starts and ends
+const FRAME_MS = 20;
+// Frames quieter than this share of the loudest frame count as silence...
+const RELATIVE_SILENCE = 0.08;
+// ...and so does anything below this level, however quiet the recording
+const MIN_SPEECH_RMS = 0.01;
+// Kept around the speech so soft consonants and the tail of the vowel aren't clipped
+const PAD_MS = 80;
+
+// Peak level after normalising (about -1 dBFS), and the most a quiet take is boosted
+const TARGET_PEAK = 0.9;
+const MAX_GAIN = 10;
+
+/**
+ * Cuts the silence before and after the speech. Returns an empty array when
+ * nothing louder than background noise was recorded.
+ */
+export function trimSilence(samples: Float32Array, sampleRate: number): Float32Array {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    levels.push(rms(samples.subarray(start, start + frameSize)));
+  }
+
+  const threshold = Math.max(MIN_SPEECH_RMS, Math.max(0, ...levels) * RELATIVE_SILENCE);
+  const first = levels.findIndex(level => level >= threshold);
+  if (first < 0) return new Float32Array(0);
+  let last = levels.length - 1;
+  while (levels[last] < threshold) last--;
+
+  const pad = Math.round((sampleRate * PAD_MS) / 1000);
+  const start = Math.max(0, first * frameSize - pad);
+  const end = Math.min(samples.length, (last + 1) * frameSize + pad);
+  return samples.slice(start, end);
+}
+
+/** Scales the clip so its loudest sample reaches the same level as every other clip. */
+export function normalizeVolume(samples: Float32Array): Float32Array {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (peak === 0) return samples;
+  const gain = Math.min(MAX_GAIN, TARGET_PEAK / peak);
+  return samples.map(s => s * gain);
+}
+
+/** Mono 16-bit PCM WAV, which every browser can play back. */
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);             // Format chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes per second
+  view.setUint16(32, 2, true);              // Bytes per frame
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((s, i) => {
+    const clamped = Math.max(-1, Math.min(1, s));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return buffer;
+}
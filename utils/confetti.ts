@@ -0,0 +1,68 @@
+import confetti from 'canvas-confetti';
+
+// Celebration effects shared by the games. Each one starts by itself and stops on its own.
+
+const CANDY_COLORS = ['#a864fd', '#29cdff', '#78ff44', '#ff718d', '#fdff6a'];
+
+/** Bursts all over the screen for `duration` ms. */
+export const runFireworks = (duration: number) => {
+  const end = Date.now() + duration;
+  const interval: any = setInterval(function() {
+    if (Date.now() > end) return clearInterval(interval);
+    confetti({
+      startVelocity: 30,
+      spread: 360,
+      ticks: 60,
+      zIndex: 100,
+      particleCount: 50,
+      origin: { x: Math.random(), y: Math.random() - 0.2 }
+    });
+  }, 250);
+};
+
+/** Streams from both sides of the screen for `duration` ms. */
+export const runSideCannons = (duration: number) => {
+  const end = Date.now() + duration;
+  const frame = () => {
+    confetti({ particleCount: 5, angle: 60, spread: 55, origin: { x: 0 }, colors: CANDY_COLORS });
+    confetti({ particleCount: 5, angle: 120, spread: 55, origin: { x: 1 }, colors: CANDY_COLORS });
+    if (Date.now() < end) requestAnimationFrame(frame);
+  };
+  frame();
+};
+
+/** Three quick bursts of golden stars. */
+export const runStars = () => {
+  const defaults = { spread: 360, ticks: 50, gravity: 0, decay: 0.94, startVelocity: 30, shapes: ['star'], colors: ['#FFE400', '#FFBD00', '#E89400', '#FFCA6C', '#FDFFB8'] };
+  const shoot = () => {
+    confetti({ ...defaults, particleCount: 40, scalar: 1.2, shapes: ['star'] });
+    confetti({ ...defaults, particleCount: 10, scalar: 0.75, shapes: ['circle'] });
+  };
+  setTimeout(shoot, 0);
+  setTimeout(shoot, 100);
+  setTimeout(shoot, 200);
+};
+
+/** One of the big celebrations above, picked at random. */
+export const runRandomCelebration = () => {
+  const effects = [
+    () => runSideCannons(3000),
+    () => runFireworks(3000),
+    runStars
+  ];
+  effects[Math.floor(Math.random() * effects.length)]();
+};
+
+/** A small pop at a point on the screen (0-1 from the top left), e.g. where a candy was caught. */
+export const popAt = (x: number, y: number) => {
+  confetti({
+    particleCount: 30,
+    spread: 70,
+    startVelocity: 20,
+    ticks: 40,
+    scalar: 0.8,
+    zIndex: 100,
+    origin: { x, y },
+    colors: CANDY_COLORS,
+  });
+};
@@ -0,0 +1,42 @@
+import { ConfusionKind, Difficulty } from '../types';
+import { CONFUSABLE_PAIRS } from '../constants';
+
+export interface Confusable {
+  char: string;
+  kind: ConfusionKind;
+  weight: number;
+}
+
+// char -> its confusables, built once from the symmetric pair list
+const CONFUSABLE_INDEX: Map<string, Confusable[]> = (() => {
+  const index = new Map<string, Confusable[]>();
+  const add = (from: string, to: string, kind: ConfusionKind, weight: number) => {
+    if (!index.has(from)) index.set(from, []);
+    index.get(from)!.push({ char: to, kind, weight });
+  };
+  for (const { a, b, kind, weight } of CONFUSABLE_PAIRS) {
+    add(a, b, kind, weight);
+    add(b, a, kind, weight);
+  }
+  index.forEach(list => list.sort((x, y) => y.weight - x.weight));
+  return index;
+})();
+
+/** Items that look or sound like `char`, most confusable first. */
+export function getConfusables(char: string): Confusable[] {
+  return CONFUSABLE_INDEX.get(char) ?? [];
+}
+
+/** 0 for unrelated items, up to 1 for classic pairs like b/d or an/ang. */
+export function getSimilarity(a: string, b: string): number {
+  return getConfusables(a).find(c => c.char === b)?.weight ?? 0;
+}
+
+/** How many of `count` distractors should be hard (confusable) ones at a given difficulty. */
+export function hardDistractorCount(difficulty: Difficulty, count: number): number {
+  switch (difficulty) {
+    case Difficulty.EASY: return 0;
+    case Difficulty.MEDIUM: return Math.ceil(count / 2);
+    case Difficulty.HARD: return count;
+  }
+}
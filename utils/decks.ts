@@ -0,0 +1,144 @@
+import { Deck, DeckEntry, PinyinCategory, PinyinChar, Tone } from '../types';
+import { applyToneMark, isValidSyllable, parseToneMark } from './pinyin';
+
+// Picture for a deck word the teacher gave no emoji
+const DEFAULT_WORD_EMOJI = '📖';
+
+const CSV_COLUMNS: (keyof DeckEntry)[] = ['pinyin', 'hanzi', 'emoji'];
+
+export interface DeckIssue {
+  index: number;   // Entry the problem is in
+  message: string; // Shown to the teacher
+}
+
+/**
+ * Tidies typed pinyin: lowercase, single spaces, v for ü, and tone numbers turned into
+ * marks on the right vowel (hua1 -> huā, ma5 -> ma), for keyboards without tone marks.
+ */
+export function normalizeDeckPinyin(text: string): string {
+  return text
+    .normalize('NFC') // Tone marks typed as combining accents
+    .trim()
+    .toLowerCase()
+    .replace(/v/g, 'ü')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(syllable => {
+      const numbered = syllable.match(/^([a-zü]+)([0-5])$/);
+      if (!numbered) return syllable;
+      const tone = Number(numbered[2]);
+      return tone >= 1 && tone <= 4 ? applyToneMark(numbered[1], tone as Tone) : numbered[1];
+    })
+    .join(' ');
+}
+
+// Tone-marked vowels, to catch a syllable with two marks
+const MARKED_VOWEL = /[āáǎàōóǒòēéěèīíǐìūúǔùǖǘǚǜ]/g;
+
+/** Why a syllable breaks the pinyin spelling rules, or null if it is fine. */
+function checkSyllable(marked: string): string | null {
+  if ((marked.match(MARKED_VOWEL) ?? []).length > 1) return `“${marked}” 只能标一个声调`;
+  const { syllable, tone } = parseToneMark(marked);
+  if (/^[jqxy]ü/.test(syllable)) return `“${marked}”：小ü见了 j q x y，要去掉两点`;
+  if (!isValidSyllable(syllable)) return `“${marked}” 不是拼音里的音节`;
+  const correct = applyToneMark(syllable, tone);
+  if (correct !== marked) return `“${marked}” 的声调标错了位置，应该写成 “${correct}”`;
+  return null;
+}
+
+/** Checks one entry's pinyin against the spelling rules; null if it is fine. */
+export function checkDeckPinyin(pinyin: string): string | null {
+  if (!pinyin.trim()) return '请填写拼音';
+  for (const syllable of pinyin.split(' ')) {
+    const problem = checkSyllable(syllable);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/** Every problem that stops a deck from being saved. */
+export function validateDeck(name: string, entries: DeckEntry[]): DeckIssue[] {
+  const issues: DeckIssue[] = [];
+  if (!name.trim()) issues.push({ index: -1, message: '请给词卡本起个名字' });
+  if (entries.length === 0) issues.push({ index: -1, message: '词卡本里至少要有一张卡片' });
+
+  entries.forEach((entry, index) => {
+    const problem = checkDeckPinyin(entry.pinyin);
+    if (problem) {
+      issues.push({ index, message: problem });
+    } else if (entries.findIndex(e => e.pinyin === entry.pinyin) !== index) {
+      issues.push({ index, message: `“${entry.pinyin}” 重复了` });
+    }
+  });
+  return issues;
+}
+
+/** A deck as game items, so it can stand in for the built-in letters. */
+export const deckItems = (deck: Deck): PinyinChar[] =>
+  deck.entries.map(entry => ({
+    char: entry.pinyin,
+    category: PinyinCategory.CUSTOM,
+    words: entry.hanzi ? [{ hanzi: entry.hanzi, pinyin: entry.pinyin, emoji: entry.emoji || DEFAULT_WORD_EMOJI }] : [],
+  }));
+
+// --- CSV ---
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** pinyin,hanzi,emoji with a header row. Recordings only travel in the JSON format. */
+export const deckToCsv = (entries: DeckEntry[]): string =>
+  [CSV_COLUMNS.join(','), ...entries.map(e => CSV_COLUMNS.map(c => csvField(String(e[c] ?? ''))).join(','))].join('\n') + '\n';
+
+/** Splits CSV text into rows of fields, honouring quoted fields. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+/**
+ * Reads entries from CSV. A header row naming the columns is optional; without one the columns
+ * are pinyin, hanzi, emoji. Pinyin is normalised but not validated (the editor shows problems).
+ */
+export function parseDeckCsv(text: string): DeckEntry[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) throw new Error('CSV 文件是空的');
+
+  const header = rows[0].map(f => f.trim().toLowerCase());
+  const hasHeader = header.includes('pinyin');
+  const column = (name: keyof DeckEntry) => (hasHeader ? header.indexOf(name) : CSV_COLUMNS.indexOf(name));
+
+  return rows.slice(hasHeader ? 1 : 0).map(fields => {
+    const get = (name: keyof DeckEntry) => (column(name) >= 0 ? fields[column(name)]?.trim() ?? '' : '');
+    return {
+      pinyin: normalizeDeckPinyin(get('pinyin')),
+      ...(get('hanzi') && { hanzi: get('hanzi') }),
+      ...(get('emoji') && { emoji: get('emoji') }),
+    };
+  });
+}
@@ -0,0 +1,168 @@
+import { GridPoint, Stroke, Tone } from '../types';
+import { LETTER_STROKES, toneMark } from '../strokes';
+import { findToneVowelIndex } from './pinyin';
+
+// Space between the letters of a syllable, in line spacings
+const LETTER_GAP = 0.2;
+
+// Height of the tone mark's centre: in the top space, above ü's dots when on ü
+const TONE_MARK_Y = 0.6;
+const TONE_MARK_Y_OVER_DOTS = 0.3;
+
+// Points per stroke after resampling, so strokes drawn at any speed compare point by point
+const RESAMPLE_POINTS = 32;
+
+// Mean distance (line spacings) at which a stroke scores zero. A stroke shifted into the
+// neighbouring space of the grid is about one spacing off.
+const MAX_STROKE_DISTANCE = 0.6;
+
+// Further off than this and the stroke is reported as misplaced
+const POSITION_TOLERANCE = 0.25;
+
+// A stroke whose reverse fits this much better was written the wrong way round
+const REVERSED_RATIO = 0.6;
+
+export interface SyllableLayout {
+  width: number;
+  strokes: Stroke[];
+  letters: { char: string; x: number; width: number }[]; // Left edge and width of each letter
+}
+
+export type StrokeIssue = 'direction' | 'order' | 'position';
+
+export interface StrokeFeedback {
+  index: number; // Template stroke number, from 0
+  score: number; // 0..1
+  issue?: StrokeIssue;
+}
+
+export interface TraceScore {
+  score: number; // 0..1
+  strokes: StrokeFeedback[];
+  missing: number; // Template strokes the child didn't draw
+  extra: number;   // Strokes drawn beyond the template
+}
+
+/** True if every letter of `text` has stroke data. */
+export const canTrace = (text: string): boolean => [...text].every(letter => letter in LETTER_STROKES);
+
+/** Lays the letters of a syllable side by side on the grid, strokes in writing order. */
+export function layoutSyllable(text: string): SyllableLayout {
+  const letters: SyllableLayout['letters'] = [];
+  const strokes: Stroke[] = [];
+  let x = 0;
+
+  for (const char of text) {
+    const glyph = LETTER_STROKES[char];
+    if (!glyph) continue;
+    if (letters.length > 0) x += LETTER_GAP;
+    letters.push({ char, x, width: glyph.width });
+    glyph.strokes.forEach(s => strokes.push({ ...s, points: s.points.map(p => ({ x: p.x + x, y: p.y })) }));
+    x += glyph.width;
+  }
+  return { width: x, strokes, letters };
+}
+
+/** Like layoutSyllable, with the tone mark over the vowel that carries it. */
+export function layoutMarkedSyllable(text: string, tone: Tone): SyllableLayout {
+  const idx = findToneVowelIndex(text);
+  if (tone === Tone.NEUTRAL || idx === -1) return layoutSyllable(text);
+
+  const letters = [...text];
+  if (letters[idx] === 'i') letters[idx] = 'ı';
+  const layout = layoutSyllable(letters.join(''));
+  const vowel = layout.letters[idx];
+  const mark = vowel && toneMark(tone, vowel.x + vowel.width / 2, letters[idx] === 'ü' ? TONE_MARK_Y_OVER_DOTS : TONE_MARK_Y);
+  return mark ? { ...layout, strokes: [...layout.strokes, mark] } : layout;
+}
+
+const distance = (a: GridPoint, b: GridPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** `count` points evenly spaced along the path. A single point (a tap) is repeated. */
+export function resample(points: GridPoint[], count: number = RESAMPLE_POINTS): GridPoint[] {
+  if (points.length === 0) return [];
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  const total = lengths[lengths.length - 1];
+  if (total === 0) return Array.from({ length: count }, () => ({ ...points[0] }));
+
+  const result: GridPoint[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < points.length - 1 && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1];
+    const t = span === 0 ? 0 : (target - lengths[segment - 1]) / span;
+    const a = points[segment - 1];
+    const b = points[segment];
+    result.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return result;
+}
+
+const centroid = (points: GridPoint[]): GridPoint => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/** Mean distance between two resampled strokes, point by point. */
+const pathDistance = (a: GridPoint[], b: GridPoint[]) =>
+  a.reduce((sum, p, i) => sum + distance(p, b[i]), 0) / a.length;
+
+/** How far a drawn stroke is from a template stroke. Dots only compare where they are. */
+function strokeDistance(drawn: GridPoint[], template: Stroke): { forward: number; reversed: number } {
+  if (template.dot) {
+    const d = distance(centroid(drawn), centroid(template.points));
+    return { forward: d, reversed: d };
+  }
+  const a = resample(drawn);
+  const b = resample(template.points);
+  return { forward: pathDistance(a, b), reversed: pathDistance([...a].reverse(), b) };
+}
+
+/**
+ * Scores a traced attempt against the template. Drawn strokes are compared in order with the
+ * template strokes; each is checked for position on the grid, direction and stroke order.
+ */
+export function scoreTrace(template: Stroke[], drawn: GridPoint[][]): TraceScore {
+  const attempts = drawn.filter(s => s.length > 0);
+  const strokes: StrokeFeedback[] = template.map((templateStroke, index) => {
+    const stroke = attempts[index];
+    if (!stroke) return { index, score: 0 };
+
+    const { forward, reversed } = strokeDistance(stroke, templateStroke);
+    const fit = Math.min(forward, reversed);
+    let score = Math.max(0, 1 - forward / MAX_STROKE_DISTANCE);
+    let issue: StrokeIssue | undefined;
+
+    // A good fit to another stroke means the strokes were written in the wrong order
+    const fitsOther = template.some((other, j) => {
+      if (j === index) return false;
+      const d = strokeDistance(stroke, other);
+      return Math.min(d.forward, d.reversed) < Math.min(fit, POSITION_TOLERANCE);
+    });
+
+    if (fitsOther) {
+      issue = 'order';
+    } else if (!templateStroke.dot && reversed < forward * REVERSED_RATIO && reversed < POSITION_TOLERANCE) {
+      issue = 'direction';
+      score = Math.max(0, 1 - reversed / MAX_STROKE_DISTANCE) * 0.5;
+    } else if (forward > POSITION_TOLERANCE) {
+      issue = 'position';
+    }
+    return { index, score, issue };
+  });
+
+  const missing = Math.max(0, template.length - attempts.length);
+  const extra = Math.max(0, attempts.length - template.length);
+  const total = strokes.reduce((sum, s) => sum + s.score, 0) / Math.max(1, template.length);
+  return { score: Math.max(0, total - extra / Math.max(1, template.length)), strokes, missing, extra };
+}
+
+/** 1-3 stars, like the read-after-me mode. Three stars also need every stroke right. */
+export function traceStars(result: TraceScore): number {
+  const flawless = result.missing === 0 && result.extra === 0 && result.strokes.every(s => !s.issue);
+  if (result.score >= 0.75 && flawless) return 3;
+  if (result.score >= 0.5) return 2;
+  return 1;
+}
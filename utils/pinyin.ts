@@ -0,0 +1,154 @@
+import { Tone } from '../types';
+
+// Tone-marked forms for each vowel, indexed by tone (1-4)
+const TONE_MARKED_VOWELS: Record<string, string[]> = {
+  a: ['a', 'ā', 'á', 'ǎ', 'à'],
+  o: ['o', 'ō', 'ó', 'ǒ', 'ò'],
+  e: ['e', 'ē', 'é', 'ě', 'è'],
+  i: ['i', 'ī', 'í', 'ǐ', 'ì'],
+  u: ['u', 'ū', 'ú', 'ǔ', 'ù'],
+  ü: ['ü', 'ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+/**
+ * Finds which letter of a syllable carries the tone mark.
+ * - a/o/e always win ("有 a 不放过，没 a 找 o e").
+ * - Otherwise i and u share a final (iu, ui): the mark goes on the last one.
+ * Returns -1 if the syllable has no vowel (e.g. a bare initial).
+ */
+export function findToneVowelIndex(syllable: string): number {
+  for (const vowel of ['a', 'o', 'e']) {
+    const idx = syllable.indexOf(vowel);
+    if (idx !== -1) return idx;
+  }
+
+  for (let i = syllable.length - 1; i >= 0; i--) {
+    if ('iuü'.includes(syllable[i])) return i;
+  }
+
+  return -1;
+}
+
+/**
+ * Puts the tone mark on the correct vowel: applyToneMark('ma', Tone.THIRD) -> 'mǎ'.
+ * Neutral tone (and syllables without vowels) are returned unchanged.
+ * Accepts 'v' as a keyboard stand-in for 'ü'.
+ */
+export function applyToneMark(syllable: string, tone: Tone): string {
+  const normalized = syllable.replace(/v/g, 'ü');
+  if (tone === Tone.NEUTRAL) return normalized;
+
+  const idx = findToneVowelIndex(normalized);
+  if (idx === -1) return normalized;
+
+  const marked = TONE_MARKED_VOWELS[normalized[idx]][tone];
+  return normalized.slice(0, idx) + marked + normalized.slice(idx + 1);
+}
+
+/**
+ * Reverses applyToneMark: parseToneMark('mǎ') -> { syllable: 'ma', tone: Tone.THIRD }.
+ * Syllables without a mark are neutral.
+ */
+export function parseToneMark(marked: string): { syllable: string; tone: Tone } {
+  for (const [vowel, forms] of Object.entries(TONE_MARKED_VOWELS)) {
+    for (let tone = 1; tone <= 4; tone++) {
+      const idx = marked.indexOf(forms[tone]);
+      if (idx !== -1) {
+        return { syllable: marked.slice(0, idx) + vowel + marked.slice(idx + 1), tone: tone as Tone };
+      }
+    }
+  }
+  return { syllable: marked, tone: Tone.NEUTRAL };
+}
+
+// Initials that only ever meet ü, never u (so a written "u" after them is really ü)
+const U_UMLAUT_INITIALS = ['j', 'q', 'x', 'y'];
+
+const UMLAUT_FINALS: Record<string, string> = { u: 'ü', un: 'ün', ue: 'üe' };
+
+export interface BlendResult {
+  initial: string;
+  final: string;    // The final actually pronounced (u after j/q/x/y becomes ü)
+  syllable: string; // The syllable as written, after y/w and ü spelling rules
+  rule?: string;    // The spelling rhyme to show the child, when a rule applied
+}
+
+/** Returns true if the initial and final form a real syllable. */
+export function canBlend(initial: string, final: string): boolean {
+  return blendSyllable(initial, final) !== null;
+}
+
+/**
+ * Blends an initial and a final into a written syllable (b + a -> ba).
+ * - j/q/x/y + u is read as ü; the dots are dropped in writing (j + ü -> ju).
+ * - y/w spelling: y + i -> yi, y + ie -> ye, y + in -> yin, y + ing -> ying, w + u -> wu.
+ * Returns null for combinations that do not exist (e.g. b + ü).
+ */
+export function blendSyllable(initial: string, rawFinal: string): BlendResult | null {
+  const final = U_UMLAUT_INITIALS.includes(initial) && UMLAUT_FINALS[rawFinal]
+    ? UMLAUT_FINALS[rawFinal]
+    : rawFinal;
+  // y + e would also spell ye, which is y + ie
+  if (initial === 'y' && final === 'e') return null;
+
+  // Legal exactly when the written syllable is a real one for this initial, so blending
+  // and the deck spelling check (isValidSyllable) can never disagree
+  const result = spellBlend(initial, final);
+  return SYLLABLES_BY_INITIAL[initial]?.split(' ').includes(result.syllable) ? result : null;
+}
+
+// Applies the y/w and ü spelling rules to an initial and the final actually pronounced
+function spellBlend(initial: string, final: string): BlendResult {
+  if (final.startsWith('ü') && U_UMLAUT_INITIALS.includes(initial)) {
+    const rule = initial === 'y'
+      ? '小ü见了大y，去掉两点还读ü'
+      : '小ü见了j q x，去掉两点还读ü';
+    return { initial, final, syllable: initial + final.replace('ü', 'u'), rule };
+  }
+
+  if (initial === 'y' && final.startsWith('i')) {
+    // yi / yin / ying keep the i; ie drops it (ye)
+    const syllable = final === 'ie' ? 'ye' : 'y' + final;
+    return { initial, final, syllable, rule: 'i 开头的韵母前面加 y' };
+  }
+
+  if (initial === 'w' && final === 'u') {
+    return { initial, final, syllable: 'wu', rule: 'u 自成音节写作 wu' };
+  }
+
+  return { initial, final, syllable: initial + final };
+}
+
+// Every syllable of standard Mandarin, by initial: decides which blends exist, and checks
+// pinyin typed in by teachers (huā, xiǎo, guǒ ...).
+const SYLLABLES_BY_INITIAL: Record<string, string> = {
+  '': 'a o e ai ei ao ou an en ang eng er',
+  y: 'yi ya yo ye yao you yan yin yang ying yong yu yue yuan yun',
+  w: 'wu wa wo wai wei wan wen wang weng',
+  b: 'ba bo bai bei bao ban ben bang beng bi bie biao bian bin bing bu',
+  p: 'pa po pai pei pao pou pan pen pang peng pi pie piao pian pin ping pu',
+  m: 'ma mo me mai mei mao mou man men mang meng mi mie miao miu mian min ming mu',
+  f: 'fa fo fei fou fan fen fang feng fu',
+  d: 'da de dai dei dao dou dan den dang deng dong di dia die diao diu dian ding du duo dui duan dun',
+  t: 'ta te tai tao tou tan tang teng tong ti tie tiao tian ting tu tuo tui tuan tun',
+  n: 'na ne nai nei nao nou nan nen nang neng nong ni nie niao niu nian nin niang ning nu nuo nuan nü nüe',
+  l: 'la le lai lei lao lou lan lang leng long li lia lie liao liu lian lin liang ling lu luo luan lun lü lüe',
+  g: 'ga ge gai gei gao gou gan gen gang geng gong gu gua guo guai gui guan gun guang',
+  k: 'ka ke kai kei kao kou kan ken kang keng kong ku kua kuo kuai kui kuan kun kuang',
+  h: 'ha he hai hei hao hou han hen hang heng hong hu hua huo huai hui huan hun huang',
+  j: 'ji jia jie jiao jiu jian jin jiang jing jiong ju jue juan jun',
+  q: 'qi qia qie qiao qiu qian qin qiang qing qiong qu que quan qun',
+  x: 'xi xia xie xiao xiu xian xin xiang xing xiong xu xue xuan xun',
+  zh: 'zha zhe zhi zhai zhei zhao zhou zhan zhen zhang zheng zhong zhu zhua zhuo zhuai zhui zhuan zhun zhuang',
+  ch: 'cha che chi chai chao chou chan chen chang cheng chong chu chua chuo chuai chui chuan chun chuang',
+  sh: 'sha she shi shai shei shao shou shan shen shang sheng shu shua shuo shuai shui shuan shun shuang',
+  r: 're ri rao rou ran ren rang reng rong ru rua ruo rui ruan run',
+  z: 'za ze zi zai zei zao zou zan zen zang zeng zong zu zuo zui zuan zun',
+  c: 'ca ce ci cai cao cou can cen cang ceng cong cu cuo cui cuan cun',
+  s: 'sa se si sai sao sou san sen sang seng song su suo sui suan sun',
+};
+
+const ALL_SYLLABLES = new Set(Object.values(SYLLABLES_BY_INITIAL).join(' ').split(' '));
+
+/** True for a real Mandarin syllable, written without its tone mark (hua, lü, ju). */
+export const isValidSyllable = (syllable: string): boolean => ALL_SYLLABLES.has(syllable);
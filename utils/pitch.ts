@@ -0,0 +1,197 @@
+import { Tone } from '../types';
+
+// Pitch tracking works on a downsampled signal: voices sit well below 1 kHz,
+// and YIN's cost grows with the square of the frame length.
+const ANALYSIS_RATE = 12000;
+const FRAME_MS = 40;
+const HOP_MS = 10;
+
+// Covers adult model voices and children's speech
+const MIN_HZ = 70;
+const MAX_HZ = 700;
+
+// Frames quieter than this (RMS) are treated as silence
+const SILENCE_RMS = 0.01;
+
+// YIN: the first dip of the normalized difference function below this is the period
+const YIN_THRESHOLD = 0.15;
+
+// Points every normalized contour is resampled to, so contours of any length compare
+export const CONTOUR_POINTS = 24;
+
+// Fewer voiced frames than this is "nothing was said"
+const MIN_VOICED_FRAMES = 6;
+
+// Box-filter decimation; good enough to keep the fundamental and drop what YIN does not need
+function downsample(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  if (factor === 1) return { samples, sampleRate };
+
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return { samples: out, sampleRate: sampleRate / factor };
+}
+
+export function rms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / (frame.length || 1));
+}
+
+/**
+ * Estimates the fundamental frequency of one frame with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002). Returns null for silent or unvoiced frames.
+ * The frame must hold at least two periods of MIN_HZ.
+ */
+export function detectPitch(frame: Float32Array, sampleRate: number): number | null {
+  if (rms(frame) < SILENCE_RMS) return null;
+
+  const tauMin = Math.floor(sampleRate / MAX_HZ);
+  const tauMax = Math.min(Math.floor(sampleRate / MIN_HZ), Math.floor(frame.length / 2));
+  const window = frame.length - tauMax;
+
+  // Cumulative mean normalized difference function
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let diff = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = frame[j] - frame[j + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum === 0 ? 1 : (diff * tau) / runningSum;
+  }
+
+  let tau = tauMin;
+  while (tau <= tauMax && cmnd[tau] >= YIN_THRESHOLD) tau++;
+  if (tau > tauMax) return null;
+  // Walk down to the bottom of the dip
+  while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) tau++;
+
+  // Parabolic interpolation between neighbouring lags for sub-sample accuracy
+  let period = tau;
+  if (tau > 1 && tau < tauMax) {
+    const a = cmnd[tau - 1], b = cmnd[tau], c = cmnd[tau + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) period = tau + (a - c) / (2 * denominator);
+  }
+
+  return sampleRate / period;
+}
+
+/**
+ * Tracks pitch across a whole recording: one value (Hz) per 10ms hop, null where unvoiced.
+ */
+export function extractPitchContour(samples: Float32Array, sampleRate: number): (number | null)[] {
+  const signal = downsample(samples, sampleRate);
+  const frameSize = Math.round(signal.sampleRate * FRAME_MS / 1000);
+  const hop = Math.round(signal.sampleRate * HOP_MS / 1000);
+
+  const contour: (number | null)[] = [];
+  for (let start = 0; start + frameSize <= signal.samples.length; start += hop) {
+    contour.push(detectPitch(signal.samples.subarray(start, start + frameSize), signal.sampleRate));
+  }
+  return contour;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function resample(values: number[], points: number): number[] {
+  if (values.length === 1) return Array(points).fill(values[0]);
+  return Array.from({ length: points }, (_, i) => {
+    const pos = (i / (points - 1)) * (values.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(lo + 1, values.length - 1);
+    return values[lo] + (values[hi] - values[lo]) * (pos - lo);
+  });
+}
+
+/**
+ * Turns a raw contour into a comparable tone shape:
+ * - Keeps the span from the first to the last voiced frame, bridging short gaps.
+ * - Converts Hz to semitones around the speaker's own average, so a child's high voice
+ *   and an adult's low voice can be compared.
+ * - Median-smooths away octave jumps and resamples to CONTOUR_POINTS.
+ * Returns null when too little of the recording was voiced.
+ */
+export function normalizeContour(contour: (number | null)[]): number[] | null {
+  const first = contour.findIndex(v => v !== null);
+  if (first === -1) return null;
+  let last = contour.length - 1;
+  while (contour[last] === null) last--;
+
+  const span = contour.slice(first, last + 1);
+  const voiced = span.filter((v): v is number => v !== null);
+  if (voiced.length < MIN_VOICED_FRAMES) return null;
+
+  // Fill unvoiced gaps by linear interpolation between their voiced neighbours
+  const filled: number[] = [];
+  let prevIndex = 0;
+  span.forEach((v, i) => {
+    if (v === null) return;
+    const prev = span[prevIndex] as number;
+    for (let k = prevIndex + 1; k < i; k++) {
+      filled[k] = prev + (v - prev) * ((k - prevIndex) / (i - prevIndex));
+    }
+    filled[i] = v;
+    prevIndex = i;
+  });
+
+  const smoothed = filled.map((_, i) => median(filled.slice(Math.max(0, i - 2), i + 3)));
+  const semitones = smoothed.map(hz => 12 * Math.log2(hz));
+  const mean = semitones.reduce((sum, s) => sum + s, 0) / semitones.length;
+  return resample(semitones.map(s => s - mean), CONTOUR_POINTS);
+}
+
+// Chao tone letters (1 = lowest, 5 = highest): 55, 35, 214, 51
+const TONE_LEVELS: Record<Tone, number[]> = {
+  [Tone.NEUTRAL]: [3, 3],
+  [Tone.FIRST]: [5, 5],
+  [Tone.SECOND]: [3, 5],
+  [Tone.THIRD]: [2, 1, 4],
+  [Tone.FOURTH]: [5, 1],
+};
+
+// Roughly how far apart two Chao levels are for a typical speaker
+const SEMITONES_PER_LEVEL = 2.5;
+
+/**
+ * The textbook contour of a tone, in the same shape normalizeContour produces.
+ * Used as the reference when there is no recorded clip to compare against.
+ */
+export function toneTemplate(tone: Tone): number[] {
+  const curve = resample(TONE_LEVELS[tone].map(level => level * SEMITONES_PER_LEVEL), CONTOUR_POINTS);
+  const mean = curve.reduce((sum, s) => sum + s, 0) / curve.length;
+  return curve.map(s => s - mean);
+}
+
+// RMS difference (semitones) at which a contour no longer counts as the same tone
+const MAX_CONTOUR_DISTANCE = 3;
+
+/**
+ * How closely two normalized contours match: 1 is identical, 0 is a different tone.
+ */
+export function compareContours(reference: number[], attempt: number[]): number {
+  const sumSquares = reference.reduce((sum, r, i) => sum + (r - attempt[i]) ** 2, 0);
+  const distance = Math.sqrt(sumSquares / reference.length);
+  return Math.max(0, 1 - distance / MAX_CONTOUR_DISTANCE);
+}
+
+/**
+ * Star rating for the read-after-me mode: 0 means nothing was heard, otherwise 1-3.
+ */
+export function similarityToStars(similarity: number | null): number {
+  if (similarity === null) return 0;
+  if (similarity >= 0.65) return 3;
+  if (similarity >= 0.4) return 2;
+  return 1;
+}
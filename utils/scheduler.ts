@@ -0,0 +1,129 @@
+import { AttemptRecord, PinyinChar, ReviewRecord } from '../types';
+import { getConfusables } from './confusables';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How long an item rests in each Leitner box before it is due again (box 1 = index 0)
+export const LEITNER_INTERVALS = [0, 10 * MINUTE, 1 * DAY, 3 * DAY, 7 * DAY];
+
+// Never-seen items rank between "just missed" (box 1) and "getting there" (box 2)
+const NEW_ITEM_PRIORITY = 1.5;
+
+/**
+ * Moves an item between Leitner boxes after an answer.
+ * - Correct: up one box (capped at the last one). A never-seen item starts in box 1,
+ *   so a correct first answer reaches box 2 and is not due again straight away.
+ * - Wrong: back to box 1, and the wrong answer is remembered as a confusion.
+ */
+export function nextReview(previous: ReviewRecord | undefined, attempt: AttemptRecord): ReviewRecord {
+  const prevBox = previous?.box ?? 1;
+  const box = attempt.correct ? Math.min(prevBox + 1, LEITNER_INTERVALS.length) : 1;
+
+  const confusions = { ...(previous?.confusions ?? {}) };
+  if (!attempt.correct && attempt.answer) {
+    confusions[attempt.answer] = (confusions[attempt.answer] ?? 0) + 1;
+  }
+
+  return {
+    item: attempt.item,
+    box,
+    dueAt: attempt.timestamp + LEITNER_INTERVALS[box - 1],
+    lastReviewed: attempt.timestamp,
+    confusions,
+  };
+}
+
+/**
+ * Picks the next question: due items from the lowest box first, then new items, then the rest.
+ * If nothing is due, the item that becomes due soonest is asked.
+ * `exclude` avoids asking the same item twice in a row.
+ */
+export function pickNextItem(
+  items: PinyinChar[],
+  reviews: Map<string, ReviewRecord>,
+  now: number = Date.now(),
+  exclude?: string
+): PinyinChar {
+  const candidates = items.length > 1 ? items.filter(i => i.char !== exclude) : items;
+
+  const priority = (item: PinyinChar) => {
+    const review = reviews.get(item.char);
+    return review ? review.box : NEW_ITEM_PRIORITY;
+  };
+  const isDue = (item: PinyinChar) => {
+    const review = reviews.get(item.char);
+    return !review || review.dueAt <= now;
+  };
+
+  const due = candidates.filter(isDue);
+  if (due.length === 0) {
+    return candidates.reduce((soonest, item) =>
+      reviews.get(item.char)!.dueAt < reviews.get(soonest.char)!.dueAt ? item : soonest
+    );
+  }
+
+  const best = Math.min(...due.map(priority));
+  const group = due.filter(item => priority(item) === best);
+  return group[Math.floor(Math.random() * group.length)];
+}
+
+// Hard options are drawn from this many more top confusables than there are hard slots,
+// so b/d is likely but p/q or an older mix-up still gets a turn
+const HARD_POOL_EXTRA = 2;
+
+// Picks up to `n` values without replacement, each with a chance proportional to its weight
+function weightedSample<T>(candidates: { value: T; weight: number }[], n: number): T[] {
+  const left = [...candidates];
+  const picked: T[] = [];
+  while (picked.length < n && left.length > 0) {
+    let roll = Math.random() * left.reduce((sum, c) => sum + c.weight, 0);
+    const index = left.findIndex(c => (roll -= c.weight) < 0);
+    picked.push(left.splice(index === -1 ? left.length - 1 : index, 1)[0].value);
+  }
+  return picked;
+}
+
+/**
+ * Picks wrong options for a question.
+ * Up to `hardCount` of them are hard, sampled by score from the top confusables: items the child
+ * has confused with the target before score highest, then items that look or sound alike
+ * (b/d, an/ang, z/zh) by similarity. The rest are picked at random from items that are NOT
+ * similar, so an easy question stays easy.
+ */
+export function pickDistractors(
+  target: PinyinChar,
+  items: PinyinChar[],
+  review: ReviewRecord | undefined,
+  count: number,
+  hardCount: number = count
+): PinyinChar[] {
+  const pool = items.filter(i => i.char !== target.char);
+  const byChar = (char: string) => pool.find(i => i.char === char);
+
+  // Past mix-ups outrank every look-alike (similarity is at most 1)
+  const scores = new Map<PinyinChar, number>();
+  Object.entries(review?.confusions ?? {}).forEach(([char, times]) => {
+    const item = byChar(char);
+    if (item) scores.set(item, 1 + times);
+  });
+  getConfusables(target.char).forEach(({ char, weight }) => {
+    const item = byChar(char);
+    if (item && !scores.has(item)) scores.set(item, weight);
+  });
+
+  const slots = Math.min(hardCount, count);
+  const top = [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, slots + HARD_POOL_EXTRA)
+    .map(([value, weight]) => ({ value, weight }));
+  const hard = weightedSample(top, slots);
+
+  const isSimilar = (item: PinyinChar) => scores.has(item);
+  const shuffled = pool.filter(i => !hard.includes(i)).sort(() => Math.random() - 0.5);
+  // Prefer unrelated items for the easy slots; fall back to similar ones if the pool is too small
+  const rest = [...shuffled.filter(i => !isSimilar(i)), ...shuffled.filter(isSimilar)]
+    .slice(0, count - hard.length);
+
+  return [...hard, ...rest];
+}
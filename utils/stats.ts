@@ -0,0 +1,104 @@
+import { AttemptRecord } from '../types';
+import { applyToneMark } from './pinyin';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface ItemStats {
+  item: string;
+  attempts: number;
+  correct: number;
+  accuracy: number; // 0..1
+  avgResponseMs: number;
+}
+
+export interface DailyStats {
+  day: number; // Local midnight timestamp
+  attempts: number;
+  correct: number;
+  accuracy: number | null; // null when there were no attempts that day
+}
+
+export interface ConfusionStats {
+  target: string; // What was asked (tone-marked for tone questions)
+  answer: string; // What the child picked instead
+  count: number;
+}
+
+/** Local midnight of the day containing `timestamp`. */
+export function startOfDay(timestamp: number): number {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/** Accuracy, attempt count and average response time per item. */
+export function summarizeByItem(attempts: AttemptRecord[]): Map<string, ItemStats> {
+  const byItem = new Map<string, ItemStats>();
+  for (const a of attempts) {
+    const s = byItem.get(a.item) ?? { item: a.item, attempts: 0, correct: 0, accuracy: 0, avgResponseMs: 0 };
+    s.attempts += 1;
+    s.correct += a.correct ? 1 : 0;
+    s.avgResponseMs += (a.responseTimeMs - s.avgResponseMs) / s.attempts;
+    s.accuracy = s.correct / s.attempts;
+    byItem.set(a.item, s);
+  }
+  return byItem;
+}
+
+/** One entry per day for the last `days` days (oldest first), including empty days. */
+export function dailyTrend(attempts: AttemptRecord[], days: number, now: number = Date.now()): DailyStats[] {
+  const today = startOfDay(now);
+  const trend: DailyStats[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    // Re-derive midnight so days stay aligned across DST changes
+    trend.push({ day: startOfDay(today - i * DAY + DAY / 2), attempts: 0, correct: 0, accuracy: null });
+  }
+
+  const index = new Map(trend.map((d, i) => [d.day, i]));
+  for (const a of attempts) {
+    const i = index.get(startOfDay(a.timestamp));
+    if (i === undefined) continue;
+    trend[i].attempts += 1;
+    trend[i].correct += a.correct ? 1 : 0;
+  }
+  trend.forEach(d => {
+    d.accuracy = d.attempts > 0 ? d.correct / d.attempts : null;
+  });
+  return trend;
+}
+
+/** The most frequent (asked, picked) mix-ups, most frequent first. */
+export function topConfusions(attempts: AttemptRecord[], limit: number): ConfusionStats[] {
+  const counts = new Map<string, ConfusionStats>();
+  for (const a of attempts) {
+    if (a.correct || !a.answer) continue;
+    const target = a.tone !== undefined ? applyToneMark(a.item, a.tone) : a.item;
+    const key = `${target}→${a.answer}`;
+    const entry = counts.get(key) ?? { target, answer: a.answer, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count).slice(0, limit);
+}
+
+/** Local midnight of the day before `day` (itself a local midnight). */
+export function previousDay(day: number): number {
+  return startOfDay(day - DAY / 2);
+}
+
+/**
+ * Days in a row with practice, counting back from today. A streak that ended yesterday still
+ * counts, so it doesn't look broken before the child has practised today.
+ */
+export function practiceStreak(practiceDays: number[], now: number = Date.now()): number {
+  const days = new Set(practiceDays);
+  let day = startOfDay(now);
+  if (!days.has(day)) day = previousDay(day);
+
+  let streak = 0;
+  while (days.has(day)) {
+    streak += 1;
+    day = previousDay(day);
+  }
+  return streak;
+}
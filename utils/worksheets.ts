@@ -0,0 +1,129 @@
+import { PinyinCategory, PinyinChar, Tone, VocabWord, WorksheetItem } from '../types';
+import { FOUR_TONES } from '../constants';
+import { VOCABULARY } from '../vocabulary';
+import { applyToneMark, blendSyllable, parseToneMark } from './pinyin';
+import { getSimilarity } from './confusables';
+import { canTrace } from './handwriting';
+
+// How much fits on one A4 page
+export const FLASHCARDS_PER_PAGE = 12;
+export const TRACING_ROWS_PER_PAGE = 10;
+export const LISTENING_QUESTIONS_PER_PAGE = 10;
+export const BLENDING_ROWS_PER_PAGE = 12;
+export const BLENDING_COLUMNS_PER_PAGE = 8;
+
+// How alike a wrong option is when it is the same letters in another tone (mā / mà)
+const OTHER_TONE_SIMILARITY = 0.8;
+
+export interface ListeningQuestion {
+  answer: WorksheetItem;
+  options: WorksheetItem[]; // Includes the answer, in printed order
+}
+
+export interface BlendingTable {
+  initials: string[];
+  finals: string[];
+  cells: (string | null)[][]; // [initial][final]: the written syllable, or null if they don't blend
+}
+
+/** Splits a list into runs of `size`, e.g. the items of each printed page. */
+export const chunk = <T>(list: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(list.length / size) }, (_, i) => list.slice(i * size, (i + 1) * size));
+
+/** A worksheet entry for an item of the app's lists. */
+export const fromPinyinChar = (item: PinyinChar): WorksheetItem => ({
+  char: item.char,
+  category: item.category,
+  words: item.words ?? [],
+});
+
+/** The syllable as printed, tone mark included. */
+export const worksheetText = (item: WorksheetItem): string =>
+  item.tone !== undefined ? applyToneMark(item.char, item.tone) : item.char;
+
+const ALL_WORDS: VocabWord[] = Object.values(VOCABULARY).flat();
+
+/** Picture words containing the syllable; in that tone if one is given. */
+const findWords = (char: string, tone?: Tone): VocabWord[] => {
+  const matches = ALL_WORDS.filter(word => word.pinyin.split(' ').some(syllable => {
+    const parsed = parseToneMark(syllable);
+    return parsed.syllable === char && (tone === undefined || parsed.tone === tone);
+  }));
+  return matches.filter((word, i) => matches.findIndex(w => w.hanzi === word.hanzi) === i);
+};
+
+/**
+ * Reads the syllables a teacher typed: tone marks (mā) or tone numbers (ma1), v for ü,
+ * separated by spaces or commas. Syllables that match an item of the app keep its picture words.
+ */
+export function parseCustomSyllables(text: string, allItems: PinyinChar[]): { items: WorksheetItem[]; invalid: string[] } {
+  const items: WorksheetItem[] = [];
+  const invalid: string[] = [];
+
+  for (const token of text.toLowerCase().split(/[\s,，、;；]+/).filter(Boolean)) {
+    const numbered = token.replace(/v/g, 'ü').match(/^([^\d]+)([0-4])?$/);
+    if (!numbered) {
+      invalid.push(token);
+      continue;
+    }
+    const parsed = parseToneMark(numbered[1]);
+    const char = parsed.syllable;
+    const tone = numbered[2] !== undefined ? Number(numbered[2]) as Tone : parsed.tone !== Tone.NEUTRAL ? parsed.tone : undefined;
+    if (!/^[a-zü]+$/.test(char) || !canTrace(char)) {
+      invalid.push(token);
+      continue;
+    }
+
+    const known = allItems.find(item => item.char === char);
+    if (known && tone === undefined) {
+      items.push(fromPinyinChar(known));
+    } else {
+      items.push({ char, tone, category: known?.category, words: findWords(char, tone) });
+    }
+  }
+  return { items, invalid };
+}
+
+/**
+ * One "circle the sound you hear" question per item, in random order. Wrong options are the
+ * most confusable items available: the same letters in another tone, then look- and sound-alikes.
+ */
+export function buildListeningQuestions(items: WorksheetItem[], optionCount: number, pool: WorksheetItem[]): ListeningQuestion[] {
+  return [...items].sort(() => Math.random() - 0.5).map(answer => {
+    const toneVariants = answer.tone === undefined
+      ? []
+      : FOUR_TONES.filter(t => t !== answer.tone).map(tone => ({ ...answer, tone, words: [] }));
+
+    const seen = new Set([worksheetText(answer)]);
+    const candidates = [...toneVariants, ...items, ...pool].filter(item => {
+      const text = worksheetText(item);
+      if (seen.has(text)) return false;
+      seen.add(text);
+      return true;
+    });
+
+    const similarity = (item: WorksheetItem) =>
+      item.char === answer.char ? OTHER_TONE_SIMILARITY : getSimilarity(answer.char, item.char);
+    const distractors = candidates
+      .map(item => ({ item, rank: similarity(item) + Math.random() * 0.1 }))
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, optionCount - 1)
+      .map(c => c.item);
+
+    return { answer, options: [answer, ...distractors].sort(() => Math.random() - 0.5) };
+  });
+}
+
+/** Initials down the side, finals across the top, split into page-sized tables. */
+export function buildBlendingTables(items: WorksheetItem[]): BlendingTable[] {
+  const initials = items.filter(i => i.category === PinyinCategory.INITIALS && i.tone === undefined).map(i => i.char);
+  const finals = items.filter(i => i.category === PinyinCategory.FINALS && i.tone === undefined).map(i => i.char);
+
+  return chunk(initials, BLENDING_ROWS_PER_PAGE).flatMap(rows =>
+    chunk(finals, BLENDING_COLUMNS_PER_PAGE).map(columns => ({
+      initials: rows,
+      finals: columns,
+      cells: rows.map(initial => columns.map(final => blendSyllable(initial, final)?.syllable ?? null)),
+    }))
+  );
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+// Clips shipped under public/audio, listed at build time (see vite.config.ts)
+declare const __AUDIO_CLIPS__: string[];
+// Content hash of public/audio, changes whenever a clip is added, replaced or removed
+declare const __AUDIO_VERSION__: string;
@@ -1,12 +1,94 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const rootDir = fileURLToPath(new URL('.', import.meta.url));
+
+// Recursively lists files under a directory
+function walk(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? walk(path) : [path];
+  });
+}
+
+// Clip names of every recording under public/audio ('ma3', 'words/ba4ba'), so the app knows
+// which syllables have a real recording without asking the server for each one
+function listAudioClips(): string[] {
+  const audioDir = join(rootDir, 'public/audio');
+  return walk(audioDir)
+    .filter((path) => path.endsWith('.mp3'))
+    .map((path) => relative(audioDir, path).split(sep).join('/').replace(/\.mp3$/, ''))
+    .sort();
+}
+
+// Hash of every recording's name and bytes; names the app's persistent clip cache, so replacing
+// an mp3 under the same name drops the stale copy instead of playing it forever
+function audioVersion(): string {
+  const audioDir = join(rootDir, 'public/audio');
+  const hash = createHash('sha256');
+  walk(audioDir).sort().forEach((path) => {
+    hash.update(relative(audioDir, path));
+    hash.update(readFileSync(path));
+  });
+  return hash.digest('hex').slice(0, 12);
+}
+
+/**
+ * Emits /sw.js from pwa/sw.js with the precache list (every bundled file plus everything
+ * in public/, including all audio clips) and a cache version derived from their contents,
+ * so each build that changes anything gets a fresh cache and triggers the update prompt.
+ */
+function serviceWorker(): Plugin {
+  let publicDir = '';
+
+  return {
+    name: 'candy-pinyin-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const urls = new Set<string>(['/', '/index.html']);
+
+      Object.values(bundle)
+        .filter((file) => !file.fileName.endsWith('.map'))
+        // .woff2 is supported everywhere we run; skip the legacy .woff duplicates
+        .filter((file) => !file.fileName.endsWith('.woff'))
+        .forEach((file) => {
+          urls.add(`/${file.fileName}`);
+          hash.update(file.fileName);
+          hash.update(file.type === 'chunk' ? file.code : file.source);
+        });
+
+      walk(publicDir).forEach((path) => {
+        urls.add(`/${relative(publicDir, path).split(sep).join('/')}`);
+        hash.update(readFileSync(path));
+      });
+
+      const source = readFileSync(join(rootDir, 'pwa/sw.js'), 'utf-8')
+        .replace('__BUILD_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace('__PRECACHE_URLS__', JSON.stringify([...urls].sort(), null, 2));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
+  define: {
+    __AUDIO_CLIPS__: JSON.stringify(listAudioClips()),
+    __AUDIO_VERSION__: JSON.stringify(audioVersion()),
+  },
   build: {
     outDir: 'dist',
   },
   server: {
     port: 3000,
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,291 @@
+import { VocabWord } from './types';
+
+// Picture words for every initial, final and whole syllable, keyed by PinyinChar.char.
+// Each word contains the sound in one of its syllables, the first word being the
+// textbook mnemonic where there is one (b: 爸爸, m: 妈妈, yu: 鱼).
+export const VOCABULARY: Record<string, VocabWord[]> = {
+  // --- Initials ---
+  b: [
+    { hanzi: '爸爸', pinyin: 'bà ba', emoji: '👨' },
+    { hanzi: '包子', pinyin: 'bāo zi', emoji: '🥟' },
+    { hanzi: '鼻子', pinyin: 'bí zi', emoji: '👃' },
+  ],
+  p: [
+    { hanzi: '苹果', pinyin: 'píng guǒ', emoji: '🍎' },
+    { hanzi: '葡萄', pinyin: 'pú tao', emoji: '🍇' },
+    { hanzi: '螃蟹', pinyin: 'páng xiè', emoji: '🦀' },
+  ],
+  m: [
+    { hanzi: '妈妈', pinyin: 'mā ma', emoji: '👩' },
+    { hanzi: '猫', pinyin: 'māo', emoji: '🐱' },
+    { hanzi: '蘑菇', pinyin: 'mó gu', emoji: '🍄' },
+  ],
+  f: [
+    { hanzi: '飞机', pinyin: 'fēi jī', emoji: '✈️' },
+    { hanzi: '房子', pinyin: 'fáng zi', emoji: '🏠' },
+    { hanzi: '蜂蜜', pinyin: 'fēng mì', emoji: '🍯' },
+  ],
+  d: [
+    { hanzi: '大象', pinyin: 'dà xiàng', emoji: '🐘' },
+    { hanzi: '蛋糕', pinyin: 'dàn gāo', emoji: '🎂' },
+    { hanzi: '灯', pinyin: 'dēng', emoji: '💡' },
+  ],
+  t: [
+    { hanzi: '兔子', pinyin: 'tù zi', emoji: '🐰' },
+    { hanzi: '太阳', pinyin: 'tài yáng', emoji: '☀️' },
+    { hanzi: '糖', pinyin: 'táng', emoji: '🍬' },
+  ],
+  n: [
+    { hanzi: '牛', pinyin: 'niú', emoji: '🐮' },
+    { hanzi: '奶奶', pinyin: 'nǎi nai', emoji: '👵' },
+    { hanzi: '柠檬', pinyin: 'níng méng', emoji: '🍋' },
+  ],
+  l: [
+    { hanzi: '老虎', pinyin: 'lǎo hǔ', emoji: '🐯' },
+    { hanzi: '龙', pinyin: 'lóng', emoji: '🐉' },
+    { hanzi: '铃铛', pinyin: 'líng dang', emoji: '🔔' },
+  ],
+  g: [
+    { hanzi: '狗', pinyin: 'gǒu', emoji: '🐶' },
+    { hanzi: '鸽子', pinyin: 'gē zi', emoji: '🕊️' },
+    { hanzi: '鼓', pinyin: 'gǔ', emoji: '🥁' },
+  ],
+  k: [
+    { hanzi: '恐龙', pinyin: 'kǒng lóng', emoji: '🦖' },
+    { hanzi: '裤子', pinyin: 'kù zi', emoji: '👖' },
+    { hanzi: '考拉', pinyin: 'kǎo lā', emoji: '🐨' },
+  ],
+  h: [
+    { hanzi: '花', pinyin: 'huā', emoji: '🌸' },
+    { hanzi: '猴子', pinyin: 'hóu zi', emoji: '🐵' },
+    { hanzi: '蝴蝶', pinyin: 'hú dié', emoji: '🦋' },
+  ],
+  j: [
+    { hanzi: '鸡', pinyin: 'jī', emoji: '🐔' },
+    { hanzi: '橘子', pinyin: 'jú zi', emoji: '🍊' },
+    { hanzi: '金鱼', pinyin: 'jīn yú', emoji: '🐠' },
+  ],
+  q: [
+    { hanzi: '气球', pinyin: 'qì qiú', emoji: '🎈' },
+    { hanzi: '青蛙', pinyin: 'qīng wā', emoji: '🐸' },
+    { hanzi: '企鹅', pinyin: 'qǐ é', emoji: '🐧' },
+  ],
+  x: [
+    { hanzi: '西瓜', pinyin: 'xī guā', emoji: '🍉' },
+    { hanzi: '熊猫', pinyin: 'xióng māo', emoji: '🐼' },
+    { hanzi: '星星', pinyin: 'xīng xing', emoji: '⭐' },
+  ],
+  zh: [
+    { hanzi: '猪', pinyin: 'zhū', emoji: '🐷' },
+    { hanzi: '蜘蛛', pinyin: 'zhī zhū', emoji: '🕷️' },
+    { hanzi: '钟', pinyin: 'zhōng', emoji: '⏰' },
+  ],
+  ch: [
+    { hanzi: '车', pinyin: 'chē', emoji: '🚗' },
+    { hanzi: '船', pinyin: 'chuán', emoji: '🚢' },
+    { hanzi: '虫子', pinyin: 'chóng zi', emoji: '🐛' },
+  ],
+  sh: [
+    { hanzi: '狮子', pinyin: 'shī zi', emoji: '🦁' },
+    { hanzi: '书', pinyin: 'shū', emoji: '📖' },
+    { hanzi: '手', pinyin: 'shǒu', emoji: '✋' },
+  ],
+  r: [
+    { hanzi: '人', pinyin: 'rén', emoji: '🧒' },
+    { hanzi: '肉', pinyin: 'ròu', emoji: '🍖' },
+    { hanzi: '热狗', pinyin: 'rè gǒu', emoji: '🌭' },
+  ],
+  z: [
+    { hanzi: '足球', pinyin: 'zú qiú', emoji: '⚽' },
+    { hanzi: '嘴巴', pinyin: 'zuǐ ba', emoji: '👄' },
+    { hanzi: '紫色', pinyin: 'zǐ sè', emoji: '🟣' },
+  ],
+  c: [
+    { hanzi: '草莓', pinyin: 'cǎo méi', emoji: '🍓' },
+    { hanzi: '刺猬', pinyin: 'cì wei', emoji: '🦔' },
+    { hanzi: '菜', pinyin: 'cài', emoji: '🥬' },
+  ],
+  s: [
+    { hanzi: '伞', pinyin: 'sǎn', emoji: '☂️' },
+    { hanzi: '松鼠', pinyin: 'sōng shǔ', emoji: '🐿️' },
+    { hanzi: '三', pinyin: 'sān', emoji: '3️⃣' },
+  ],
+  y: [
+    { hanzi: '鸭子', pinyin: 'yā zi', emoji: '🦆' },
+    { hanzi: '羊', pinyin: 'yáng', emoji: '🐑' },
+    { hanzi: '月亮', pinyin: 'yuè liang', emoji: '🌙' },
+  ],
+  w: [
+    { hanzi: '娃娃', pinyin: 'wá wa', emoji: '🪆' },
+    { hanzi: '袜子', pinyin: 'wà zi', emoji: '🧦' },
+    { hanzi: '碗', pinyin: 'wǎn', emoji: '🥣' },
+  ],
+
+  // --- Finals ---
+  a: [
+    { hanzi: '马', pinyin: 'mǎ', emoji: '🐴' },
+    { hanzi: '喇叭', pinyin: 'lǎ ba', emoji: '🎺' },
+  ],
+  o: [
+    { hanzi: '菠萝', pinyin: 'bō luó', emoji: '🍍' },
+    { hanzi: '婆婆', pinyin: 'pó po', emoji: '👵' },
+  ],
+  e: [
+    { hanzi: '鹅', pinyin: 'é', emoji: '🦢' },
+    { hanzi: '河', pinyin: 'hé', emoji: '🏞️' },
+  ],
+  i: [
+    { hanzi: '衣服', pinyin: 'yī fu', emoji: '👕' },
+    { hanzi: '鼻子', pinyin: 'bí zi', emoji: '👃' },
+    { hanzi: '梯子', pinyin: 'tī zi', emoji: '🪜' },
+  ],
+  u: [
+    { hanzi: '乌龟', pinyin: 'wū guī', emoji: '🐢' },
+    { hanzi: '兔子', pinyin: 'tù zi', emoji: '🐰' },
+    { hanzi: '鼓', pinyin: 'gǔ', emoji: '🥁' },
+  ],
+  ü: [
+    { hanzi: '鱼', pinyin: 'yú', emoji: '🐟' },
+    { hanzi: '雨', pinyin: 'yǔ', emoji: '🌧️' },
+    { hanzi: '绿', pinyin: 'lǜ', emoji: '🟢' },
+  ],
+  ai: [
+    { hanzi: '白菜', pinyin: 'bái cài', emoji: '🥬' },
+    { hanzi: '爱心', pinyin: 'ài xīn', emoji: '❤️' },
+  ],
+  ei: [
+    { hanzi: '杯子', pinyin: 'bēi zi', emoji: '🥛' },
+    { hanzi: '飞机', pinyin: 'fēi jī', emoji: '✈️' },
+  ],
+  ui: [
+    { hanzi: '水', pinyin: 'shuǐ', emoji: '💧' },
+    { hanzi: '嘴巴', pinyin: 'zuǐ ba', emoji: '👄' },
+  ],
+  ao: [
+    { hanzi: '猫', pinyin: 'māo', emoji: '🐱' },
+    { hanzi: '桃子', pinyin: 'táo zi', emoji: '🍑' },
+    { hanzi: '帽子', pinyin: 'mào zi', emoji: '🧢' },
+  ],
+  ou: [
+    { hanzi: '狗', pinyin: 'gǒu', emoji: '🐶' },
+    { hanzi: '猴子', pinyin: 'hóu zi', emoji: '🐵' },
+  ],
+  iu: [
+    { hanzi: '牛', pinyin: 'niú', emoji: '🐮' },
+    { hanzi: '气球', pinyin: 'qì qiú', emoji: '🎈' },
+  ],
+  ie: [
+    { hanzi: '蝴蝶', pinyin: 'hú dié', emoji: '🦋' },
+    { hanzi: '鞋', pinyin: 'xié', emoji: '👟' },
+  ],
+  üe: [
+    { hanzi: '月亮', pinyin: 'yuè liang', emoji: '🌙' },
+    { hanzi: '雪', pinyin: 'xuě', emoji: '❄️' },
+  ],
+  er: [
+    { hanzi: '耳朵', pinyin: 'ěr duo', emoji: '👂' },
+    { hanzi: '二', pinyin: 'èr', emoji: '2️⃣' },
+  ],
+  an: [
+    { hanzi: '山', pinyin: 'shān', emoji: '⛰️' },
+    { hanzi: '伞', pinyin: 'sǎn', emoji: '☂️' },
+  ],
+  en: [
+    { hanzi: '门', pinyin: 'mén', emoji: '🚪' },
+    { hanzi: '本子', pinyin: 'běn zi', emoji: '📓' },
+  ],
+  in: [
+    { hanzi: '心', pinyin: 'xīn', emoji: '❤️' },
+    { hanzi: '金鱼', pinyin: 'jīn yú', emoji: '🐠' },
+  ],
+  un: [
+    { hanzi: '轮船', pinyin: 'lún chuán', emoji: '🚢' },
+    { hanzi: '春天', pinyin: 'chūn tiān', emoji: '🌷' },
+  ],
+  ün: [
+    { hanzi: '云', pinyin: 'yún', emoji: '☁️' },
+    { hanzi: '裙子', pinyin: 'qún zi', emoji: '👗' },
+  ],
+  ang: [
+    { hanzi: '糖', pinyin: 'táng', emoji: '🍬' },
+    { hanzi: '羊', pinyin: 'yáng', emoji: '🐑' },
+  ],
+  eng: [
+    { hanzi: '灯', pinyin: 'dēng', emoji: '💡' },
+    { hanzi: '风筝', pinyin: 'fēng zheng', emoji: '🪁' },
+  ],
+  ing: [
+    { hanzi: '星星', pinyin: 'xīng xing', emoji: '⭐' },
+    { hanzi: '铃铛', pinyin: 'líng dang', emoji: '🔔' },
+  ],
+  ong: [
+    { hanzi: '龙', pinyin: 'lóng', emoji: '🐉' },
+    { hanzi: '钟', pinyin: 'zhōng', emoji: '⏰' },
+  ],
+
+  // --- Whole syllables ---
+  zhi: [
+    { hanzi: '蜘蛛', pinyin: 'zhī zhū', emoji: '🕷️' },
+    { hanzi: '纸', pinyin: 'zhǐ', emoji: '📄' },
+  ],
+  chi: [
+    { hanzi: '吃饭', pinyin: 'chī fàn', emoji: '🍚' },
+    { hanzi: '尺子', pinyin: 'chǐ zi', emoji: '📏' },
+  ],
+  shi: [
+    { hanzi: '狮子', pinyin: 'shī zi', emoji: '🦁' },
+    { hanzi: '石头', pinyin: 'shí tou', emoji: '🪨' },
+  ],
+  ri: [
+    { hanzi: '日出', pinyin: 'rì chū', emoji: '🌅' },
+    { hanzi: '日历', pinyin: 'rì lì', emoji: '📅' },
+  ],
+  zi: [
+    { hanzi: '紫色', pinyin: 'zǐ sè', emoji: '🟣' },
+    { hanzi: '字', pinyin: 'zì', emoji: '🔤' },
+  ],
+  ci: [
+    { hanzi: '刺猬', pinyin: 'cì wei', emoji: '🦔' },
+    { hanzi: '磁铁', pinyin: 'cí tiě', emoji: '🧲' },
+  ],
+  si: [
+    { hanzi: '四', pinyin: 'sì', emoji: '4️⃣' },
+    { hanzi: '丝巾', pinyin: 'sī jīn', emoji: '🧣' },
+  ],
+  yi: [
+    { hanzi: '衣服', pinyin: 'yī fu', emoji: '👕' },
+    { hanzi: '椅子', pinyin: 'yǐ zi', emoji: '🪑' },
+  ],
+  wu: [
+    { hanzi: '乌龟', pinyin: 'wū guī', emoji: '🐢' },
+    { hanzi: '五', pinyin: 'wǔ', emoji: '5️⃣' },
+  ],
+  yu: [
+    { hanzi: '鱼', pinyin: 'yú', emoji: '🐟' },
+    { hanzi: '雨伞', pinyin: 'yǔ sǎn', emoji: '☂️' },
+  ],
+  ye: [
+    { hanzi: '叶子', pinyin: 'yè zi', emoji: '🍃' },
+    { hanzi: '椰子', pinyin: 'yē zi', emoji: '🥥' },
+  ],
+  yue: [
+    { hanzi: '月亮', pinyin: 'yuè liang', emoji: '🌙' },
+    { hanzi: '音乐', pinyin: 'yīn yuè', emoji: '🎵' },
+  ],
+  yuan: [
+    { hanzi: '圆', pinyin: 'yuán', emoji: '⭕' },
+    { hanzi: '花园', pinyin: 'huā yuán', emoji: '🏡' },
+  ],
+  yin: [
+    { hanzi: '音乐', pinyin: 'yīn yuè', emoji: '🎵' },
+    { hanzi: '银子', pinyin: 'yín zi', emoji: '🪙' },
+  ],
+  yun: [
+    { hanzi: '云', pinyin: 'yún', emoji: '☁️' },
+    { hanzi: '运动', pinyin: 'yùn dòng', emoji: '🏃' },
+  ],
+  ying: [
+    { hanzi: '樱桃', pinyin: 'yīng tao', emoji: '🍒' },
+    { hanzi: '老鹰', pinyin: 'lǎo yīng', emoji: '🦅' },
+  ],
+};